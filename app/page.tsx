@@ -1,33 +1,123 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-
-interface Task {
-  id: string;
-  status: 'queued' | 'processing' | 'completed' | 'failed';
-  createdAt: number;
-  startedAt?: number;
-  completedAt?: number;
-  data?: any;
-}
+import { useState, useEffect, useCallback } from 'react';
+import type {
+  LimiterPolicyStatus,
+  QueueEvent,
+  QueueListing,
+  QueueStatus,
+  QueueSummary,
+  TaskEvent,
+  TaskEventType,
+  TaskPriority,
+} from '@/netlify/functions/lib/types.mts';
 
-interface QueueStatus {
-  queued: Task[];
-  processing: Task[];
-  completed: Task[];
-  stats: {
-    queuedCount: number;
-    processingCount: number;
-    completedCount: number;
-    totalTasks: number;
-  };
-  rateLimit?: {
-    limit: number;
-    windowSeconds: number;
-    used: number;
-    remaining: number;
-    resetAt: number | null;
+const LIST_LIMIT = 50; // Same cap the server applies to each list
+const FALLBACK_DELAY = 5000; // How long the stream can be down before we start polling
+const DEFAULT_QUEUE = 'default';
+const QUEUE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,62}$/; // Same rule the API enforces
+const PRIORITIES: TaskPriority[] = ['high', 'normal', 'low'];
+const PRIORITY_BADGES: Record<TaskPriority, string> = {
+  high: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300',
+  normal: 'bg-zinc-100 text-zinc-700 dark:bg-zinc-700 dark:text-zinc-300',
+  low: 'bg-sky-100 text-sky-700 dark:bg-sky-900/40 dark:text-sky-300',
+};
+const TIMELINE_DOTS: Record<TaskEventType, string> = {
+  enqueued: 'bg-zinc-400',
+  deferred: 'bg-indigo-500',
+  'rate-limited': 'bg-orange-500',
+  claimed: 'bg-blue-500',
+  failed: 'bg-red-500',
+  retried: 'bg-yellow-500',
+  completed: 'bg-green-500',
+  'cancel-requested': 'bg-zinc-500',
+  cancelled: 'bg-zinc-700',
+  blocked: 'bg-purple-400',
+  unblocked: 'bg-purple-600',
+  requeued: 'bg-yellow-500',
+  moved: 'bg-sky-500',
+};
+const TASK_BUTTON =
+  'px-2 py-0.5 bg-zinc-200 dark:bg-zinc-700 text-zinc-900 dark:text-zinc-50 rounded hover:bg-zinc-300 dark:hover:bg-zinc-600 transition-colors text-xs';
+
+// Applies one /api/queue-events "task" event to the dashboard state. Idempotent,
+// since an event can arrive again after a reconnect.
+function applyQueueEvent(status: QueueStatus, event: QueueEvent): QueueStatus {
+  if (event.type === 'cleared') {
+    return {
+      ...status,
+      queued: [],
+      processing: [],
+      completed: [],
+      retrying: [],
+      scheduled: [],
+      blocked: [],
+      deadLetter: [],
+      cancelled: [],
+    };
+  }
+
+  const without = (tasks: QueueStatus['queued']) => tasks.filter((task) => task.id !== event.taskId);
+  const next: QueueStatus = {
+    ...status,
+    queued: without(status.queued),
+    processing: without(status.processing),
+    completed: without(status.completed),
+    retrying: without(status.retrying),
+    scheduled: without(status.scheduled),
+    blocked: without(status.blocked ?? []),
+    deadLetter: without(status.deadLetter),
+    cancelled: without(status.cancelled ?? []),
   };
+
+  const task = event.task;
+  if (event.type === 'purged' || !task) {
+    return next;
+  }
+  if (event.type === 'moved') {
+    // Front/back isn't in the event - keep its place until the next snapshot
+    const rank = (priority: TaskPriority) => PRIORITIES.indexOf(priority ?? 'normal');
+    next.queued = status.queued
+      .map((queued) => (queued.id === task.id ? task : queued))
+      .sort((a, b) => rank(a.priority) - rank(b.priority));
+    return next;
+  }
+  if (task.status === 'processing') {
+    next.processing = [...next.processing, task];
+  } else if (task.status === 'completed') {
+    next.completed = [...next.completed, task].slice(-LIST_LIMIT);
+  } else if (task.status === 'failed') {
+    next.deadLetter = [...next.deadLetter, task].slice(-LIST_LIMIT);
+  } else if (task.status === 'cancelled') {
+    next.cancelled = [...next.cancelled, task].slice(-LIST_LIMIT);
+  } else if (task.waitingOn?.length) {
+    next.blocked = [...next.blocked, task].slice(0, LIST_LIMIT);
+  } else if (task.retryAt) {
+    next.retrying = [...next.retrying, task];
+  } else if (task.runAt) {
+    next.scheduled = [...next.scheduled, task]
+      .sort((a, b) => (a.runAt ?? 0) - (b.runAt ?? 0))
+      .slice(0, LIST_LIMIT);
+  } else {
+    // Same order as the server's list: high lane first, FIFO within a lane
+    const rank = (priority: TaskPriority) => PRIORITIES.indexOf(priority ?? 'normal');
+    next.queued = [...next.queued, task]
+      .sort((a, b) => rank(a.priority) - rank(b.priority))
+      .slice(0, LIST_LIMIT);
+  }
+  return next;
+}
+
+// One line per enabled limiter policy on the Rate Limit card
+function describePolicy(policy: LimiterPolicyStatus): string {
+  switch (policy.type) {
+    case 'sliding-window':
+      return `${policy.used} / ${policy.limit} started per ${policy.windowSeconds}s`;
+    case 'token-bucket':
+      return `${Math.floor(policy.tokens)} / ${policy.capacity} tokens (+${policy.refillPerSecond}/s)`;
+    case 'max-concurrency':
+      return `${policy.active} / ${policy.limit} running`;
+  }
 }
 
 export default function Home() {
@@ -35,88 +125,153 @@ export default function Home() {
   const [loading, setLoading] = useState(false);
   const [queueing, setQueueing] = useState(false);
   const [autoRefresh, setAutoRefresh] = useState(true);
+  const [priority, setPriority] = useState<TaskPriority>('normal');
+  const [live, setLive] = useState(false);
+  const [queueName, setQueueName] = useState(DEFAULT_QUEUE);
+  const [queues, setQueues] = useState<QueueListing[]>([]);
+  const [tenant, setTenant] = useState('default');
+  const [signedIn, setSignedIn] = useState(true); // Until an API call says otherwise
+  const [apiKey, setApiKey] = useState('');
+  const [signInError, setSignInError] = useState('');
+  // The task whose event log is open; events is null while it loads
+  const [timeline, setTimeline] = useState<{ taskId: string; events: TaskEvent[] | null; error?: string } | null>(
+    null
+  );
+
+  const queueQuery = `queue=${encodeURIComponent(queueName)}`;
 
-  const fetchStatus = async () => {
+  // The selected queue's status, plus the queue list for the selector
+  const fetchStatus = useCallback(async () => {
     try {
-      const response = await fetch('/api/queue-status');
-      const data = await response.json();
-      setStatus(data);
+      const [statusResponse, queuesResponse] = await Promise.all([
+        fetch(`/api/queue-status?${queueQuery}`),
+        fetch('/api/queues'),
+      ]);
+      if (statusResponse.status === 401) {
+        setSignedIn(false);
+        return;
+      }
+      setStatus(await statusResponse.json());
+      if (queuesResponse.ok) {
+        setQueues((await queuesResponse.json()).queues);
+      }
     } catch (error) {
       console.error('Error fetching status:', error);
     } finally {
       setLoading(false);
     }
-  };
+  }, [queueQuery]);
 
+  // Live updates over SSE. EventSource reconnects on its own after each stream
+  // ends; if it stays down we fall back to polling until it comes back.
   useEffect(() => {
+    if (!signedIn) {
+      return;
+    }
     fetchStatus();
-    const interval = setInterval(() => {
-      if (autoRefresh) {
-        fetchStatus();
+    if (!autoRefresh) {
+      return;
+    }
+
+    const source = new EventSource(`/api/queue-events?${queueQuery}`);
+    let fallbackTimer: ReturnType<typeof setTimeout> | undefined;
+    let pollInterval: ReturnType<typeof setInterval> | undefined;
+
+    const stopPolling = () => {
+      clearTimeout(fallbackTimer);
+      clearInterval(pollInterval);
+      fallbackTimer = undefined;
+      pollInterval = undefined;
+    };
+
+    source.onopen = () => {
+      stopPolling();
+      setLive(true);
+    };
+    source.onerror = () => {
+      setLive(false);
+      if (!fallbackTimer && !pollInterval) {
+        fallbackTimer = setTimeout(() => {
+          pollInterval = setInterval(fetchStatus, 2000); // Refresh every 2 seconds
+        }, FALLBACK_DELAY);
       }
-    }, 2000); // Refresh every 2 seconds
+    };
 
-    return () => clearInterval(interval);
-  }, [autoRefresh]);
+    source.addEventListener('snapshot', (e) => {
+      setStatus(JSON.parse((e as MessageEvent).data));
+      setLoading(false);
+    });
+    source.addEventListener('task', (e) => {
+      const event: QueueEvent = JSON.parse((e as MessageEvent).data);
+      setStatus((current) => (current ? applyQueueEvent(current, event) : current));
+    });
+    source.addEventListener('stats', (e) => {
+      const summary: QueueSummary = JSON.parse((e as MessageEvent).data);
+      setStatus((current) => (current ? { ...current, ...summary } : current));
+    });
+
+    return () => {
+      source.close();
+      stopPolling();
+      setLive(false);
+    };
+  }, [autoRefresh, fetchStatus, queueQuery, signedIn]);
 
-  const queueMultiple = async (count: number) => {
+  // With `delaySeconds`, the tasks are scheduled rather than eligible right away
+  const queueMultiple = async (count: number, delaySeconds?: number) => {
     setQueueing(true);
     try {
-      // Queue tasks in batches to avoid overwhelming browser/server
+      // One /api/queue-tasks/batch request per 500 tasks (the endpoint's cap)
       // Unlimited queuing is allowed - rate limiting happens when tasks START processing
-      const BATCH_SIZE = 50; // Process 50 at a time
+      const BATCH_SIZE = 500;
       let queued = 0;
       let failed = 0;
-      
+
       for (let batchStart = 0; batchStart < count; batchStart += BATCH_SIZE) {
         const batchEnd = Math.min(batchStart + BATCH_SIZE, count);
-        const batchPromises = Array.from({ length: batchEnd - batchStart }, async (_, batchIndex) => {
-          const index = batchStart + batchIndex;
-          try {
-            const response = await fetch('/api/queue-task', {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ data: { timestamp: Date.now(), index } }),
-            });
-            
-            if (response.ok) {
-              return { success: true, index };
-            } else {
-              const result = await response.json().catch(() => ({}));
-              console.error(`Failed to queue task ${index + 1}:`, result.error || response.statusText);
-              return { success: false, index, error: result.error || response.statusText };
+        const tasks = Array.from({ length: batchEnd - batchStart }, (_, batchIndex) => ({
+          data: { timestamp: Date.now(), index: batchStart + batchIndex },
+          priority,
+          delaySeconds,
+        }));
+
+        try {
+          const response = await fetch('/api/queue-tasks/batch', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'X-Tenant-Id': tenant || 'default' },
+            body: JSON.stringify({ queue: queueName, tasks }),
+          });
+          const result = await response.json().catch(() => ({}));
+
+          if (response.ok) {
+            queued += result.queued;
+            failed += result.failed;
+            for (const item of result.results) {
+              if (!item.success) {
+                console.error(`Failed to queue task ${batchStart + item.index + 1}:`, item.error);
+              }
             }
-          } catch (error) {
-            console.error(`Error queueing task ${index + 1}:`, error);
-            return { success: false, index, error: error instanceof Error ? error.message : 'Unknown error' };
-          }
-        });
-        
-        // Wait for batch to complete
-        const batchResults = await Promise.all(batchPromises);
-        
-        // Count successes and failures
-        batchResults.forEach(result => {
-          if (result.success) {
-            queued++;
           } else {
-            failed++;
+            failed += tasks.length;
+            console.error(`Failed to queue tasks ${batchStart + 1}-${batchEnd}:`, result.error || response.statusText);
           }
-        });
-        
-        // Small delay between batches to avoid overwhelming
-        if (batchEnd < count) {
-          await new Promise(resolve => setTimeout(resolve, 100));
+        } catch (error) {
+          failed += tasks.length;
+          console.error(`Error queueing tasks ${batchStart + 1}-${batchEnd}:`, error);
         }
       }
-      
+
       // Update status
       await fetchStatus();
-      
+
       if (failed > 0) {
         alert(`Queued ${queued} out of ${count} tasks. ${failed} failed. Check console for details.`);
       } else {
-        alert(`Successfully queued all ${queued} tasks! They will start processing as rate limit allows (250/min).`);
+        alert(
+          delaySeconds
+            ? `Successfully scheduled all ${queued} tasks! They will join the queue in ${delaySeconds}s.`
+            : `Successfully queued all ${queued} tasks! They will start processing as the rate limits allow.`
+        );
       }
     } catch (error) {
       console.error('Error queueing tasks:', error);
@@ -126,16 +281,139 @@ export default function Home() {
     }
   };
 
+  // A new queue only exists once a task is queued to it
+  const selectQueue = (name: string) => {
+    if (name !== '+new') {
+      setStatus(null);
+      setQueueName(name);
+      return;
+    }
+    const entered = prompt('New queue name (lowercase letters, digits, - or _):')?.trim();
+    if (!entered) return;
+    if (!QUEUE_NAME_PATTERN.test(entered)) {
+      alert(`"${entered}" is not a valid queue name.`);
+      return;
+    }
+    setStatus(null);
+    setQueueName(entered);
+  };
+
+  const queueNames = queues.some((queue) => queue.name === queueName)
+    ? queues.map((queue) => queue.name)
+    : [...queues.map((queue) => queue.name), queueName];
+
   const clearQueue = async () => {
-    if (!confirm('Are you sure you want to clear the queue?')) return;
+    if (!confirm(`Are you sure you want to clear the "${queueName}" queue?`)) return;
     try {
-      await fetch('/api/clear-queue', { method: 'POST' });
+      await fetch(`/api/clear-queue?${queueQuery}`, { method: 'POST' });
       await fetchStatus();
     } catch (error) {
       console.error('Error clearing queue:', error);
     }
   };
 
+  const manageDeadLetter = async (action: 'retry' | 'purge', taskIds?: string[]) => {
+    if (action === 'purge' && !confirm('Permanently delete these dead-lettered tasks?')) return;
+    try {
+      await fetch(`/api/dead-letter?${queueQuery}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, taskIds }),
+      });
+      await fetchStatus();
+    } catch (error) {
+      console.error(`Error running dead-letter ${action}:`, error);
+    }
+  };
+
+  // cancel / requeue / move on a single task (see /api/task/:id/:action)
+  const taskAction = async (
+    taskId: string,
+    action: 'cancel' | 'requeue' | 'move',
+    body?: { to: 'front' | 'back' }
+  ) => {
+    try {
+      const response = await fetch(`/api/task/${taskId}/${action}?${queueQuery}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body ?? {}),
+      });
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        alert(result.error || `Could not ${action} task ${taskId}`);
+      }
+      await fetchStatus();
+    } catch (error) {
+      console.error(`Error running ${action} on task ${taskId}:`, error);
+    }
+  };
+
+  // Clicking a task card opens its event log (its buttons still just do their action)
+  const showTimeline = async (e: React.MouseEvent, taskId: string) => {
+    if ((e.target as HTMLElement).closest('button')) return;
+    setTimeline({ taskId, events: null });
+    // Ignore the response if another card was clicked meanwhile
+    const show = (events: TaskEvent[], error?: string) =>
+      setTimeline((current) => (current?.taskId === taskId ? { taskId, events, error } : current));
+    try {
+      const response = await fetch(`/api/task/${taskId}/events?${queueQuery}`);
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        show([], result.error || `Could not load events for task ${taskId}`);
+        return;
+      }
+      show(result.events);
+    } catch (error) {
+      show([], error instanceof Error ? error.message : `Could not load events for task ${taskId}`);
+    }
+  };
+
+  const controlQueue = async (action: 'pause' | 'resume' | 'drain' | 'undrain') => {
+    try {
+      await fetch(`/api/queue-control?${queueQuery}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+      await fetchStatus();
+    } catch (error) {
+      console.error(`Error running queue ${action}:`, error);
+    }
+  };
+
+  // The key goes into an HttpOnly session cookie (see /api/session), which the
+  // fetches and the EventSource then send on their own
+  const signIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSignInError('');
+    try {
+      const response = await fetch('/api/session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ key: apiKey }),
+      });
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        setSignInError(result.error || 'Sign-in failed');
+        return;
+      }
+      setApiKey('');
+      setSignedIn(true);
+    } catch (error) {
+      setSignInError(error instanceof Error ? error.message : 'Sign-in failed');
+    }
+  };
+
+  const signOut = async () => {
+    try {
+      await fetch('/api/session', { method: 'DELETE' });
+    } catch (error) {
+      console.error('Error signing out:', error);
+    }
+    setStatus(null);
+    setSignedIn(false);
+  };
+
   const formatTime = (timestamp: number) => {
     return new Date(timestamp).toLocaleTimeString();
   };
@@ -145,6 +423,37 @@ export default function Home() {
     return ((endTime - start) / 1000).toFixed(1);
   };
 
+  if (!signedIn) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-zinc-50 to-zinc-100 dark:from-black dark:to-zinc-900 p-4 sm:p-8">
+        <div className="max-w-md mx-auto mt-16 bg-white dark:bg-zinc-800 rounded-lg shadow-lg p-6">
+          <h1 className="text-2xl font-bold text-zinc-900 dark:text-zinc-50 mb-2">Operator sign-in</h1>
+          <p className="text-sm text-zinc-600 dark:text-zinc-400 mb-4">
+            The dashboard needs an operator or admin API key.
+          </p>
+          <form onSubmit={signIn} className="flex flex-col gap-3">
+            <input
+              type="password"
+              value={apiKey}
+              onChange={(e) => setApiKey(e.target.value)}
+              placeholder="qk_..."
+              autoComplete="current-password"
+              className="px-3 py-2 rounded-lg border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-700 text-zinc-900 dark:text-zinc-50 font-mono"
+            />
+            {signInError && <p className="text-sm text-red-600 dark:text-red-400">{signInError}</p>}
+            <button
+              type="submit"
+              disabled={!apiKey}
+              className="px-6 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Sign in
+            </button>
+          </form>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-zinc-50 to-zinc-100 dark:from-black dark:to-zinc-900 p-4 sm:p-8">
       <div className="max-w-7xl mx-auto">
@@ -153,16 +462,67 @@ export default function Home() {
             Netlify Async Workloads Queue Demo
           </h1>
           <p className="text-zinc-600 dark:text-zinc-400">
-            FIFO queue with <strong>rate limiting</strong> (250 requests/min) - OpenAI-style. Tasks can take any duration; rate limit controls when they START, not how many run simultaneously.
+            FIFO queue with configurable <strong>rate limiting</strong> - a sliding window (250 starts/min by default, OpenAI-style), plus an optional token bucket and concurrency cap. Tasks can take any duration; the window and bucket control when they START.
           </p>
           <p className="text-sm text-zinc-500 dark:text-zinc-500 mt-2">
-            Rate limit: Max 250 tasks can <strong>START processing</strong> per minute. Unlimited tasks can be queued. If 300 requests come in, first 250 start immediately, next 50 wait until the minute window resets.
+            Unlimited tasks can be queued. With the default limit, if 300 requests come in, the first 250 start immediately and the next 50 wait until the minute window resets.
           </p>
         </div>
 
         {/* Controls */}
         <div className="bg-white dark:bg-zinc-800 rounded-lg shadow-lg p-6 mb-6">
           <div className="flex flex-wrap gap-4 items-center">
+            <select
+              value={queueName}
+              onChange={(e) => selectQueue(e.target.value)}
+              className="px-3 py-2 rounded-lg border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-700 text-zinc-900 dark:text-zinc-50 font-mono"
+            >
+              {queueNames.map((name) => {
+                const listing = queues.find((queue) => queue.name === name);
+                return (
+                  <option key={name} value={name}>
+                    {name}
+                    {listing ? ` (${listing.stats.queuedCount} queued)` : ' (new)'}
+                  </option>
+                );
+              })}
+              <option value="+new">+ New queue…</option>
+            </select>
+            {status?.control?.paused && (
+              <span className="text-xs font-semibold px-2 py-1 rounded bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300">
+                Paused
+              </span>
+            )}
+            {status?.control?.draining && (
+              <span className="text-xs font-semibold px-2 py-1 rounded bg-orange-100 text-orange-700 dark:bg-orange-900/40 dark:text-orange-300">
+                Draining
+              </span>
+            )}
+            <select
+              value={priority}
+              onChange={(e) => setPriority(e.target.value as TaskPriority)}
+              className="px-3 py-2 rounded-lg border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-700 text-zinc-900 dark:text-zinc-50"
+            >
+              {PRIORITIES.map((p) => (
+                <option key={p} value={p}>
+                  {p} priority
+                </option>
+              ))}
+            </select>
+            <input
+              value={tenant}
+              onChange={(e) => setTenant(e.target.value.trim())}
+              placeholder="tenant"
+              title="Tenant (X-Tenant-Id) - tasks from different tenants take turns"
+              className="w-28 px-3 py-2 rounded-lg border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-700 text-zinc-900 dark:text-zinc-50 font-mono"
+            />
+            <button
+              onClick={() => queueMultiple(1)}
+              disabled={queueing}
+              className="px-6 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Queue 1 Task
+            </button>
             <button
               onClick={() => queueMultiple(300)}
               disabled={queueing}
@@ -170,12 +530,34 @@ export default function Home() {
             >
               {queueing ? 'Queueing...' : 'Queue 300 Tasks'}
             </button>
+            <button
+              onClick={() => queueMultiple(10, 60)}
+              disabled={queueing}
+              className="px-6 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Schedule 10 (in 1 min)
+            </button>
             <button
               onClick={clearQueue}
               className="px-6 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
             >
               Clear Queue
             </button>
+            <button
+              onClick={() => controlQueue(status?.control?.paused ? 'resume' : 'pause')}
+              disabled={!status}
+              className="px-6 py-2 bg-amber-500 text-white rounded-lg hover:bg-amber-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {status?.control?.paused ? 'Resume' : 'Pause'}
+            </button>
+            <button
+              onClick={() => controlQueue(status?.control?.draining ? 'undrain' : 'drain')}
+              disabled={!status}
+              title="A draining queue refuses new tasks but finishes the ones it has"
+              className="px-6 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {status?.control?.draining ? 'Stop Draining' : 'Drain'}
+            </button>
             <label className="flex items-center gap-2 ml-auto">
               <input
                 type="checkbox"
@@ -184,6 +566,11 @@ export default function Home() {
                 className="w-4 h-4"
               />
               <span className="text-sm text-zinc-600 dark:text-zinc-400">Auto-refresh</span>
+              {autoRefresh && (
+                <span className={`text-xs font-semibold ${live ? 'text-green-600' : 'text-zinc-500'}`}>
+                  {live ? '● Live' : 'Polling'}
+                </span>
+              )}
             </label>
             <button
               onClick={fetchStatus}
@@ -191,6 +578,12 @@ export default function Home() {
             >
               Refresh
             </button>
+            <button
+              onClick={signOut}
+              className="px-4 py-2 bg-zinc-200 dark:bg-zinc-700 text-zinc-900 dark:text-zinc-50 rounded-lg hover:bg-zinc-300 dark:hover:bg-zinc-600 transition-colors"
+            >
+              Sign out
+            </button>
           </div>
         </div>
 
@@ -200,6 +593,31 @@ export default function Home() {
             <div className="bg-white dark:bg-zinc-800 rounded-lg shadow-lg p-6">
               <div className="text-sm text-zinc-600 dark:text-zinc-400 mb-1">Queued</div>
               <div className="text-3xl font-bold text-yellow-600">{status.stats.queuedCount}</div>
+              <div className="text-xs text-zinc-500 dark:text-zinc-500 mt-1">
+                {PRIORITIES.map((p) => `${status.stats.lanes[p]} ${p}`).join(' · ')}
+              </div>
+              {status.stats.retryingCount > 0 && (
+                <div className="text-xs text-zinc-500 dark:text-zinc-500 mt-1">
+                  +{status.stats.retryingCount} waiting to retry
+                </div>
+              )}
+              {status.stats.scheduledCount > 0 && (
+                <div className="text-xs text-zinc-500 dark:text-zinc-500 mt-1">
+                  +{status.stats.scheduledCount} scheduled
+                </div>
+              )}
+              {status.stats.blockedCount > 0 && (
+                <div className="text-xs text-zinc-500 dark:text-zinc-500 mt-1">
+                  +{status.stats.blockedCount} waiting on dependencies
+                </div>
+              )}
+              {Object.keys(status.stats.tenants ?? {}).length > 1 && (
+                <div className="text-xs text-zinc-500 dark:text-zinc-500 mt-1">
+                  {Object.entries(status.stats.tenants)
+                    .map(([name, count]) => `${name}: ${count}`)
+                    .join(' · ')}
+                </div>
+              )}
             </div>
             <div className="bg-white dark:bg-zinc-800 rounded-lg shadow-lg p-6">
               <div className="text-sm text-zinc-600 dark:text-zinc-400 mb-1">Processing</div>
@@ -218,14 +636,16 @@ export default function Home() {
             </div>
             {status.rateLimit && (
               <div className="bg-white dark:bg-zinc-800 rounded-lg shadow-lg p-6">
-                <div className="text-sm text-zinc-600 dark:text-zinc-400 mb-1">Rate Limit (per min)</div>
+                <div className="text-sm text-zinc-600 dark:text-zinc-400 mb-1">Can Start Now</div>
                 <div className="text-3xl font-bold text-purple-600">
-                  {status.rateLimit.used} / {status.rateLimit.limit}
+                  {status.rateLimit.remaining ?? '∞'}
                 </div>
-                <div className="text-xs text-zinc-500 dark:text-zinc-500 mt-1">
-                  {status.rateLimit.remaining} remaining
-                </div>
-                {status.rateLimit.resetAt && status.rateLimit.used >= status.rateLimit.limit && (
+                {status.rateLimit.policies.map((policy) => (
+                  <div key={policy.type} className="text-xs text-zinc-500 dark:text-zinc-500 mt-1">
+                    {describePolicy(policy)}
+                  </div>
+                ))}
+                {status.rateLimit.resetAt && status.rateLimit.remaining === 0 && (
                   <div className="text-xs text-orange-500 dark:text-orange-400 mt-1">
                     Resets in {Math.max(0, Math.ceil((status.rateLimit.resetAt - Date.now()) / 1000))}s
                   </div>
@@ -237,11 +657,46 @@ export default function Home() {
 
         {/* Queue Status */}
         {status && (
-          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-6">
+            {/* Scheduled Tasks */}
+            <div className="bg-white dark:bg-zinc-800 rounded-lg shadow-lg p-6">
+              <h2 className="text-xl font-semibold text-zinc-900 dark:text-zinc-50 mb-4">
+                Scheduled ({status.stats.scheduledCount})
+              </h2>
+              <div className="space-y-2 max-h-96 overflow-y-auto">
+                {status.scheduled.length === 0 ? (
+                  <p className="text-zinc-500 dark:text-zinc-400 text-sm">No tasks scheduled</p>
+                ) : (
+                  status.scheduled.map((task) => (
+                    <div
+                      key={task.id}
+                      onClick={(e) => showTimeline(e, task.id)}
+                      className="cursor-pointer p-3 bg-indigo-50 dark:bg-indigo-900/20 rounded border border-indigo-200 dark:border-indigo-800"
+                    >
+                      <div className="text-xs font-mono text-zinc-600 dark:text-zinc-400 mb-1">
+                        {task.id}
+                      </div>
+                      <div className="text-xs text-zinc-500 dark:text-zinc-500">
+                        Runs at: {task.runAt ? formatTime(task.runAt) : 'N/A'}
+                      </div>
+                      <div className="flex gap-1 mt-2">
+                        <button onClick={() => taskAction(task.id, 'requeue')} className={TASK_BUTTON}>
+                          Run now
+                        </button>
+                        <button onClick={() => taskAction(task.id, 'cancel')} className={TASK_BUTTON}>
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+
             {/* Queued Tasks */}
             <div className="bg-white dark:bg-zinc-800 rounded-lg shadow-lg p-6">
               <h2 className="text-xl font-semibold text-zinc-900 dark:text-zinc-50 mb-4">
-                Queued ({status.queued.length})
+                Queued ({status.stats.queuedCount})
               </h2>
               <div className="space-y-2 max-h-96 overflow-y-auto">
                 {status.queued.length === 0 ? (
@@ -250,14 +705,40 @@ export default function Home() {
                   status.queued.map((task) => (
                     <div
                       key={task.id}
-                      className="p-3 bg-yellow-50 dark:bg-yellow-900/20 rounded border border-yellow-200 dark:border-yellow-800"
+                      onClick={(e) => showTimeline(e, task.id)}
+                      className="cursor-pointer p-3 bg-yellow-50 dark:bg-yellow-900/20 rounded border border-yellow-200 dark:border-yellow-800"
                     >
-                      <div className="text-xs font-mono text-zinc-600 dark:text-zinc-400 mb-1">
-                        {task.id}
+                      <div className="flex items-center gap-2 mb-1">
+                        <span className={`text-xs px-1.5 rounded ${PRIORITY_BADGES[task.priority ?? 'normal']}`}>
+                          {task.priority ?? 'normal'}
+                        </span>
+                        {task.tenant && task.tenant !== 'default' && (
+                          <span className="text-xs px-1.5 rounded bg-violet-100 text-violet-700 dark:bg-violet-900/40 dark:text-violet-300">
+                            {task.tenant}
+                          </span>
+                        )}
+                        <span className="text-xs font-mono text-zinc-600 dark:text-zinc-400">{task.id}</span>
                       </div>
                       <div className="text-xs text-zinc-500 dark:text-zinc-500">
                         Created: {formatTime(task.createdAt)}
                       </div>
+                      <div className="flex gap-1 mt-2">
+                        <button
+                          onClick={() => taskAction(task.id, 'move', { to: 'front' })}
+                          className={TASK_BUTTON}
+                        >
+                          Top
+                        </button>
+                        <button
+                          onClick={() => taskAction(task.id, 'move', { to: 'back' })}
+                          className={TASK_BUTTON}
+                        >
+                          Bottom
+                        </button>
+                        <button onClick={() => taskAction(task.id, 'cancel')} className={TASK_BUTTON}>
+                          Cancel
+                        </button>
+                      </div>
                     </div>
                   ))
                 )}
@@ -276,7 +757,8 @@ export default function Home() {
                   status.processing.map((task) => (
                     <div
                       key={task.id}
-                      className="p-3 bg-blue-50 dark:bg-blue-900/20 rounded border border-blue-200 dark:border-blue-800"
+                      onClick={(e) => showTimeline(e, task.id)}
+                      className="cursor-pointer p-3 bg-blue-50 dark:bg-blue-900/20 rounded border border-blue-200 dark:border-blue-800"
                     >
                       <div className="text-xs font-mono text-zinc-600 dark:text-zinc-400 mb-1">
                         {task.id}
@@ -287,6 +769,15 @@ export default function Home() {
                       <div className="text-xs font-semibold text-blue-600 dark:text-blue-400">
                         Duration: {task.startedAt ? `${getDuration(task.startedAt)}s` : '0s'} / ~30s
                       </div>
+                      <div className="flex gap-1 mt-2">
+                        <button
+                          onClick={() => taskAction(task.id, 'cancel')}
+                          disabled={!!task.cancelRequestedAt}
+                          className={`${TASK_BUTTON} disabled:opacity-50 disabled:cursor-not-allowed`}
+                        >
+                          {task.cancelRequestedAt ? 'Cancelling…' : 'Cancel'}
+                        </button>
+                      </div>
                     </div>
                   ))
                 )}
@@ -296,7 +787,7 @@ export default function Home() {
             {/* Completed Tasks */}
             <div className="bg-white dark:bg-zinc-800 rounded-lg shadow-lg p-6">
               <h2 className="text-xl font-semibold text-zinc-900 dark:text-zinc-50 mb-4">
-                Completed ({status.completed.length})
+                Completed ({status.stats.completedCount})
               </h2>
               <div className="space-y-2 max-h-96 overflow-y-auto">
                 {status.completed.length === 0 ? (
@@ -305,7 +796,8 @@ export default function Home() {
                   status.completed.slice().reverse().map((task) => (
                     <div
                       key={task.id}
-                      className="p-3 bg-green-50 dark:bg-green-900/20 rounded border border-green-200 dark:border-green-800"
+                      onClick={(e) => showTimeline(e, task.id)}
+                      className="cursor-pointer p-3 bg-green-50 dark:bg-green-900/20 rounded border border-green-200 dark:border-green-800"
                     >
                       <div className="text-xs font-mono text-zinc-600 dark:text-zinc-400 mb-1">
                         {task.id}
@@ -318,6 +810,11 @@ export default function Home() {
                           Duration: {getDuration(task.startedAt, task.completedAt)}s
                         </div>
                       )}
+                      <div className="flex gap-1 mt-2">
+                        <button onClick={() => taskAction(task.id, 'requeue')} className={TASK_BUTTON}>
+                          Requeue
+                        </button>
+                      </div>
                     </div>
                   ))
                 )}
@@ -326,6 +823,179 @@ export default function Home() {
           </div>
         )}
 
+        {/* Blocked on dependencies */}
+        {status && status.stats.blockedCount > 0 && (
+          <div className="bg-white dark:bg-zinc-800 rounded-lg shadow-lg p-6 mt-6">
+            <h2 className="text-xl font-semibold text-zinc-900 dark:text-zinc-50 mb-4">
+              Blocked ({status.stats.blockedCount})
+            </h2>
+            <div className="space-y-2 max-h-96 overflow-y-auto">
+              {(status.blocked ?? []).map((task) => (
+                <div
+                  key={task.id}
+                  onClick={(e) => showTimeline(e, task.id)}
+                  className="cursor-pointer p-3 bg-purple-50 dark:bg-purple-900/20 rounded border border-purple-200 dark:border-purple-800 flex items-start gap-4"
+                >
+                  <div className="flex-1">
+                    <div className="text-xs font-mono text-zinc-600 dark:text-zinc-400 mb-1">
+                      {task.id}
+                    </div>
+                    <div className="text-xs text-zinc-500 dark:text-zinc-500">
+                      Waiting on {task.waitingOn?.length ?? 0} of {task.dependsOn?.length ?? 0}:
+                    </div>
+                    {task.waitingOn?.map((id) => (
+                      <div key={id} className="text-xs font-mono text-purple-700 dark:text-purple-300">
+                        {id}
+                      </div>
+                    ))}
+                    {task.workflowId && (
+                      <div className="text-xs text-zinc-500 dark:text-zinc-500 mt-1">
+                        Workflow: <span className="font-mono">{task.workflowId}</span>
+                      </div>
+                    )}
+                  </div>
+                  <button onClick={() => taskAction(task.id, 'cancel')} className={TASK_BUTTON}>
+                    Cancel
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Dead Letter Queue */}
+        {status && status.stats.deadLetterCount > 0 && (
+          <div className="bg-white dark:bg-zinc-800 rounded-lg shadow-lg p-6 mt-6">
+            <div className="flex flex-wrap items-center gap-4 mb-4">
+              <h2 className="text-xl font-semibold text-zinc-900 dark:text-zinc-50">
+                Dead Letter ({status.stats.deadLetterCount})
+              </h2>
+              <button
+                onClick={() => manageDeadLetter('retry')}
+                className="ml-auto px-4 py-1 bg-yellow-500 text-white rounded-lg hover:bg-yellow-600 transition-colors text-sm"
+              >
+                Retry All
+              </button>
+              <button
+                onClick={() => manageDeadLetter('purge')}
+                className="px-4 py-1 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors text-sm"
+              >
+                Purge All
+              </button>
+            </div>
+            <div className="space-y-2 max-h-96 overflow-y-auto">
+              {status.deadLetter.slice().reverse().map((task) => (
+                <div
+                  key={task.id}
+                  onClick={(e) => showTimeline(e, task.id)}
+                  className="cursor-pointer p-3 bg-red-50 dark:bg-red-900/20 rounded border border-red-200 dark:border-red-800 flex items-start gap-4"
+                >
+                  <div className="flex-1">
+                    <div className="text-xs font-mono text-zinc-600 dark:text-zinc-400 mb-1">
+                      {task.id}
+                    </div>
+                    <div className="text-xs text-zinc-500 dark:text-zinc-500 mb-1">
+                      Failed: {task.failedAt ? formatTime(task.failedAt) : 'N/A'} after {task.attempts} attempt(s)
+                    </div>
+                    {task.error && (
+                      <div className="text-xs font-semibold text-red-600 dark:text-red-400">
+                        {task.error}
+                      </div>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => manageDeadLetter('retry', [task.id])}
+                    className="px-3 py-1 bg-zinc-200 dark:bg-zinc-700 text-zinc-900 dark:text-zinc-50 rounded hover:bg-zinc-300 dark:hover:bg-zinc-600 transition-colors text-xs"
+                  >
+                    Retry
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Cancelled */}
+        {status && status.stats.cancelledCount > 0 && (
+          <div className="bg-white dark:bg-zinc-800 rounded-lg shadow-lg p-6 mt-6">
+            <h2 className="text-xl font-semibold text-zinc-900 dark:text-zinc-50 mb-4">
+              Cancelled ({status.stats.cancelledCount})
+            </h2>
+            <div className="space-y-2 max-h-96 overflow-y-auto">
+              {(status.cancelled ?? []).slice().reverse().map((task) => (
+                <div
+                  key={task.id}
+                  onClick={(e) => showTimeline(e, task.id)}
+                  className="cursor-pointer p-3 bg-zinc-50 dark:bg-zinc-900/40 rounded border border-zinc-200 dark:border-zinc-700 flex items-start gap-4"
+                >
+                  <div className="flex-1">
+                    <div className="text-xs font-mono text-zinc-600 dark:text-zinc-400 mb-1">
+                      {task.id}
+                    </div>
+                    <div className="text-xs text-zinc-500 dark:text-zinc-500">
+                      Cancelled: {task.cancelledAt ? formatTime(task.cancelledAt) : 'N/A'} after {task.attempts} attempt(s)
+                    </div>
+                  </div>
+                  <button onClick={() => taskAction(task.id, 'requeue')} className={TASK_BUTTON}>
+                    Requeue
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Task Timeline */}
+        {timeline && (
+          <div
+            onClick={() => setTimeline(null)}
+            className="fixed inset-0 z-10 bg-black/40 flex items-center justify-center p-4"
+          >
+            <div
+              onClick={(e) => e.stopPropagation()}
+              className="bg-white dark:bg-zinc-800 rounded-lg shadow-lg p-6 w-full max-w-lg max-h-[80vh] overflow-y-auto"
+            >
+              <div className="flex items-center gap-4 mb-4">
+                <h2 className="text-xl font-semibold text-zinc-900 dark:text-zinc-50">Timeline</h2>
+                <span className="text-xs font-mono text-zinc-600 dark:text-zinc-400">{timeline.taskId}</span>
+                <button onClick={() => setTimeline(null)} className={`${TASK_BUTTON} ml-auto`}>
+                  Close
+                </button>
+              </div>
+              {timeline.error && <p className="text-sm text-red-600 dark:text-red-400">{timeline.error}</p>}
+              {timeline.events === null ? (
+                <p className="text-zinc-500 dark:text-zinc-400 text-sm">Loading events...</p>
+              ) : timeline.events.length === 0 && !timeline.error ? (
+                <p className="text-zinc-500 dark:text-zinc-400 text-sm">No events recorded</p>
+              ) : (
+                <ol className="border-l-2 border-zinc-200 dark:border-zinc-700 ml-1.5 space-y-3">
+                  {timeline.events.map((event, index) => (
+                    <li key={index} className="relative pl-4">
+                      <span
+                        className={`absolute -left-[5px] top-1.5 w-2 h-2 rounded-full ${TIMELINE_DOTS[event.type] ?? 'bg-zinc-400'}`}
+                      />
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-semibold text-zinc-900 dark:text-zinc-50">{event.type}</span>
+                        {event.attempt !== undefined && (
+                          <span className="text-xs text-zinc-500 dark:text-zinc-400">attempt {event.attempt}</span>
+                        )}
+                        <span className="text-xs text-zinc-500 dark:text-zinc-400 ml-auto">{formatTime(event.at)}</span>
+                      </div>
+                      {event.workerId && (
+                        <div className="text-xs font-mono text-zinc-500 dark:text-zinc-400">{event.workerId}</div>
+                      )}
+                      {event.reason && <div className="text-xs text-zinc-600 dark:text-zinc-300">{event.reason}</div>}
+                      {event.retryAt && (
+                        <div className="text-xs text-zinc-500 dark:text-zinc-400">{event.type === 'failed' ? 'Retries at' : 'Until'} {formatTime(event.retryAt)}</div>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          </div>
+        )}
+
         {loading && !status && (
           <div className="text-center py-12">
             <div className="text-zinc-600 dark:text-zinc-400">Loading queue status...</div>
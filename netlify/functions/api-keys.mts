@@ -0,0 +1,103 @@
+import type { Config, Context } from "@netlify/functions";
+import {
+  createApiKey,
+  isRole,
+  listApiKeys,
+  requireRole,
+  revokeApiKey,
+} from "./lib/auth.mts";
+import { DEFAULT_TENANT, isTenantId } from "./lib/tenants.mts";
+
+// Admin only:
+// GET    /api/api-keys                                -> every key (never the secrets)
+// POST   /api/api-keys { name, role, tenant? }        -> new key; `key` in the response
+//                                                        is the only copy of it
+// DELETE /api/api-keys/:id                            -> revoke
+// Submitter keys are always bound to a tenant ("default" if none is given);
+// operator and admin keys only if `tenant` is set.
+export default async (req: Request, context: Context) => {
+  const auth = await requireRole(req, "admin");
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    if (req.method === "GET") {
+      const keys = await listApiKeys();
+      return new Response(JSON.stringify({ keys }), {
+        status: 200,
+        headers: {
+          "Content-Type": "application/json",
+          "Cache-Control": "no-cache",
+        },
+      });
+    }
+
+    if (req.method === "DELETE") {
+      const id = context.params.id;
+      if (!id || !(await revokeApiKey(id))) {
+        return new Response(
+          JSON.stringify({ success: false, error: `API key ${id ?? ""} not found` }),
+          {
+            status: 404,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+      console.log(`API key ${id} revoked by ${auth.name}`);
+      return new Response(JSON.stringify({ success: true, id }), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    if (req.method !== "POST") {
+      return new Response("Method not allowed", { status: 405 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    let error: string | null = null;
+    if (typeof body.name !== "string" || !body.name.trim() || body.name.length > 100) {
+      error = "name must be a non-empty string (up to 100 characters)";
+    } else if (!isRole(body.role)) {
+      error = "role must be submitter, operator or admin";
+    } else if (body.tenant != null && !isTenantId(body.tenant)) {
+      error =
+        "tenant must be 1-64 letters, digits, '.', '_' or '-', starting with a letter or digit";
+    }
+    if (error) {
+      return new Response(JSON.stringify({ success: false, error }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { apiKey, key } = await createApiKey({
+      name: body.name.trim(),
+      role: body.role,
+      tenant: body.tenant ?? (body.role === "submitter" ? DEFAULT_TENANT : null),
+    });
+    console.log(`API key ${apiKey.id} (${apiKey.role}) created by ${auth.name}`);
+
+    return new Response(JSON.stringify({ success: true, apiKey, key }), {
+      status: 201,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Error handling API key request:", error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+};
+
+export const config: Config = {
+  path: ["/api/api-keys", "/api/api-keys/:id"],
+};
@@ -0,0 +1,84 @@
+import type { Config } from "@netlify/functions";
+import {
+  invalidQueueNameResponse,
+  queueNameFrom,
+} from "./lib/queues.mts";
+import { requireRole } from "./lib/auth.mts";
+import {
+  archiveDate,
+  archiveDates,
+  parseArchiveDate,
+  readArchive,
+} from "./lib/archive.mts";
+
+const MAX_ARCHIVE_DAYS = 31;
+
+// GET /api/archive?from=YYYY-MM-DD&to=YYYY-MM-DD -> NDJSON of the tasks the
+// cleanup function archived, by the (UTC) day they finished. `to` defaults to
+// `from`. Up to 31 days per request; `?queue=<name>` for a named queue.
+export default async (req: Request) => {
+  if (req.method !== "GET") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  const auth = await requireRole(req, "operator");
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  const queueName = queueNameFrom(req);
+  if (!queueName) {
+    return invalidQueueNameResponse();
+  }
+
+  const params = new URL(req.url).searchParams;
+  const from = parseArchiveDate(params.get("from"));
+  const to = params.has("to") ? parseArchiveDate(params.get("to")) : from;
+  let error: string | null = null;
+  if (from === null || to === null) {
+    error = "from (and to, if given) must be dates in YYYY-MM-DD form";
+  } else if (to < from) {
+    error = "to must not be before from";
+  } else if (archiveDates(from, to).length > MAX_ARCHIVE_DAYS) {
+    error = `At most ${MAX_ARCHIVE_DAYS} days per request`;
+  }
+  if (error || from === null || to === null) {
+    return new Response(JSON.stringify({ success: false, error }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const chunks = readArchive(queueName, archiveDates(from, to));
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(encoder.encode(value));
+        }
+      } catch (error) {
+        console.error("Error reading archive:", error);
+        controller.error(error);
+      }
+    },
+  });
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      "Content-Type": "application/x-ndjson",
+      "Content-Disposition": `attachment; filename="${queueName}-${archiveDate(
+        from
+      )}-to-${archiveDate(to)}.ndjson"`,
+      "Cache-Control": "no-cache",
+    },
+  });
+};
+
+export const config: Config = {
+  path: "/api/archive",
+};
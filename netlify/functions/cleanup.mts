@@ -0,0 +1,46 @@
+import type { Config } from "@netlify/functions";
+import { listQueues, openQueue } from "./lib/queues.mts";
+import { archiveTasks } from "./lib/archive.mts";
+
+// Scheduled (hourly): enforces retention. Completed and cancelled tasks past
+// RETENTION_MAX_AGE_MS, or beyond the newest RETENTION_MAX_COUNT, are archived
+// to the `queue-archive` store (daily NDJSON chunks, see archive.mts - download
+// them from /api/archive) and deleted; dead-lettered ones likewise, by
+// RETENTION_DEAD_LETTER_MAX_AGE_MS / RETENTION_DEAD_LETTER_MAX_COUNT. Expired
+// idempotency records go too, as do workflow records once none of their tasks
+// are left.
+async function cleanupQueue(queueName: string): Promise<void> {
+  const queue = openQueue(queueName);
+
+  const pruned = await queue.pruneFinished(async (tasks) => {
+    await archiveTasks(queueName, tasks);
+  });
+  if (pruned.length > 0) {
+    console.log(`Archived and deleted ${pruned.length} finished task(s) from ${queueName}`);
+  }
+
+  const records = await queue.pruneIdempotencyRecords();
+  if (records > 0) {
+    console.log(`Deleted ${records} expired idempotency record(s) from ${queueName}`);
+  }
+
+  const workflows = await queue.pruneWorkflows();
+  if (workflows > 0) {
+    console.log(`Deleted ${workflows} finished workflow record(s) from ${queueName}`);
+  }
+}
+
+export default async () => {
+  for (const queueName of await listQueues()) {
+    try {
+      await cleanupQueue(queueName);
+    } catch (error) {
+      // One broken queue shouldn't stop the others being cleaned up
+      console.error(`Failed to clean up queue ${queueName}:`, error);
+    }
+  }
+};
+
+export const config: Config = {
+  schedule: "@hourly",
+};
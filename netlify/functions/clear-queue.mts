@@ -1,23 +1,29 @@
-import type { Config } from "@netlify/functions";
-import { getStore } from "@netlify/blobs";
+import type { Config, Context } from "@netlify/functions";
+import {
+  invalidQueueNameResponse,
+  openQueue,
+  queueNameFrom,
+} from "./lib/queues.mts";
+import { requireRole } from "./lib/auth.mts";
 
-export default async (req: Request) => {
+// POST /api/clear-queue (or /api/clear-queue/:queue, or ?queue=)
+export default async (req: Request, context: Context) => {
   if (req.method !== "POST") {
     return new Response("Method not allowed", { status: 405 });
   }
 
+  const auth = await requireRole(req, "admin");
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  const queueName = queueNameFrom(req, context);
+  if (!queueName) {
+    return invalidQueueNameResponse();
+  }
+
   try {
-    const store = getStore("queue-state");
-    await store.set(
-      "state",
-      JSON.stringify({
-        queue: [],
-        processing: [],
-        completed: [],
-        tasks: {},
-        rateLimitHistory: [],
-      })
-    );
+    await openQueue(queueName).clear();
 
     return new Response(JSON.stringify({ success: true }), {
       status: 200,
@@ -39,5 +45,5 @@ export default async (req: Request) => {
 };
 
 export const config: Config = {
-  path: "/api/clear-queue",
+  path: ["/api/clear-queue", "/api/clear-queue/:queue"],
 };
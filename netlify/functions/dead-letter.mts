@@ -0,0 +1,99 @@
+import type { Config } from "@netlify/functions";
+import {
+  invalidQueueNameResponse,
+  openQueue,
+  queueNameFrom,
+  triggerProcessing,
+} from "./lib/queues.mts";
+import { forbiddenResponse, hasRole, requireRole } from "./lib/auth.mts";
+
+// GET  /api/dead-letter                       -> list dead-lettered tasks
+// POST /api/dead-letter { action, taskIds? }  -> "retry" (requeue with fresh attempts)
+//                                                or "purge" (delete, admin only); all tasks if no taskIds
+// Add `?queue=<name>` for a named queue.
+export default async (req: Request) => {
+  const auth = await requireRole(req, "operator");
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  const queueName = queueNameFrom(req);
+  if (!queueName) {
+    return invalidQueueNameResponse();
+  }
+
+  try {
+    const queue = openQueue(queueName);
+
+    if (req.method === "GET") {
+      const tasks = await queue.deadLetter();
+      return new Response(JSON.stringify({ tasks, count: tasks.length }), {
+        status: 200,
+        headers: {
+          "Content-Type": "application/json",
+          "Cache-Control": "no-cache",
+        },
+      });
+    }
+
+    if (req.method !== "POST") {
+      return new Response("Method not allowed", { status: 405 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const taskIds: string[] | undefined = Array.isArray(body.taskIds)
+      ? body.taskIds
+      : undefined;
+
+    let affected: string[];
+    if (body.action === "retry") {
+      affected = await queue.retryDeadLetter(taskIds);
+
+      if (affected.length > 0) {
+        try {
+          await triggerProcessing(queueName);
+        } catch (error) {
+          console.error("Failed to trigger async workload:", error);
+          // The tasks are still queued and will be processed when available
+        }
+      }
+    } else if (body.action === "purge") {
+      if (!hasRole(auth, "admin")) {
+        return forbiddenResponse(auth, "admin");
+      }
+      affected = await queue.purgeDeadLetter(taskIds);
+    } else {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'action must be "retry" or "purge"',
+        }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    return new Response(JSON.stringify({ success: true, taskIds: affected }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Error handling dead-letter request:", error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+};
+
+export const config: Config = {
+  path: "/api/dead-letter",
+};
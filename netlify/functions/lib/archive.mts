@@ -0,0 +1,82 @@
+import { openStore, type QueueStorage } from "./storage.mts";
+import type { Task } from "./types.mts";
+
+// Archive of tasks the cleanup function pruned (see retention in queue.mts).
+// Its own `queue-archive` store, one entry per archived batch per day:
+//   <queue>/<YYYY-MM-DD>/<chunk id> -> NDJSON text, one Task per line
+// The day is the UTC day the task finished (completedAt / cancelledAt, or
+// failedAt for a dead-lettered one), so a day's archive is every chunk under
+// its prefix, in chunk ID (time) order.
+
+export const ARCHIVE_STORE = "queue-archive";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 3600000;
+
+export function archiveDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+// Start of the UTC day, or null if `value` isn't a real YYYY-MM-DD date
+export function parseArchiveDate(value: unknown): number | null {
+  if (typeof value !== "string" || !DATE_PATTERN.test(value)) {
+    return null;
+  }
+  const time = Date.parse(`${value}T00:00:00Z`);
+  return Number.isNaN(time) || archiveDate(time) !== value ? null : time;
+}
+
+// Every day from `from` to `to`, inclusive (YYYY-MM-DD)
+export function archiveDates(from: number, to: number): string[] {
+  const dates: string[] = [];
+  for (let day = from; day <= to; day += DAY_MS) {
+    dates.push(archiveDate(day));
+  }
+  return dates;
+}
+
+// Writes the tasks as one new chunk per finish day; returns the chunk keys
+export async function archiveTasks(
+  queue: string,
+  tasks: Task[],
+  storage: QueueStorage = openStore(ARCHIVE_STORE)
+): Promise<string[]> {
+  const byDate = new Map<string, Task[]>();
+  for (const task of tasks) {
+    const date = archiveDate(
+      task.completedAt ?? task.cancelledAt ?? task.failedAt ?? task.createdAt
+    );
+    byDate.set(date, [...(byDate.get(date) ?? []), task]);
+  }
+
+  const chunkId = `${Date.now().toString().padStart(15, "0")}-${Math.random()
+    .toString(36)
+    .substring(2, 9)}`;
+  const keys: string[] = [];
+  for (const [date, dayTasks] of byDate) {
+    const key = `${queue}/${date}/${chunkId}`;
+    const ndjson = dayTasks.map((task) => `${JSON.stringify(task)}\n`).join("");
+    if (!(await storage.set(key, ndjson, { onlyIfNew: true }))) {
+      throw new Error(`Archive chunk ${key} already exists`);
+    }
+    keys.push(key);
+  }
+  return keys;
+}
+
+// The archived NDJSON for each day in the range, chunk by chunk
+export async function* readArchive(
+  queue: string,
+  dates: string[],
+  storage: QueueStorage = openStore(ARCHIVE_STORE)
+): AsyncGenerator<string> {
+  for (const date of dates) {
+    const keys = (await storage.list(`${queue}/${date}/`)).sort();
+    for (const key of keys) {
+      const entry = await storage.get<string>(key);
+      if (entry) {
+        yield entry.value;
+      }
+    }
+  }
+}
@@ -0,0 +1,224 @@
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+import { openStore, type QueueStorage } from "./storage.mts";
+
+// API keys and roles. Every /api/* function calls requireRole() first; a request
+// authenticates with any of
+//   Authorization: Bearer <key>
+//   X-API-Key: <key>
+//   the queue_session cookie (set by POST /api/auth/login - how the dashboard signs in)
+// Roles, each allowed everything the ones before it are:
+//   submitter -> enqueue, and read its own tenant's tasks
+//   operator  -> queue status and events, cancel/requeue/move, pause/drain, dead-letter retry
+//   admin     -> clear queues, purge, change settings, manage keys
+//
+// Keys live in their own `queue-auth` store (so clearing a queue can't touch them):
+//   keys/<id> -> StoredApiKey
+// A key is `qk_<id>_<secret>`; only a SHA-256 of the secret is kept, and the key
+// itself is shown once, when it's created. A key can be bound to a tenant - its
+// requests then always count as that tenant, whatever X-Tenant-Id says.
+// QUEUE_ADMIN_KEY (environment) is an admin key that isn't stored anywhere,
+// for bootstrapping the first keys through /api/api-keys.
+
+export type Role = "submitter" | "operator" | "admin";
+
+export const ROLES: readonly Role[] = ["submitter", "operator", "admin"];
+
+export const AUTH_STORE = "queue-auth";
+export const SESSION_COOKIE = "queue_session";
+const SESSION_MAX_AGE = 12 * 3600; // Seconds
+
+const KEY_PREFIX = "keys/";
+const KEY_PATTERN = /^qk_([a-f0-9]{16})_([A-Za-z0-9_-]{32,})$/;
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  role: Role;
+  tenant: string | null; // Requests with the key are always this tenant's
+  createdAt: number;
+}
+
+interface StoredApiKey extends ApiKey {
+  secretHash: string;
+}
+
+// Who a request is from
+export interface Principal {
+  keyId: string; // "env" for QUEUE_ADMIN_KEY
+  name: string;
+  role: Role;
+  tenant: string | null;
+}
+
+export function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role);
+}
+
+export function hasRole(principal: Principal, role: Role): boolean {
+  return ROLES.indexOf(principal.role) >= ROLES.indexOf(role);
+}
+
+function sha256(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+function sameSecret(a: string, b: string): boolean {
+  return timingSafeEqual(sha256(a), sha256(b));
+}
+
+// The key a request carries: bearer token, then X-API-Key, then the session cookie
+function presentedKey(req: Request): string | null {
+  const authorization = req.headers.get("Authorization");
+  if (authorization?.startsWith("Bearer ")) {
+    return authorization.slice("Bearer ".length).trim();
+  }
+  const header = req.headers.get("X-API-Key");
+  if (header) {
+    return header.trim();
+  }
+  for (const cookie of (req.headers.get("Cookie") ?? "").split(";")) {
+    const [name, ...value] = cookie.trim().split("=");
+    if (name === SESSION_COOKIE) {
+      return decodeURIComponent(value.join("="));
+    }
+  }
+  return null;
+}
+
+// The principal for a key, or null if it isn't a valid one
+export async function verifyApiKey(
+  key: string,
+  storage: QueueStorage = openStore(AUTH_STORE)
+): Promise<Principal | null> {
+  const adminKey = process.env.QUEUE_ADMIN_KEY;
+  if (adminKey && sameSecret(key, adminKey)) {
+    return { keyId: "env", name: "QUEUE_ADMIN_KEY", role: "admin", tenant: null };
+  }
+
+  const match = KEY_PATTERN.exec(key);
+  if (!match) {
+    return null;
+  }
+  const entry = await storage.get<StoredApiKey>(`${KEY_PREFIX}${match[1]}`);
+  if (
+    !entry ||
+    !timingSafeEqual(sha256(match[2]), Buffer.from(entry.value.secretHash, "hex"))
+  ) {
+    return null;
+  }
+  const { id, name, role, tenant } = entry.value;
+  return { keyId: id, name, role, tenant };
+}
+
+export async function authenticate(
+  req: Request,
+  storage?: QueueStorage
+): Promise<Principal | null> {
+  const key = presentedKey(req);
+  return key ? verifyApiKey(key, storage) : null;
+}
+
+// The request's principal if it has at least `role`; otherwise the 401/403
+// response to send back
+export async function requireRole(
+  req: Request,
+  role: Role,
+  storage?: QueueStorage
+): Promise<Principal | Response> {
+  const principal = await authenticate(req, storage);
+  if (!principal) {
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: "Authentication required - send an API key as a Bearer token or X-API-Key",
+      }),
+      {
+        status: 401,
+        headers: {
+          "Content-Type": "application/json",
+          "WWW-Authenticate": 'Bearer realm="queue"',
+        },
+      }
+    );
+  }
+  return hasRole(principal, role) ? principal : forbiddenResponse(principal, role);
+}
+
+export function forbiddenResponse(principal: Principal, role: Role): Response {
+  return new Response(
+    JSON.stringify({
+      success: false,
+      error: `This needs the ${role} role (key "${principal.name}" is ${principal.role})`,
+    }),
+    {
+      status: 403,
+      headers: { "Content-Type": "application/json" },
+    }
+  );
+}
+
+// The tenant a request acts as: a tenant-bound key always wins over X-Tenant-Id
+export function tenantFor(principal: Principal, req: Request): string | null {
+  return principal.tenant ?? req.headers.get("X-Tenant-Id");
+}
+
+export function sessionCookie(key: string | null): string {
+  const attributes = "Path=/api; HttpOnly; Secure; SameSite=Strict";
+  return key
+    ? `${SESSION_COOKIE}=${encodeURIComponent(key)}; ${attributes}; Max-Age=${SESSION_MAX_AGE}`
+    : `${SESSION_COOKIE}=; ${attributes}; Max-Age=0`;
+}
+
+// Creates a key; the returned `key` is the only time the secret is available
+export async function createApiKey(
+  input: { name: string; role: Role; tenant?: string | null },
+  storage: QueueStorage = openStore(AUTH_STORE)
+): Promise<{ apiKey: ApiKey; key: string }> {
+  for (let attempt = 1; attempt <= 3; attempt++) {
+    const id = randomBytes(8).toString("hex");
+    const secret = randomBytes(24).toString("base64url");
+    const apiKey: ApiKey = {
+      id,
+      name: input.name,
+      role: input.role,
+      tenant: input.tenant ?? null,
+      createdAt: Date.now(),
+    };
+    const stored: StoredApiKey = { ...apiKey, secretHash: sha256(secret).toString("hex") };
+    if (await storage.set(`${KEY_PREFIX}${id}`, stored, { onlyIfNew: true })) {
+      return { apiKey, key: `qk_${id}_${secret}` };
+    }
+  }
+  throw new Error("Failed to allocate a unique API key ID");
+}
+
+export async function listApiKeys(
+  storage: QueueStorage = openStore(AUTH_STORE)
+): Promise<ApiKey[]> {
+  const entries = await Promise.all(
+    (await storage.list(KEY_PREFIX)).map((key) => storage.get<StoredApiKey>(key))
+  );
+  return entries
+    .flatMap((entry) => {
+      if (!entry) {
+        return [];
+      }
+      // Everything but the secret hash
+      const { id, name, role, tenant, createdAt } = entry.value;
+      return [{ id, name, role, tenant, createdAt }];
+    })
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+// False if there was no such key
+export async function revokeApiKey(
+  id: string,
+  storage: QueueStorage = openStore(AUTH_STORE)
+): Promise<boolean> {
+  const key = `${KEY_PREFIX}${id}`;
+  if (!(await storage.get(key))) {
+    return false;
+  }
+  await storage.delete(key);
+  return true;
+}
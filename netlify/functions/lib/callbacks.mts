@@ -0,0 +1,157 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { checkOutboundUrl } from "./outbound.mts";
+import { envNumber, type Queue } from "./queue.mts";
+import type { CallbackDelivery, CallbackEventType, Task } from "./types.mts";
+
+// Completion callbacks: when a task with a `callbackUrl` completes, is cancelled or is
+// dead-lettered, we POST the outcome there. With a secret, the body is signed:
+//   X-Queue-Timestamp: <ms since epoch>
+//   X-Queue-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<body>">
+// Failed deliveries are retried with exponential backoff, and every attempt is
+// recorded in `task.callbackDeliveries`. URLs on loopback or private networks
+// are refused, at enqueue and before each attempt (see outbound.mts).
+
+// Overridable via CALLBACK_MAX_ATTEMPTS / CALLBACK_RETRY_BASE_MS
+export const DEFAULT_CALLBACK_MAX_ATTEMPTS = 5;
+export const DEFAULT_CALLBACK_RETRY_BASE_MS = 10000; // Doubled after each failed attempt
+const MAX_CALLBACK_RETRY_DELAY_MS = 10 * 60000;
+const CALLBACK_TIMEOUT_MS = 10000;
+
+export interface CallbackPayload {
+  event: CallbackEventType;
+  task: Pick<
+    Task,
+    | "id"
+    | "type"
+    | "status"
+    | "createdAt"
+    | "startedAt"
+    | "completedAt"
+    | "failedAt"
+    | "cancelledAt"
+    | "attempts"
+    | "result"
+    | "error"
+  >;
+}
+
+const maxAttempts =
+  envNumber("CALLBACK_MAX_ATTEMPTS") ?? DEFAULT_CALLBACK_MAX_ATTEMPTS;
+const retryBaseMs =
+  envNumber("CALLBACK_RETRY_BASE_MS") ?? DEFAULT_CALLBACK_RETRY_BASE_MS;
+
+// The callback a task is due, or null if it has no callback or isn't finished
+export function callbackEvent(task: Task): CallbackEventType | null {
+  if (!task.callbackUrl) {
+    return null;
+  }
+  switch (task.status) {
+    case "completed":
+      return "task.completed";
+    case "failed":
+      return "task.failed";
+    case "cancelled":
+      return "task.cancelled";
+    default:
+      return null;
+  }
+}
+
+export function signCallback(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex")}`;
+}
+
+// For receivers: checks an X-Queue-Signature header against the raw request body
+export function verifyCallback(
+  secret: string,
+  timestamp: string,
+  body: string,
+  signature: string
+): boolean {
+  const expected = Buffer.from(signCallback(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Makes delivery attempt number `attempt` for the task's current outcome and
+// records it. Resolves to when the next attempt is due, or null if there's
+// nothing more to do (delivered, out of attempts, or no callback due).
+export async function deliverCallback(
+  queue: Queue,
+  task: Task,
+  attempt: number
+): Promise<number | null> {
+  const event = callbackEvent(task);
+  if (!event) {
+    return null;
+  }
+
+  const payload: CallbackPayload = {
+    event,
+    task: {
+      id: task.id,
+      type: task.type,
+      status: task.status,
+      createdAt: task.createdAt,
+      startedAt: task.startedAt,
+      completedAt: task.completedAt,
+      failedAt: task.failedAt,
+      cancelledAt: task.cancelledAt,
+      attempts: task.attempts,
+      result: task.result,
+      error: task.error,
+    },
+  };
+  const body = JSON.stringify(payload);
+  const timestamp = Date.now().toString();
+  const secret = await queue.callbackSecret(task.id);
+
+  const delivery: CallbackDelivery = {
+    event,
+    attempt,
+    at: Date.now(),
+    delivered: false,
+  };
+  let refused = false;
+  try {
+    const blocked = await checkOutboundUrl(task.callbackUrl!);
+    if (blocked) {
+      // Not retried - the next attempt would be refused too
+      refused = true;
+      throw new Error(`callbackUrl ${blocked}`);
+    }
+    const response = await fetch(task.callbackUrl!, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Queue-Event": event,
+        "X-Queue-Task-Id": task.id,
+        "X-Queue-Delivery-Attempt": attempt.toString(),
+        "X-Queue-Timestamp": timestamp,
+        ...(secret && { "X-Queue-Signature": signCallback(secret, timestamp, body) }),
+      },
+      body,
+      signal: AbortSignal.timeout(CALLBACK_TIMEOUT_MS),
+      // A redirect could point anywhere, past the check above - it's a failure
+      redirect: "manual",
+    });
+    delivery.statusCode = response.status;
+    delivery.delivered = response.ok;
+    if (!response.ok) {
+      delivery.error = `Callback responded ${response.status} ${response.statusText}`;
+    }
+  } catch (error) {
+    delivery.error = error instanceof Error ? error.message : String(error);
+  }
+
+  if (!delivery.delivered && !refused && attempt < maxAttempts) {
+    delivery.nextAttemptAt =
+      Date.now() +
+      Math.min(retryBaseMs * 2 ** (attempt - 1), MAX_CALLBACK_RETRY_DELAY_MS);
+  }
+
+  await queue.recordCallbackDelivery(task.id, delivery);
+  return delivery.nextAttemptAt ?? null;
+}
@@ -0,0 +1,161 @@
+import { checkOutboundUrl, outboundUrlError } from "./outbound.mts";
+import type { JsonSchema, ValidationError } from "./schema.mts";
+import type { Task } from "./types.mts";
+
+// Task handlers, keyed by the `type` submitted to /api/queue-task.
+// A handler receives the task payload and returns the result stored on the task;
+// throwing fails the attempt (see retries in queue.mts). `signal` aborts when
+// the task is cancelled mid-run; a handler should stop what it's doing then.
+// Each type also says what payload it takes: enqueue requests are checked
+// against its schema, size limit and `validate` (see task-request.mts), and
+// /api/task-types lists the schema and limit.
+
+export interface TaskHandlerContext {
+  task: Task;
+  signal: AbortSignal;
+}
+
+export type TaskHandler = (
+  data: unknown,
+  context: TaskHandlerContext
+) => Promise<unknown>;
+
+export interface TaskTypeOptions {
+  description?: string;
+  schema?: JsonSchema; // For `data`; default any JSON object
+  maxPayloadBytes?: number; // `data` as JSON; default DEFAULT_MAX_PAYLOAD_BYTES
+  // Checks the schema can't express; only sees `data` that passed the schema
+  validate?: (data: unknown) => ValidationError[];
+}
+
+// An entry in GET /api/task-types
+export interface TaskTypeInfo {
+  type: string;
+  description: string | null;
+  schema: JsonSchema;
+  maxPayloadBytes: number;
+}
+
+export const DEFAULT_TASK_TYPE = "simulated";
+export const DEFAULT_MAX_PAYLOAD_BYTES =
+  Number(process.env.MAX_PAYLOAD_BYTES) || 64 * 1024;
+
+const handlers = new Map<
+  string,
+  { handler: TaskHandler; info: TaskTypeInfo; validate?: TaskTypeOptions["validate"] }
+>();
+
+export function registerTaskHandler(
+  type: string,
+  handler: TaskHandler,
+  options: TaskTypeOptions = {}
+): void {
+  handlers.set(type, {
+    handler,
+    info: {
+      type,
+      description: options.description ?? null,
+      schema: options.schema ?? { type: "object" },
+      maxPayloadBytes: options.maxPayloadBytes ?? DEFAULT_MAX_PAYLOAD_BYTES,
+    },
+    validate: options.validate,
+  });
+}
+
+export function getTaskHandler(type: string): TaskHandler | undefined {
+  return handlers.get(type)?.handler;
+}
+
+export function getTaskType(type: string): TaskTypeInfo | undefined {
+  return handlers.get(type)?.info;
+}
+
+export function getTaskValidator(type: string): TaskTypeOptions["validate"] {
+  return handlers.get(type)?.validate;
+}
+
+export function taskTypes(): string[] {
+  return [...handlers.keys()];
+}
+
+export function taskTypeInfos(): TaskTypeInfo[] {
+  return [...handlers.values()].map(({ info }) => info);
+}
+
+// Built-in handlers
+
+const SIMULATED_DURATION = 30000; // 30 seconds (can be longer - that's fine!)
+// Fraction of simulated tasks that throw, for exercising retries and the dead-letter queue
+const SIMULATED_FAILURE_RATE = Number(process.env.SIMULATED_FAILURE_RATE) || 0;
+
+// Stand-in for a slow API call (e.g. image generation)
+registerTaskHandler(
+  DEFAULT_TASK_TYPE,
+  async (_data, { signal }) => {
+    const startedAt = Date.now();
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(resolve, SIMULATED_DURATION);
+      signal.addEventListener("abort", () => {
+        clearTimeout(timer);
+        reject(new Error("Simulated task cancelled"));
+      });
+    });
+    if (Math.random() < SIMULATED_FAILURE_RATE) {
+      throw new Error("Simulated task failure");
+    }
+    return { durationMs: Date.now() - startedAt };
+  },
+  {
+    description: "Waits 30 seconds, standing in for a slow API call",
+    schema: {
+      type: "object",
+      description: "Not used - any fields are stored with the task",
+    },
+  }
+);
+
+// POSTs `data.body` as JSON to `data.url`; non-2xx responses fail the attempt
+registerTaskHandler(
+  "webhook",
+  async (data, { signal }) => {
+    const { url, body } = (data ?? {}) as { url?: unknown; body?: unknown };
+    if (typeof url !== "string") {
+      throw new Error("webhook task requires data.url");
+    }
+    // Enqueue only checked the URL as written - this looks the host up too
+    const blocked = await checkOutboundUrl(url);
+    if (blocked) {
+      throw new Error(`data.url ${blocked}`);
+    }
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body ?? {}),
+      signal,
+      // A redirect could point anywhere, past the check above - it's a failure
+      redirect: "manual",
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook responded ${response.status} ${response.statusText}`);
+    }
+    return { status: response.status };
+  },
+  {
+    description: "POSTs `body` as JSON to `url`; a non-2xx response fails the attempt",
+    schema: {
+      type: "object",
+      required: ["url"],
+      properties: {
+        url: { type: "string", format: "uri", pattern: "^https?://" },
+        body: { description: "Any JSON value; default {}" },
+      },
+      additionalProperties: false,
+    },
+    // No loopback or private hosts - see outbound.mts
+    validate: (data) => {
+      const error = outboundUrlError((data as { url: string }).url);
+      return error ? [{ path: "/data/url", message: error }] : [];
+    },
+  }
+);
@@ -0,0 +1,56 @@
+import { createHash } from "node:crypto";
+
+// Idempotency keys: a client that retries POST /api/queue-task with the same
+// `Idempotency-Key` gets the task its first request created instead of a
+// duplicate. queue.mts keeps one record per key -
+//   idempotency/<tenant>/<sha256 of the key> -> IdempotencyRecord
+// written with `onlyIfNew` before the task itself, so of two racing requests
+// exactly one enqueues (the other waits for that task to appear).
+// The record remembers a fingerprint of the request; the same key with a
+// different payload is a conflict (409) rather than a silent replay.
+// Records expire after IDEMPOTENCY_TTL_MS (default 24h) and are replaced the
+// next time their key is used.
+
+export const DEFAULT_IDEMPOTENCY_TTL_MS = 24 * 3600000;
+
+const KEY_PATTERN = /^[\x21-\x7e]{1,255}$/; // Printable ASCII, no spaces
+
+export interface IdempotencyRecord {
+  taskId: string;
+  fingerprint: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export function isIdempotencyKey(value: unknown): value is string {
+  return typeof value === "string" && KEY_PATTERN.test(value);
+}
+
+// Storage key for the record, scoped to the tenant so keys can't collide
+// across clients. Hashed so any printable key makes a safe path.
+export function idempotencyRecordKey(tenant: string, key: string): string {
+  return `idempotency/${tenant}/${createHash("sha256").update(key).digest("hex")}`;
+}
+
+// JSON with object keys sorted, so equal payloads hash the same however
+// their keys were ordered
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    return `{${Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`
+      )
+      .join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+export function requestFingerprint(request: unknown): string {
+  return createHash("sha256").update(canonicalJson(request)).digest("hex");
+}
@@ -0,0 +1,336 @@
+import type { LimiterPolicyStatus, RateLimitInfo } from "./types.mts";
+
+// Decides when a queued task may START. Three policies, each optional, and a
+// start has to be allowed by every enabled one:
+//   slidingWindow  -> at most `limit` starts in any `windowMs` (OpenAI-style RPM)
+//   tokenBucket    -> bursts of up to `capacity`, refilled at `refillPerSecond`
+//   maxConcurrency -> at most this many tasks processing at once
+//
+// Settings are layered: environment variables, then the `settings/limiter`
+// entry (PUT /api/limiter-settings), then QueueOptions. In each layer a
+// missing policy inherits the one below and `null` switches it off.
+//
+// The functions here are pure - queue.mts keeps the LimiterState in a single
+// entry and applies them inside a compare-and-swap.
+
+export interface SlidingWindowPolicy {
+  limit: number;
+  windowMs: number;
+}
+
+export interface TokenBucketPolicy {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+export interface LimiterSettings {
+  slidingWindow: SlidingWindowPolicy | null;
+  tokenBucket: TokenBucketPolicy | null;
+  maxConcurrency: number | null;
+}
+
+// A concurrency slot, held by the worker running a task. It lapses with the
+// task's lease, so a worker that dies without releasing it doesn't keep it.
+export interface LimiterSlot {
+  holder: string; // Worker ID
+  expiresAt: number; // Kept in step with the task's leaseExpiresAt
+}
+
+export interface LimiterState {
+  starts: number[]; // Start timestamps, for the sliding window
+  bucket: { tokens: number; refilledAt: number } | null;
+  // One slot per running task. Plain worker IDs are slots taken before slots
+  // expired - they stay until released or dropped by the reaper.
+  active: (LimiterSlot | string)[];
+}
+
+export type AcquireResult =
+  | { allowed: true; startedAt: number }
+  | { allowed: false; retryAt: number | null }; // null = when a running task finishes
+
+export const DEFAULT_RATE_LIMIT = 250; // Max tasks that can START per window
+export const DEFAULT_RATE_LIMIT_WINDOW_MS = 60000;
+
+const START_HISTORY_MS = 3600000; // Start timestamps kept, whatever the window
+
+// Unset -> `fallback`; "0" or "off" -> disabled; otherwise a positive number
+function envLimit(name: string, fallback: number | null): number | null {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") {
+    return fallback;
+  }
+  const value = Number(raw);
+  if (raw === "off" || value === 0) {
+    return null;
+  }
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// RATE_LIMIT_REQUESTS / RATE_LIMIT_WINDOW_MS, TOKEN_BUCKET_CAPACITY /
+// TOKEN_BUCKET_REFILL_PER_SECOND, MAX_CONCURRENCY
+export function envLimiterSettings(): LimiterSettings {
+  const limit = envLimit("RATE_LIMIT_REQUESTS", DEFAULT_RATE_LIMIT);
+  const capacity = envLimit("TOKEN_BUCKET_CAPACITY", null);
+  return {
+    slidingWindow: limit
+      ? {
+          limit,
+          windowMs:
+            envLimit("RATE_LIMIT_WINDOW_MS", null) ?? DEFAULT_RATE_LIMIT_WINDOW_MS,
+        }
+      : null,
+    tokenBucket: capacity
+      ? {
+          capacity,
+          // Defaults to refilling the whole bucket once a minute
+          refillPerSecond:
+            envLimit("TOKEN_BUCKET_REFILL_PER_SECOND", null) ?? capacity / 60,
+        }
+      : null,
+    maxConcurrency: envLimit("MAX_CONCURRENCY", null),
+  };
+}
+
+export function resolveLimiterSettings(
+  base: LimiterSettings,
+  ...overrides: (Partial<LimiterSettings> | null | undefined)[]
+): LimiterSettings {
+  const settings = { ...base };
+  for (const override of overrides) {
+    if (!override) {
+      continue;
+    }
+    if (override.slidingWindow !== undefined) {
+      settings.slidingWindow = override.slidingWindow;
+    }
+    if (override.tokenBucket !== undefined) {
+      settings.tokenBucket = override.tokenBucket;
+    }
+    if (override.maxConcurrency !== undefined) {
+      settings.maxConcurrency = override.maxConcurrency;
+    }
+  }
+  return settings;
+}
+
+function isPositive(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+// Error message for a settings override that isn't usable, or null if it's fine
+export function validateLimiterSettings(input: unknown): string | null {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return "Settings must be an object";
+  }
+  const { slidingWindow, tokenBucket, maxConcurrency, ...rest } =
+    input as Record<string, unknown>;
+  const unknownKeys = Object.keys(rest);
+  if (unknownKeys.length > 0) {
+    return `Unknown setting: ${unknownKeys[0]}`;
+  }
+  if (slidingWindow != null) {
+    const { limit, windowMs } = slidingWindow as Record<string, unknown>;
+    if (!isPositive(limit) || !isPositive(windowMs)) {
+      return "slidingWindow needs a positive limit and windowMs";
+    }
+  }
+  if (tokenBucket != null) {
+    const { capacity, refillPerSecond } = tokenBucket as Record<string, unknown>;
+    if (!isPositive(capacity) || !isPositive(refillPerSecond)) {
+      return "tokenBucket needs a positive capacity and refillPerSecond";
+    }
+  }
+  if (maxConcurrency != null && !isPositive(maxConcurrency)) {
+    return "maxConcurrency must be a positive number";
+  }
+  return null;
+}
+
+export function emptyLimiterState(): LimiterState {
+  return { starts: [], bucket: null, active: [] };
+}
+
+function holderOf(slot: LimiterSlot | string): string {
+  return typeof slot === "string" ? slot : slot.holder;
+}
+
+// The slots that haven't lapsed
+function liveSlots(state: LimiterState, now: number): (LimiterSlot | string)[] {
+  return state.active.filter((slot) => typeof slot === "string" || slot.expiresAt > now);
+}
+
+function recentStarts(
+  state: LimiterState,
+  policy: SlidingWindowPolicy,
+  now: number
+): number[] {
+  return state.starts.filter((timestamp) => timestamp > now - policy.windowMs);
+}
+
+function refilledTokens(
+  state: LimiterState,
+  policy: TokenBucketPolicy,
+  now: number
+): number {
+  // A bucket that was just switched on starts full
+  if (!state.bucket) {
+    return policy.capacity;
+  }
+  const elapsed = Math.max(0, now - state.bucket.refilledAt) / 1000;
+  return Math.min(
+    policy.capacity,
+    state.bucket.tokens + elapsed * policy.refillPerSecond
+  );
+}
+
+export function limiterStatus(
+  settings: LimiterSettings,
+  state: LimiterState,
+  now: number
+): RateLimitInfo {
+  const policies: LimiterPolicyStatus[] = [];
+
+  if (settings.slidingWindow) {
+    const { limit, windowMs } = settings.slidingWindow;
+    const starts = recentStarts(state, settings.slidingWindow, now);
+    const remaining = Math.max(0, limit - starts.length);
+    // Blocked until enough of the window's starts age out to free one slot
+    const oldestBlocking = [...starts].sort((a, b) => a - b)[starts.length - limit];
+    policies.push({
+      type: "sliding-window",
+      limit,
+      windowSeconds: windowMs / 1000,
+      used: starts.length,
+      remaining,
+      resetAt: remaining > 0 ? null : oldestBlocking + windowMs,
+    });
+  }
+
+  if (settings.tokenBucket) {
+    const { capacity, refillPerSecond } = settings.tokenBucket;
+    const tokens = refilledTokens(state, settings.tokenBucket, now);
+    const remaining = Math.floor(tokens);
+    policies.push({
+      type: "token-bucket",
+      capacity,
+      refillPerSecond,
+      tokens: Math.round(tokens * 100) / 100,
+      remaining,
+      resetAt:
+        remaining > 0 ? null : now + Math.ceil(((1 - tokens) / refillPerSecond) * 1000),
+    });
+  }
+
+  if (settings.maxConcurrency) {
+    const limit = settings.maxConcurrency;
+    const active = liveSlots(state, now).length;
+    policies.push({
+      type: "max-concurrency",
+      limit,
+      active,
+      remaining: Math.max(0, limit - active),
+      resetAt: null, // Frees up when a running task finishes
+    });
+  }
+
+  const blocked = policies.filter((policy) => policy.remaining === 0);
+  return {
+    remaining:
+      policies.length > 0
+        ? Math.min(...policies.map((policy) => policy.remaining))
+        : null,
+    // Every blocking policy has to free up; unknown if one only frees on completion
+    resetAt:
+      blocked.length === 0 || blocked.some((policy) => policy.resetAt === null)
+        ? null
+        : Math.max(...blocked.map((policy) => policy.resetAt!)),
+    policies,
+  };
+}
+
+// Takes a start from every enabled policy, or none if any of them is exhausted.
+// The concurrency slot is held until `expiresAt` unless extended. Mutates
+// `state` only when the start is allowed.
+export function acquire(
+  settings: LimiterSettings,
+  state: LimiterState,
+  holder: string,
+  now: number,
+  expiresAt: number
+): AcquireResult {
+  const info = limiterStatus(settings, state, now);
+  if (info.remaining === 0) {
+    return { allowed: false, retryAt: info.resetAt };
+  }
+
+  state.starts = state.starts.filter(
+    (timestamp) => timestamp > now - START_HISTORY_MS
+  );
+  state.starts.push(now);
+
+  if (settings.tokenBucket) {
+    state.bucket = {
+      tokens: refilledTokens(state, settings.tokenBucket, now) - 1,
+      refilledAt: now,
+    };
+  }
+
+  state.active = liveSlots(state, now).filter((slot) => holderOf(slot) !== holder);
+  state.active.push({ holder, expiresAt });
+  return { allowed: true, startedAt: now };
+}
+
+// Gives back everything acquire() took, for a start that didn't happen
+export function refund(
+  settings: LimiterSettings,
+  state: LimiterState,
+  holder: string,
+  startedAt: number
+): void {
+  const index = state.starts.indexOf(startedAt);
+  if (index !== -1) {
+    state.starts.splice(index, 1);
+  }
+  if (settings.tokenBucket && state.bucket) {
+    state.bucket.tokens = Math.min(
+      settings.tokenBucket.capacity,
+      state.bucket.tokens + 1
+    );
+  }
+  release(state, holder);
+}
+
+// Frees the holder's concurrency slot once its task is done (or reclaimed).
+// Returns false if it didn't hold one.
+export function release(state: LimiterState, holder: string): boolean {
+  const index = state.active.findIndex((slot) => holderOf(slot) === holder);
+  if (index === -1) {
+    return false;
+  }
+  state.active.splice(index, 1);
+  return true;
+}
+
+// Moves the holder's slot expiry along with its renewed lease. Returns false
+// if it doesn't hold one.
+export function extend(state: LimiterState, holder: string, expiresAt: number): boolean {
+  const index = state.active.findIndex((slot) => holderOf(slot) === holder);
+  if (index === -1) {
+    return false;
+  }
+  state.active[index] = { holder, expiresAt };
+  return true;
+}
+
+// Drops the slots whose holder `keep` rejects, and the lapsed ones. Returns
+// the holders dropped.
+export function releaseUnless(
+  state: LimiterState,
+  keep: (slot: LimiterSlot | string) => boolean,
+  now: number
+): string[] {
+  const live = liveSlots(state, now).filter(keep);
+  const dropped = state.active.filter((slot) => !live.includes(slot)).map(holderOf);
+  state.active = live;
+  return dropped;
+}
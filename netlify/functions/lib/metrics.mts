@@ -0,0 +1,301 @@
+import type { LimiterSettings } from "./limiter.mts";
+import type { QueueSummary, RateLimitInfo } from "./types.mts";
+
+// Rolling metrics. Rather than scanning tasks, queue.mts adds each lifecycle
+// transition to a per-minute aggregate:
+//   metrics/<minute>/<shard> -> MetricsBucket
+// Writers pick a random shard, so busy workers rarely contend on one entry, and
+// readers add the shards back together. Buckets are kept for
+// METRICS_RETENTION_MS (reap-leases prunes older ones).
+// Wait and run times go into fixed log-scale histograms: buckets merge by adding
+// counts, and percentiles are estimated within a histogram bucket.
+//
+// Like limiter.mts, the functions here are pure.
+
+export const METRICS_BUCKET_MS = 60000;
+export const METRICS_RETENTION_MS = 60 * 60000;
+export const METRICS_SHARDS = 4;
+
+// Histogram upper bounds; one more bucket counts everything above the last
+export const LATENCY_BOUNDS_MS = [
+  10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000, 60000, 120000,
+  300000, 600000, 1800000, 3600000,
+];
+
+export type MetricsCounter =
+  | "enqueued"
+  | "started"
+  | "completed"
+  | "failed" // Failed attempts, retried or not
+  | "deadLettered"
+  | "cancelled"
+  | "rateLimited"; // Claims the limiter refused
+
+export const METRICS_COUNTERS: readonly MetricsCounter[] = [
+  "enqueued",
+  "started",
+  "completed",
+  "failed",
+  "deadLettered",
+  "cancelled",
+  "rateLimited",
+];
+
+export interface Histogram {
+  counts: number[]; // Per LATENCY_BOUNDS_MS bucket, plus the overflow bucket
+  sum: number;
+  count: number;
+}
+
+export interface MetricsBucket {
+  minute: number; // Start of the minute (ms since epoch)
+  counts: Record<MetricsCounter, number>;
+  waitMs: Histogram; // Eligible (createdAt or runAt) to first start
+  runMs: Histogram; // startedAt to completedAt
+}
+
+export interface LatencySummary {
+  count: number;
+  sumMs: number;
+  avgMs: number | null;
+  p50Ms: number | null;
+  p95Ms: number | null;
+  p99Ms: number | null;
+}
+
+// Response body of GET /api/metrics
+export interface QueueMetrics {
+  queue: string;
+  windowMinutes: number;
+  from: number;
+  to: number;
+  totals: Record<MetricsCounter, number>; // Over the window
+  perMinute: Record<MetricsCounter, number>; // Average rate over the window
+  waitTime: LatencySummary;
+  runTime: LatencySummary;
+  rateLimit: RateLimitInfo & {
+    capacityPerMinute: number | null; // Starts per minute the limiter allows (null = unlimited)
+    utilization: number | null; // Window average of started / capacity
+    timeline: {
+      minute: number;
+      started: number;
+      rateLimited: number;
+      utilization: number | null;
+    }[];
+  };
+  depth: QueueSummary["stats"];
+}
+
+function emptyHistogram(): Histogram {
+  return { counts: new Array(LATENCY_BOUNDS_MS.length + 1).fill(0), sum: 0, count: 0 };
+}
+
+export function emptyMetricsBucket(minute: number): MetricsBucket {
+  return {
+    minute,
+    counts: Object.fromEntries(METRICS_COUNTERS.map((counter) => [counter, 0])) as Record<
+      MetricsCounter,
+      number
+    >,
+    waitMs: emptyHistogram(),
+    runMs: emptyHistogram(),
+  };
+}
+
+export function observe(histogram: Histogram, ms: number): void {
+  const value = Math.max(0, ms);
+  const index = LATENCY_BOUNDS_MS.findIndex((bound) => value <= bound);
+  histogram.counts[index === -1 ? LATENCY_BOUNDS_MS.length : index] += 1;
+  histogram.sum += value;
+  histogram.count += 1;
+}
+
+function addHistogram(into: Histogram, from: Histogram): void {
+  from.counts.forEach((count, index) => {
+    into.counts[index] = (into.counts[index] ?? 0) + count;
+  });
+  into.sum += from.sum;
+  into.count += from.count;
+}
+
+// One bucket per minute (shards added together), oldest first
+export function mergeMetricsBuckets(buckets: MetricsBucket[]): MetricsBucket[] {
+  const byMinute = new Map<number, MetricsBucket>();
+  for (const bucket of buckets) {
+    const merged = byMinute.get(bucket.minute) ?? emptyMetricsBucket(bucket.minute);
+    for (const counter of METRICS_COUNTERS) {
+      merged.counts[counter] += bucket.counts[counter] ?? 0;
+    }
+    addHistogram(merged.waitMs, bucket.waitMs);
+    addHistogram(merged.runMs, bucket.runMs);
+    byMinute.set(bucket.minute, merged);
+  }
+  return [...byMinute.values()].sort((a, b) => a.minute - b.minute);
+}
+
+// Estimated q-quantile: linear within the histogram bucket it falls in. The
+// overflow bucket has no upper bound, so anything there reports the last bound.
+export function quantile(histogram: Histogram, q: number): number | null {
+  if (histogram.count === 0) {
+    return null;
+  }
+  const rank = q * histogram.count;
+  let seen = 0;
+  for (const [index, count] of histogram.counts.entries()) {
+    if (count > 0 && seen + count >= rank) {
+      const lower = index === 0 ? 0 : LATENCY_BOUNDS_MS[index - 1];
+      const upper = LATENCY_BOUNDS_MS[index] ?? lower;
+      return Math.round(lower + ((rank - seen) / count) * (upper - lower));
+    }
+    seen += count;
+  }
+  return LATENCY_BOUNDS_MS[LATENCY_BOUNDS_MS.length - 1];
+}
+
+function summarize(histogram: Histogram): LatencySummary {
+  return {
+    count: histogram.count,
+    sumMs: histogram.sum,
+    avgMs: histogram.count > 0 ? Math.round(histogram.sum / histogram.count) : null,
+    p50Ms: quantile(histogram, 0.5),
+    p95Ms: quantile(histogram, 0.95),
+    p99Ms: quantile(histogram, 0.99),
+  };
+}
+
+// Sustained starts per minute the limiter allows: the tightest of the sliding
+// window and the bucket's refill rate (concurrency depends on run times)
+export function startCapacityPerMinute(settings: LimiterSettings): number | null {
+  const rates = [
+    settings.slidingWindow &&
+      (settings.slidingWindow.limit * METRICS_BUCKET_MS) / settings.slidingWindow.windowMs,
+    settings.tokenBucket && settings.tokenBucket.refillPerSecond * 60,
+  ].filter((rate): rate is number => typeof rate === "number");
+  return rates.length > 0 ? Math.min(...rates) : null;
+}
+
+export function buildMetrics(
+  queue: string,
+  buckets: MetricsBucket[],
+  window: { from: number; to: number },
+  summary: QueueSummary,
+  limiterSettings: LimiterSettings
+): QueueMetrics {
+  const windowMinutes = Math.round((window.to - window.from) / METRICS_BUCKET_MS);
+  const total = emptyMetricsBucket(window.from);
+  for (const bucket of buckets) {
+    for (const counter of METRICS_COUNTERS) {
+      total.counts[counter] += bucket.counts[counter];
+    }
+    addHistogram(total.waitMs, bucket.waitMs);
+    addHistogram(total.runMs, bucket.runMs);
+  }
+
+  const capacity = startCapacityPerMinute(limiterSettings);
+  const utilization = (started: number) =>
+    capacity ? Math.round((started / capacity) * 1000) / 1000 : null;
+
+  return {
+    queue,
+    windowMinutes,
+    from: window.from,
+    to: window.to,
+    totals: total.counts,
+    perMinute: Object.fromEntries(
+      METRICS_COUNTERS.map((counter) => [
+        counter,
+        Math.round((total.counts[counter] / windowMinutes) * 100) / 100,
+      ])
+    ) as Record<MetricsCounter, number>,
+    waitTime: summarize(total.waitMs),
+    runTime: summarize(total.runMs),
+    rateLimit: {
+      ...summary.rateLimit,
+      capacityPerMinute: capacity,
+      utilization: utilization(total.counts.started / windowMinutes),
+      timeline: buckets.map((bucket) => ({
+        minute: bucket.minute,
+        started: bucket.counts.started,
+        rateLimited: bucket.counts.rateLimited,
+        utilization: utilization(bucket.counts.started),
+      })),
+    },
+    depth: summary.stats,
+  };
+}
+
+function label(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+// Prometheus text exposition format (version 0.0.4). Everything is a gauge or
+// summary over the requested window, not a lifetime counter - the aggregate
+// only goes back METRICS_RETENTION_MS.
+export function prometheusText(metrics: QueueMetrics[]): string {
+  const lines: string[] = [];
+  const family = (name: string, type: string, help: string) => {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+  };
+  const sample = (name: string, labels: Record<string, string>, value: number | null) => {
+    const rendered = Object.entries(labels)
+      .map(([key, labelValue]) => `${key}="${label(labelValue)}"`)
+      .join(",");
+    lines.push(`${name}{${rendered}} ${value ?? "NaN"}`);
+  };
+
+  family("queue_task_events", "gauge", "Task lifecycle events in the metrics window");
+  for (const m of metrics) {
+    for (const counter of METRICS_COUNTERS) {
+      sample("queue_task_events", { queue: m.queue, event: counter }, m.totals[counter]);
+    }
+  }
+  family("queue_task_events_per_minute", "gauge", "Average task lifecycle events per minute over the metrics window");
+  for (const m of metrics) {
+    for (const counter of METRICS_COUNTERS) {
+      sample("queue_task_events_per_minute", { queue: m.queue, event: counter }, m.perMinute[counter]);
+    }
+  }
+
+  const latency = (name: string, help: string, pick: (m: QueueMetrics) => LatencySummary) => {
+    family(name, "summary", help);
+    for (const m of metrics) {
+      const summary = pick(m);
+      const seconds = (ms: number | null) => (ms === null ? null : ms / 1000);
+      sample(name, { queue: m.queue, quantile: "0.5" }, seconds(summary.p50Ms));
+      sample(name, { queue: m.queue, quantile: "0.95" }, seconds(summary.p95Ms));
+      sample(name, { queue: m.queue, quantile: "0.99" }, seconds(summary.p99Ms));
+      sample(`${name}_sum`, { queue: m.queue }, summary.sumMs / 1000);
+      sample(`${name}_count`, { queue: m.queue }, summary.count);
+    }
+  };
+  latency("queue_wait_seconds", "Time from eligible to first start, over the metrics window", (m) => m.waitTime);
+  latency("queue_run_seconds", "Time from start to completion, over the metrics window", (m) => m.runTime);
+
+  family("queue_depth", "gauge", "Tasks currently in each state");
+  for (const m of metrics) {
+    const states: Record<string, number> = {
+      queued: m.depth.queuedCount,
+      processing: m.depth.processingCount,
+      retrying: m.depth.retryingCount,
+      scheduled: m.depth.scheduledCount,
+      blocked: m.depth.blockedCount,
+      completed: m.depth.completedCount,
+      dead_letter: m.depth.deadLetterCount,
+      cancelled: m.depth.cancelledCount,
+    };
+    for (const [state, count] of Object.entries(states)) {
+      sample("queue_depth", { queue: m.queue, state }, count);
+    }
+  }
+
+  family("queue_rate_limit_remaining", "gauge", "Starts every limiter policy allows right now (NaN = unlimited)");
+  for (const m of metrics) {
+    sample("queue_rate_limit_remaining", { queue: m.queue }, m.rateLimit.remaining);
+  }
+  family("queue_rate_limit_utilization", "gauge", "Starts per minute as a fraction of the limiter's capacity, over the metrics window");
+  for (const m of metrics) {
+    sample("queue_rate_limit_utilization", { queue: m.queue }, m.rateLimit.utilization);
+  }
+
+  return `${lines.join("\n")}\n`;
+}
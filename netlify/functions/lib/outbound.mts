@@ -0,0 +1,117 @@
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
+
+// Checks for URLs we send requests to on a client's say-so (callbackUrl, the
+// webhook task's data.url). Anything that is or resolves to a loopback,
+// private, link-local or otherwise non-public address is refused, so a client
+// can't use the queue to reach the site's own network or the cloud metadata
+// endpoint. OUTBOUND_ALLOWED_HOSTS (comma-separated hostnames or IPs, e.g.
+// "127.0.0.1,hooks.internal") lets chosen hosts through anyway - for local
+// development and tests. A name that resolves to a public address at check time
+// could still be re-pointed before the request goes out; the check narrows the
+// door, it doesn't replace network-level egress rules.
+
+const BLOCKED = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], // "This network"
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10], // Carrier-grade NAT
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16], // Link-local, including 169.254.169.254 (metadata)
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15], // Benchmarking
+  ["224.0.0.0", 4], // Multicast
+  ["240.0.0.0", 4], // Reserved, and broadcast
+] as const) {
+  BLOCKED.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128], // Unspecified
+  ["::1", 128],
+  ["64:ff9b::", 96], // NAT64 - embeds an IPv4 address
+  ["fc00::", 7], // Unique local
+  ["fe80::", 10], // Link-local
+  ["ff00::", 8], // Multicast
+] as const) {
+  BLOCKED.addSubnet(network, prefix, "ipv6");
+}
+
+function allowedHosts(): Set<string> {
+  return new Set(
+    (process.env.OUTBOUND_ALLOWED_HOSTS ?? "")
+      .split(",")
+      .map((host) => host.trim().toLowerCase())
+      .filter(Boolean)
+  );
+}
+
+// URL hostnames keep IPv6 literals in brackets, and may end in a root "."
+function bareHost(hostname: string): string {
+  return hostname.toLowerCase().replace(/^\[|\]$/g, "").replace(/\.$/, "");
+}
+
+export function isPublicAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 4) {
+    return !BLOCKED.check(address, "ipv4");
+  }
+  if (version !== 6) {
+    return false;
+  }
+  // IPv4-mapped is whatever the IPv4 address is. URLs write it in hex
+  // (::ffff:7f00:1), DNS answers in dotted form (::ffff:127.0.0.1).
+  const dotted = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (dotted) {
+    return isPublicAddress(dotted[1]);
+  }
+  const hex = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i.exec(address);
+  if (hex) {
+    const [high, low] = [parseInt(hex[1], 16), parseInt(hex[2], 16)];
+    return isPublicAddress(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+  return !BLOCKED.check(address, "ipv6");
+}
+
+// Why a request to `url` isn't allowed on its face, or null. No DNS lookup -
+// this is the cheap check for enqueue time; checkOutboundUrl() is the full one.
+export function outboundUrlError(url: string): string | null {
+  if (!URL.canParse(url)) {
+    return "must be a URL";
+  }
+  const { protocol, hostname } = new URL(url);
+  if (protocol !== "http:" && protocol !== "https:") {
+    return "must be an http(s) URL";
+  }
+  const host = bareHost(hostname);
+  if (allowedHosts().has(host)) {
+    return null;
+  }
+  if (host === "localhost" || host.endsWith(".localhost")) {
+    return `must not point at ${host}`;
+  }
+  if (isIP(host) && !isPublicAddress(host)) {
+    return `must not point at a private or loopback address (${host})`;
+  }
+  return null;
+}
+
+// outboundUrlError(), then every address the host resolves to must be public.
+// Made right before each request. A failed lookup throws, like the request
+// itself would, so callers retry it as they would a network error.
+export async function checkOutboundUrl(url: string): Promise<string | null> {
+  const error = outboundUrlError(url);
+  if (error) {
+    return error;
+  }
+  const host = bareHost(new URL(url).hostname);
+  if (isIP(host) || allowedHosts().has(host)) {
+    return null;
+  }
+  const addresses = await lookup(host, { all: true });
+  const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+  return blocked
+    ? `must not point at a private or loopback address (${host} is ${blocked.address})`
+    : null;
+}
@@ -0,0 +1,105 @@
+import type { TaskPriority } from "./types.mts";
+
+// Priority lanes: each priority has its own FIFO lane, and claim() picks which
+// lane to take the next task from:
+//   strict   -> always the highest non-empty lane
+//   weighted -> a random non-empty lane, in proportion to the lane weights
+// Either way, a lane whose oldest task has waited longer than `starvationMs`
+// goes first, so a steady stream of urgent work can't block low priority forever.
+//
+// Overridable per queue or via QUEUE_DRAIN_MODE, QUEUE_LANE_WEIGHTS
+// ("high,normal,low", e.g. "6,3,1") and QUEUE_STARVATION_MS.
+
+export const PRIORITIES: readonly TaskPriority[] = ["high", "normal", "low"];
+export const DEFAULT_PRIORITY: TaskPriority = "normal";
+
+export type DrainMode = "strict" | "weighted";
+
+export interface DrainSettings {
+  mode: DrainMode;
+  weights: Record<TaskPriority, number>;
+  starvationMs: number;
+}
+
+export const DEFAULT_DRAIN_SETTINGS: DrainSettings = {
+  mode: "strict",
+  weights: { high: 6, normal: 3, low: 1 },
+  starvationMs: 5 * 60000,
+};
+
+// A lane entry - when it joined the lane is what starvation is measured against
+export interface LaneEntry {
+  id: string;
+  queuedAt: number;
+  tenant?: string; // Missing on entries from before tenants (the default tenant)
+}
+
+export type Lanes = Record<TaskPriority, LaneEntry[]>;
+
+export function isPriority(value: unknown): value is TaskPriority {
+  return PRIORITIES.includes(value as TaskPriority);
+}
+
+export function envDrainSettings(): DrainSettings {
+  const mode = process.env.QUEUE_DRAIN_MODE;
+  const weights = (process.env.QUEUE_LANE_WEIGHTS ?? "")
+    .split(",")
+    .map((weight) => Number(weight));
+  const starvationMs = Number(process.env.QUEUE_STARVATION_MS);
+
+  return {
+    mode: mode === "strict" || mode === "weighted" ? mode : DEFAULT_DRAIN_SETTINGS.mode,
+    weights:
+      weights.length === PRIORITIES.length &&
+      weights.every((weight) => Number.isFinite(weight) && weight >= 0) &&
+      weights.some((weight) => weight > 0)
+        ? { high: weights[0], normal: weights[1], low: weights[2] }
+        : DEFAULT_DRAIN_SETTINGS.weights,
+    starvationMs:
+      Number.isFinite(starvationMs) && starvationMs > 0
+        ? starvationMs
+        : DEFAULT_DRAIN_SETTINGS.starvationMs,
+  };
+}
+
+// The lane to take the next task from, or null if every lane is empty
+export function pickLane(
+  lanes: Lanes,
+  settings: DrainSettings,
+  now: number
+): TaskPriority | null {
+  const waiting = PRIORITIES.filter((priority) => lanes[priority].length > 0);
+  if (waiting.length === 0) {
+    return null;
+  }
+
+  // Starving lanes first - the one whose head has waited longest
+  const starving = waiting
+    .filter(
+      (priority) => lanes[priority][0].queuedAt <= now - settings.starvationMs
+    )
+    .sort((a, b) => lanes[a][0].queuedAt - lanes[b][0].queuedAt);
+  if (starving.length > 0) {
+    return starving[0];
+  }
+
+  if (settings.mode === "strict") {
+    return waiting[0];
+  }
+
+  const total = waiting.reduce(
+    (sum, priority) => sum + settings.weights[priority],
+    0
+  );
+  if (total === 0) {
+    return waiting[0];
+  }
+  let roll = Math.random() * total;
+  for (const priority of waiting) {
+    roll -= settings.weights[priority];
+    if (roll < 0) {
+      return priority;
+    }
+  }
+  return waiting[waiting.length - 1];
+}
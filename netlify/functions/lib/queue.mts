@@ -0,0 +1,2919 @@
+import { openStore, type QueueStorage, type StoredEntry } from "./storage.mts";
+import {
+  acquire,
+  emptyLimiterState,
+  envLimiterSettings,
+  extend,
+  limiterStatus,
+  refund,
+  release,
+  releaseUnless,
+  resolveLimiterSettings,
+  type LimiterSettings,
+  type LimiterState,
+} from "./limiter.mts";
+import {
+  DEFAULT_PRIORITY,
+  envDrainSettings,
+  pickLane,
+  PRIORITIES,
+  type DrainSettings,
+  type LaneEntry,
+  type Lanes,
+} from "./priority.mts";
+import {
+  DEFAULT_TENANT,
+  emptyTenantState,
+  envTenantSettings,
+  pickTenant,
+  refundTenant,
+  resolveTenantSettings,
+  serveTenant,
+  startAllowedAt,
+  tenantQuota,
+  type TenantSettings,
+  type TenantState,
+} from "./tenants.mts";
+import {
+  DEFAULT_IDEMPOTENCY_TTL_MS,
+  idempotencyRecordKey,
+  type IdempotencyRecord,
+} from "./idempotency.mts";
+import {
+  emptyMetricsBucket,
+  mergeMetricsBuckets,
+  METRICS_BUCKET_MS,
+  METRICS_RETENTION_MS,
+  METRICS_SHARDS,
+  observe,
+  type MetricsBucket,
+} from "./metrics.mts";
+import {
+  describeWorkflow,
+  workflowLevels,
+  type WorkflowRecord,
+  type WorkflowStep,
+} from "./workflows.mts";
+import type {
+  CallbackDelivery,
+  QueueControl,
+  QueueEvent,
+  QueueEventType,
+  QueueStatus,
+  QueueSummary,
+  Task,
+  TaskEvent,
+  TaskPriority,
+  WorkflowDetails,
+} from "./types.mts";
+
+// Queue state is sharded into small entries so each write only touches what it changes:
+//   tasks/<id>        -> Task
+//   index/queue/<priority> -> { id, queuedAt, tenant } waiting to be processed, one
+//                     FIFO lane per priority (high/normal/low - see priority.mts)
+//   index/processing  -> Task IDs currently processing
+//   index/completed   -> Completed task IDs (oldest first)
+//   index/retrying    -> { id, retryAt } for failed attempts backing off before requeue
+//   index/scheduled   -> { id, runAt } for tasks enqueued to run later (soonest first)
+//   index/blocked     -> BlockedEntry: tasks waiting on dependencies, with the ones left
+//   index/dead-letter -> Task IDs that exhausted their attempts (oldest first)
+//   index/cancelled   -> Cancelled task IDs (oldest first)
+//   index/limiter     -> LimiterState: recent starts, token bucket, concurrency slots
+//   index/dispatch    -> Dispatch[]: process-task events sent and not yet picked up
+//   index/repair      -> RepairSuspects: tasks the last repairIndexes() found out of place
+//   settings/limiter  -> Partial<LimiterSettings> set at runtime (see limiter.mts)
+//   index/tenants     -> TenantState: fairness cursor and per-tenant starts (see tenants.mts)
+//   settings/tenants  -> Partial<TenantSettings> set at runtime
+//   settings/control  -> QueueControl: paused / draining (/api/queue-control)
+//   events/<minute>/<event id> -> QueueEvent (lifecycle feed for /api/queue-events)
+//   idempotency/<tenant>/<key hash> -> IdempotencyRecord (see idempotency.mts)
+//   metrics/<minute>/<shard> -> MetricsBucket: rolling counts and latencies (see metrics.mts)
+//   task-events/<id> -> TaskEvent[]: the task's own history, appended to (GET /api/task/:id/events)
+//   workflows/<id>    -> WorkflowRecord: a workflow's task IDs by key (see workflows.mts)
+//   callback-secrets/<id> -> Signing secret for the task's callback (kept off the
+//                     task so it never shows up in status or task responses)
+const TASK_PREFIX = "tasks/";
+const CALLBACK_SECRET_PREFIX = "callback-secrets/";
+const TASK_EVENTS_PREFIX = "task-events/";
+const EVENT_PREFIX = "events/";
+const IDEMPOTENCY_PREFIX = "idempotency/";
+const METRICS_PREFIX = "metrics/";
+const WORKFLOW_PREFIX = "workflows/";
+const LANE_PREFIX = "index/queue/";
+const PROCESSING_KEY = "index/processing";
+const COMPLETED_KEY = "index/completed";
+const RETRYING_KEY = "index/retrying";
+const SCHEDULED_KEY = "index/scheduled";
+const BLOCKED_KEY = "index/blocked";
+const DEAD_LETTER_KEY = "index/dead-letter";
+const CANCELLED_KEY = "index/cancelled";
+const CONTROL_KEY = "settings/control";
+const LIMITER_KEY = "index/limiter";
+const DISPATCH_KEY = "index/dispatch";
+const REPAIR_KEY = "index/repair";
+const LIMITER_SETTINGS_KEY = "settings/limiter";
+const TENANTS_KEY = "index/tenants";
+const TENANT_SETTINGS_KEY = "settings/tenants";
+const INDEX_KEYS = [
+  ...PRIORITIES.map(laneKey),
+  PROCESSING_KEY,
+  COMPLETED_KEY,
+  RETRYING_KEY,
+  SCHEDULED_KEY,
+  BLOCKED_KEY,
+  DEAD_LETTER_KEY,
+  CANCELLED_KEY,
+  DISPATCH_KEY,
+];
+
+// Retry policy - overridable per queue or via TASK_MAX_ATTEMPTS / TASK_RETRY_BASE_MS
+export const DEFAULT_MAX_ATTEMPTS = 3;
+export const DEFAULT_RETRY_BASE_MS = 5000; // Backoff after the 1st failure, doubled each time
+const MAX_RETRY_DELAY_MS = 10 * 60000;
+
+// Retry-After for a tenant over its queue quota when nothing says when its
+// backlog will start moving (e.g. only a running task finishing frees a slot)
+const QUOTA_RETRY_MS = 30000;
+
+// A dispatched worker that hasn't turned up this long after it was due is
+// taken as lost, and no longer counts as on its way
+const DISPATCH_TIMEOUT_MS = 60000;
+
+// A claim is a lease: the worker must heartbeat before it expires or the reaper
+// takes the task back. Overridable per queue or via TASK_LEASE_MS.
+export const DEFAULT_LEASE_MS = 2 * 60000;
+// The reaper leaves a concurrency slot this new alone even if no lease backs
+// it: its claim may not have marked the task processing yet
+const SLOT_CLAIM_GRACE_MS = 60000;
+
+// Completed and cancelled tasks are kept until they're older than maxAgeMs or
+// more than maxCount are kept, then archived and deleted by the cleanup function.
+// Overridable per queue or via RETENTION_MAX_AGE_MS / RETENTION_MAX_COUNT.
+export const DEFAULT_RETENTION_MAX_AGE_MS = 7 * 24 * 3600000;
+export const DEFAULT_RETENTION_MAX_COUNT = 10000;
+// Dead-lettered tasks go the same way, but are kept longer by default - they're
+// waiting for someone to look at them. RETENTION_DEAD_LETTER_MAX_AGE_MS /
+// RETENTION_DEAD_LETTER_MAX_COUNT.
+export const DEFAULT_DEAD_LETTER_RETENTION_MAX_AGE_MS = 30 * 24 * 3600000;
+const MAX_PRUNED_PER_RUN = 1000; // Per index - keeps a cleanup run inside the time limit
+
+const MAX_WRITE_ATTEMPTS = 8; // Conditional writes before giving up on a conflict
+const MAX_LISTED_TASKS = 50; // Cap on queued/completed/dead-letter tasks returned by status()
+const WRITE_CONCURRENCY = 25; // Parallel per-task writes in enqueueBatch()
+// An idempotency record is written before its task. For this long a record
+// whose task isn't there yet counts as an enqueue in progress and is waited on.
+const IDEMPOTENCY_PENDING_MS = 10000;
+const IDEMPOTENCY_POLL_MS = 250;
+const MAX_TASK_EVENTS = 200; // Per task - the oldest go first past this
+
+// Events are bucketed per minute so readers only list the last few buckets
+const EVENT_BUCKET_MS = 60000;
+export const EVENT_RETENTION_MS = 10 * 60000;
+
+export interface QueueOptions {
+  limiter?: Partial<LimiterSettings>; // Overrides the environment and settings/limiter
+  maxAttempts?: number;
+  retryBaseMs?: number;
+  leaseMs?: number;
+  drain?: Partial<DrainSettings>;
+  tenants?: Partial<TenantSettings>; // Overrides the environment and settings/tenants
+  idempotencyTtlMs?: number;
+  retention?: {
+    maxAgeMs?: number;
+    maxCount?: number;
+    deadLetterMaxAgeMs?: number;
+    deadLetterMaxCount?: number;
+  };
+  // Called for each task cancelled because a dependency was dead-lettered,
+  // cancelled or deleted - openQueue() queues its callback from here
+  onDependentCancelled?: (task: Task) => Promise<void>;
+}
+
+// Waiting entries remember the lane the task goes back to once it's due
+interface RetryEntry {
+  id: string;
+  retryAt: number;
+  priority?: TaskPriority; // Missing on entries from before lanes existed
+  tenant?: string; // Missing on entries from before tenants existed
+}
+
+interface ScheduledEntry {
+  id: string;
+  runAt: number;
+  priority?: TaskPriority;
+  tenant?: string;
+}
+
+// Task ID -> the ETag the task had when repairIndexes() found it out of place
+type RepairSuspects = Record<string, string>;
+
+// Leaves the index once waitingOn is empty (to its lane, or the scheduled
+// index if its runAt is still ahead) or a dependency fails (cancelled)
+interface BlockedEntry {
+  id: string;
+  waitingOn: string[]; // Dependencies yet to complete
+  priority: TaskPriority;
+  tenant: string;
+}
+
+// How a dependency ended up: "missing" if it has been deleted since
+type DependencyOutcome = "completed" | "failed" | "cancelled" | "missing";
+
+export interface EnqueueInput {
+  type: string; // Must have a registered handler (see handlers.mts)
+  data?: unknown;
+  priority?: TaskPriority; // Default "normal"
+  tenant?: string; // Default "default"
+  callback?: { url: string; secret?: string };
+  runAt?: number; // Not eligible to start before this time (ms since epoch)
+  // Task IDs (same tenant) that must complete first; held out of the queue till then
+  dependsOn?: string[];
+  // A repeat of an earlier enqueue with the same key returns that task instead.
+  // `fingerprint` identifies the request, to tell a retry from a conflicting reuse.
+  idempotency?: { key: string; fingerprint: string };
+}
+
+export type EnqueueResult =
+  // position is null for a scheduled or blocked task; duplicate is set when an
+  // earlier request with the same idempotency key created the task
+  | { task: Task; position: number | null; duplicate?: true }
+  // The idempotency key was already used for a different request
+  | { task: null; reason: "idempotency-conflict"; taskId: string }
+  // A dependsOn ID isn't a task (of this tenant), or one was dead-lettered or cancelled
+  | { task: null; reason: "unknown-dependency"; taskId: string }
+  | { task: null; reason: "dependency-failed"; taskId: string }
+  // The queue is draining - see QueueControl
+  | { task: null; reason: "draining" }
+  // The tenant already has its maxQueued tasks waiting
+  | { task: null; reason: "quota-exceeded"; retryAt: number };
+
+// One task of a workflow: `key` names it within the workflow, `dependsOn`
+// lists the keys of other steps
+export interface WorkflowStepInput extends WorkflowStep {
+  input: Omit<EnqueueInput, "tenant" | "dependsOn" | "idempotency">;
+}
+
+export interface WorkflowInput {
+  name?: string;
+  tenant?: string; // Default "default" - every task in the workflow gets it
+  steps: WorkflowStepInput[];
+}
+
+export type WorkflowResult =
+  | { workflow: WorkflowDetails }
+  | { workflow: null; reason: "draining" }
+  // The tenant's maxQueued has no room for every task in the workflow
+  | { workflow: null; reason: "quota-exceeded"; retryAt: number };
+
+export type ClaimResult =
+  | { task: Task }
+  | { task: null; reason: "empty" }
+  | { task: null; reason: "paused" }
+  // retryAt is null when only a running task finishing can free capacity
+  | { task: null; reason: "rate-limited"; retryAt: number | null };
+
+// A process-task event booked by reserveDispatch(): due now, or at `at` if
+// that's still ahead - a wake-up for when the limiter next frees a slot
+export interface Dispatch {
+  id: string;
+  at: number;
+}
+
+// How many tasks could start right now, and if none can because of the
+// limiter or a tenant quota, when the next one can (the limiter's resetAt)
+export interface StartCapacity {
+  workers: number;
+  wakeAt: number | null;
+}
+
+export type RetryScheduled = { task: Task; deadLettered: false; retryAt: number };
+export type DeadLettered = { task: Task; deadLettered: true };
+export type FailResult = RetryScheduled | DeadLettered;
+// What the reaper did with one expired task
+type Reclaimed = FailResult | { task: Task; cancelled: true };
+
+export interface ReclaimResult {
+  requeued: RetryScheduled[];
+  deadLettered: DeadLettered[];
+  cancelled: Task[]; // Had a cancel request in - no point running them again
+  releasedSlots: string[]; // Workers whose limiter slot outlived their lease
+}
+
+// cancel(), requeue() and move(): the task after the action, or why not.
+// "wrong-status" comes with the task as it is (e.g. already finished).
+export type TaskActionResult =
+  | { task: Task }
+  | { task: null; reason: "not-found" }
+  | { task: null; reason: "wrong-status"; current: Task }
+  // requeue() only: one of the task's dependsOn was dead-lettered, cancelled or deleted
+  | { task: null; reason: "dependency-failed"; taskId: string };
+
+export interface Queue {
+  enqueue(input: EnqueueInput): Promise<EnqueueResult>;
+  // Same as enqueue() for each input (results in the same order), with one
+  // index update for the whole batch
+  enqueueBatch(inputs: EnqueueInput[]): Promise<EnqueueResult[]>;
+  // Creates every task of the workflow or none (throws if the steps don't form
+  // a DAG - check with workflowLevels() first). Tasks with dependencies wait
+  // in index/blocked until they're met.
+  enqueueWorkflow(input: WorkflowInput): Promise<WorkflowResult>;
+  // The workflow's tasks and overall status, or null if there's no such workflow
+  workflow(workflowId: string): Promise<WorkflowDetails | null>;
+  // Moves the next queued task to processing (leased to `workerId`) if the limiter
+  // allows it, taking turns between tenants (see tenants.mts)
+  claim(workerId: string): Promise<ClaimResult>;
+  // Extends the lease; false if the worker no longer holds it
+  heartbeat(taskId: string, workerId: string): Promise<boolean>;
+  // complete() and fail() return null if the worker no longer holds the lease
+  complete(taskId: string, workerId: string, result?: unknown): Promise<Task | null>;
+  // Requeues after a backoff, or dead-letters once maxAttempts is used up
+  fail(taskId: string, workerId: string, error: string): Promise<FailResult | null>;
+  // Fails every processing task whose lease has expired, and frees the limiter
+  // slots no live lease backs (run by the reaper)
+  reclaimExpired(): Promise<ReclaimResult>;
+  // Puts tasks back in the index their status says they're in, if a failed
+  // write left them out of it, and drops processing entries for tasks that
+  // aren't processing. Other than adding a processing task to the processing
+  // index, only touches a task that was already out of place, with the same
+  // ETag, on the previous run. Returns the IDs repaired.
+  repairIndexes(): Promise<string[]>;
+  // A waiting task (queued, retrying or scheduled) is cancelled on the spot. A
+  // processing one gets cancelRequestedAt; its handler sees the abort signal and
+  // the worker calls acknowledgeCancel() once it has stopped.
+  cancel(taskId: string): Promise<TaskActionResult>;
+  // Marks a processing task cancelled; null if the worker no longer holds the lease
+  acknowledgeCancel(taskId: string, workerId: string): Promise<Task | null>;
+  // Back of the queue with fresh attempts: finished tasks (completed, cancelled,
+  // dead-lettered) run again; retrying/scheduled ones stop waiting. A finished
+  // task with dependencies still to complete goes back to index/blocked, and
+  // one whose dependency has failed isn't requeued.
+  requeue(taskId: string): Promise<TaskActionResult>;
+  // Moves a queued task to the front or back of its lane, or of `priority`'s lane
+  move(
+    taskId: string,
+    to: "front" | "back",
+    priority?: TaskPriority
+  ): Promise<TaskActionResult>;
+  control(): Promise<QueueControl>;
+  setControl(change: Partial<QueueControl>): Promise<QueueControl>;
+  status(): Promise<QueueStatus>;
+  // Just the counts and rate limit - no task fetches
+  summary(): Promise<QueueSummary>;
+  // Lifecycle events newer than `cursor` (an event ID or eventCursor()), oldest first
+  eventsSince(cursor: string): Promise<QueueEvent[]>;
+  // Deletes events older than EVENT_RETENTION_MS; returns how many were deleted
+  pruneEvents(): Promise<number>;
+  // Per-minute metrics since `since` (shards merged), oldest first
+  metrics(since: number): Promise<MetricsBucket[]>;
+  // Deletes metrics older than METRICS_RETENTION_MS; returns how many were deleted
+  pruneMetrics(): Promise<number>;
+  get(taskId: string): Promise<Task | null>;
+  // The task's event log, oldest first (empty for an unknown task)
+  taskEvents(taskId: string): Promise<TaskEvent[]>;
+  callbackSecret(taskId: string): Promise<string | null>;
+  // Appends to task.callbackDeliveries; null if the task no longer exists
+  recordCallbackDelivery(
+    taskId: string,
+    delivery: CallbackDelivery
+  ): Promise<Task | null>;
+  // 1-based position in the queue, or null if the task isn't waiting in it.
+  // Counts every task in higher lanes and ahead of it in its own lane, so
+  // it's exact for strict draining with one tenant and an estimate otherwise.
+  positionOf(taskId: string): Promise<number | null>;
+  // True if there are queued (or due retry) tasks and the limiter has room to start one
+  hasRunnableTasks(): Promise<boolean>;
+  startCapacity(): Promise<StartCapacity>;
+  // Books a process-task event for each task that could start now, less the
+  // workers already on their way, up to `maxWorkers` - or, if none can start,
+  // one wake-up for when the next can (unless an earlier one is booked). The
+  // caller sends them, each carrying its dispatch ID.
+  reserveDispatch(maxWorkers: number): Promise<Dispatch[]>;
+  // The worker for this dispatch has started and no longer counts as on its way
+  dispatchArrived(dispatchId: string): Promise<void>;
+  // Moves due scheduled tasks and retries to the back of the queue; returns how many
+  promoteDueTasks(): Promise<number>;
+  // Earliest runAt/retryAt still in the future, or null if nothing is waiting
+  nextDueAt(): Promise<number | null>;
+  // Releases or cancels blocked tasks whose dependencies have already finished
+  // (complete() and dead-lettering normally do this as they happen); returns how many
+  settleBlockedTasks(): Promise<number>;
+  // Effective settings: environment, then settings/limiter, then QueueOptions
+  limiterSettings(): Promise<LimiterSettings>;
+  // Replaces the stored override (null removes it); returns the new effective settings
+  setLimiterSettings(
+    override: Partial<LimiterSettings> | null
+  ): Promise<LimiterSettings>;
+  // Same layering for tenant fairness and quotas
+  tenantSettings(): Promise<TenantSettings>;
+  setTenantSettings(
+    override: Partial<TenantSettings> | null
+  ): Promise<TenantSettings>;
+  deadLetter(): Promise<Task[]>;
+  // Both act on every dead-lettered task when `taskIds` is omitted
+  retryDeadLetter(taskIds?: string[]): Promise<string[]>;
+  purgeDeadLetter(taskIds?: string[]): Promise<string[]>;
+  // Takes completed, cancelled and dead-lettered tasks past retention off their
+  // indexes, hands them to `archive`, then deletes them. If `archive` throws
+  // they go back.
+  pruneFinished(archive: (tasks: Task[]) => Promise<void>): Promise<Task[]>;
+  // Deletes idempotency records past their TTL; returns how many
+  pruneIdempotencyRecords(): Promise<number>;
+  // Deletes workflow records none of whose tasks exist any more; returns how many
+  pruneWorkflows(): Promise<number>;
+  clear(): Promise<void>;
+}
+
+function laneKey(priority: TaskPriority): string {
+  return `${LANE_PREFIX}${priority}`;
+}
+
+export function envNumber(name: string): number | undefined {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+// Event IDs start with the zero-padded timestamp, so they sort by time and any
+// event at or after `at` compares greater than eventCursor(at)
+export function eventCursor(at: number): string {
+  return at.toString().padStart(15, "0");
+}
+
+function tenantOf(entry: { tenant?: string }): string {
+  return entry.tenant ?? DEFAULT_TENANT;
+}
+
+// null while the task can still complete
+function dependencyOutcome(task: Task | null): DependencyOutcome | null {
+  if (!task) {
+    return "missing";
+  }
+  return task.status === "queued" || task.status === "processing" ? null : task.status;
+}
+
+// See Queue.positionOf()
+function positionIn(lanes: Lanes, taskId: string): number | null {
+  let ahead = 0;
+  for (const priority of PRIORITIES) {
+    const index = lanes[priority].findIndex((entry) => entry.id === taskId);
+    if (index !== -1) {
+      return ahead + index + 1;
+    }
+    ahead += lanes[priority].length;
+  }
+  return null;
+}
+
+// Runs `fn` over the items, at most WRITE_CONCURRENCY at a time
+async function inChunks<T>(
+  items: T[],
+  fn: (item: T) => Promise<unknown>
+): Promise<void> {
+  for (let start = 0; start < items.length; start += WRITE_CONCURRENCY) {
+    await Promise.all(items.slice(start, start + WRITE_CONCURRENCY).map(fn));
+  }
+}
+
+// Use high-resolution time and more randomness to ensure unique IDs
+function generateTaskId(): string {
+  return `task-${Date.now()}-${performance.now().toString(36)}-${Math.random()
+    .toString(36)
+    .substring(2, 9)}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+function generateWorkflowId(): string {
+  return `workflow-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+export function createQueue(
+  storage: QueueStorage = openStore(),
+  options: QueueOptions = {}
+): Queue {
+  const maxAttempts =
+    options.maxAttempts ??
+    envNumber("TASK_MAX_ATTEMPTS") ??
+    DEFAULT_MAX_ATTEMPTS;
+  const retryBaseMs =
+    options.retryBaseMs ??
+    envNumber("TASK_RETRY_BASE_MS") ??
+    DEFAULT_RETRY_BASE_MS;
+  const leaseMs =
+    options.leaseMs ?? envNumber("TASK_LEASE_MS") ?? DEFAULT_LEASE_MS;
+  const drain: DrainSettings = { ...envDrainSettings(), ...options.drain };
+  const idempotencyTtlMs =
+    options.idempotencyTtlMs ??
+    envNumber("IDEMPOTENCY_TTL_MS") ??
+    DEFAULT_IDEMPOTENCY_TTL_MS;
+  const retentionMaxAgeMs =
+    options.retention?.maxAgeMs ??
+    envNumber("RETENTION_MAX_AGE_MS") ??
+    DEFAULT_RETENTION_MAX_AGE_MS;
+  const retentionMaxCount =
+    options.retention?.maxCount ??
+    envNumber("RETENTION_MAX_COUNT") ??
+    DEFAULT_RETENTION_MAX_COUNT;
+  const deadLetterMaxAgeMs =
+    options.retention?.deadLetterMaxAgeMs ??
+    envNumber("RETENTION_DEAD_LETTER_MAX_AGE_MS") ??
+    DEFAULT_DEAD_LETTER_RETENTION_MAX_AGE_MS;
+  const deadLetterMaxCount =
+    options.retention?.deadLetterMaxCount ??
+    envNumber("RETENTION_DEAD_LETTER_MAX_COUNT") ??
+    DEFAULT_RETENTION_MAX_COUNT;
+
+  // Read-modify-write of one entry guarded by its ETag (compare-and-swap).
+  // If another function saved the entry between our read and our write, the
+  // conditional set fails; we re-read and re-apply `mutate` against the fresh
+  // value instead of overwriting the other writer's changes.
+  // `mutate` edits the value in place and may return `undefined` to abort without
+  // writing. A missing entry starts from `initial()`, or aborts if that's undefined.
+  async function updateEntry<T, R>(
+    key: string,
+    initial: () => T | undefined,
+    mutate: (value: T) => R | undefined
+  ): Promise<R | undefined> {
+    for (let attempt = 1; attempt <= MAX_WRITE_ATTEMPTS; attempt++) {
+      const entry = await storage.get<T>(key);
+      const value = entry ? entry.value : initial();
+
+      if (value === undefined) {
+        return undefined;
+      }
+
+      const result = mutate(value);
+
+      if (result === undefined) {
+        return undefined;
+      }
+
+      const written = await storage.set(
+        key,
+        value,
+        entry ? { onlyIfMatch: entry.etag } : { onlyIfNew: true }
+      );
+
+      if (written) {
+        return result;
+      }
+
+      // Lost the race - back off (exponential with jitter) and try again
+      const delay = Math.min(1000, 25 * 2 ** attempt) * (0.5 + Math.random());
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+
+    throw new Error(
+      `Queue state write conflict on ${key}: gave up after ${MAX_WRITE_ATTEMPTS} attempts`
+    );
+  }
+
+  async function readIndex<T>(key: string) {
+    const entry = await storage.get<T[]>(key);
+    return { items: Array.isArray(entry?.value) ? entry.value : [] };
+  }
+
+  function updateIndex<T, R>(
+    key: string,
+    mutate: (items: T[]) => R | undefined
+  ): Promise<R | undefined> {
+    return updateEntry<T[], R>(key, () => [], mutate);
+  }
+
+  // A missing task aborts the update
+  function updateTask<R>(
+    taskId: string,
+    mutate: (task: Task) => R | undefined
+  ): Promise<R | undefined> {
+    return updateEntry<Task, R>(`${TASK_PREFIX}${taskId}`, () => undefined, mutate);
+  }
+
+  function removeFromIndex(key: string, taskId: string) {
+    return updateIndex<string, boolean>(key, (ids) => {
+      const index = ids.indexOf(taskId);
+      if (index === -1) {
+        return undefined;
+      }
+      ids.splice(index, 1);
+      return true;
+    });
+  }
+
+  function appendToIndex(key: string, taskId: string) {
+    return updateIndex<string, number>(key, (ids) =>
+      ids.includes(taskId) ? undefined : ids.push(taskId)
+    );
+  }
+
+  // Takes one entry out of an index of { id, ... } entries. Whoever takes it owns the task.
+  function takeEntry<E extends { id: string }>(key: string, taskId: string) {
+    return updateIndex<E, E>(key, (entries) => {
+      const index = entries.findIndex((entry) => entry.id === taskId);
+      return index === -1 ? undefined : entries.splice(index, 1)[0];
+    });
+  }
+
+  async function readLanes(): Promise<Lanes> {
+    const lanes = await Promise.all(
+      PRIORITIES.map((priority) =>
+        readIndex<LaneEntry>(laneKey(priority)).then((index) => index.items)
+      )
+    );
+    return { high: lanes[0], normal: lanes[1], low: lanes[2] };
+  }
+
+  // Appends to the back of each task's lane, skipping any already in it
+  async function appendToLanes(
+    tasks: { id: string; priority?: TaskPriority; tenant?: string }[]
+  ): Promise<void> {
+    for (const priority of PRIORITIES) {
+      const laneTasks = tasks.filter(
+        (task) => (task.priority ?? DEFAULT_PRIORITY) === priority
+      );
+      if (laneTasks.length === 0) {
+        continue;
+      }
+      await updateIndex<LaneEntry, number>(laneKey(priority), (entries) => {
+        const queuedAt = Date.now();
+        const fresh = laneTasks.filter(
+          (task) => !entries.some((entry) => entry.id === task.id)
+        );
+        return fresh.length > 0
+          ? entries.push(
+              ...fresh.map((task) => ({ id: task.id, queuedAt, tenant: tenantOf(task) }))
+            )
+          : undefined;
+      });
+    }
+  }
+
+  // Moves the next task from its lane to the processing index: the drain
+  // settings pick the lane, then tenant fairness picks whose task, skipping
+  // tenants out of start quota. Returns the time one can start if every
+  // waiting tenant is out of quota, or null if the lanes are empty. Another
+  // worker taking the entry first (or the last of a tenant's quota) means we
+  // re-read and pick again.
+  // The processing entry goes in before the lane entry comes out, so a failed
+  // write in between leaves the task in two indexes rather than none. The
+  // task's status is still "queued" at this point - claim() changes it.
+  async function takeNext(): Promise<{ id: string } | { retryAt: number } | null> {
+    const settings = await tenantSettings();
+    for (let attempt = 1; attempt <= MAX_WRITE_ATTEMPTS; attempt++) {
+      const now = Date.now();
+      const [lanes, state] = await Promise.all([readLanes(), readTenants()]);
+
+      const waiting = new Set(
+        PRIORITIES.flatMap((priority) => lanes[priority].map(tenantOf))
+      );
+      if (waiting.size === 0) {
+        return null;
+      }
+      const allowedAt = new Map(
+        [...waiting].map((tenant) => [
+          tenant,
+          startAllowedAt(settings, state, tenant, now),
+        ])
+      );
+      const blocked = [...allowedAt.values()].filter((at) => at !== null);
+      if (blocked.length === waiting.size) {
+        return { retryAt: Math.min(...blocked) };
+      }
+
+      const eligible = (entry: LaneEntry) => allowedAt.get(tenantOf(entry)) === null;
+      const open: Lanes = {
+        high: lanes.high.filter(eligible),
+        normal: lanes.normal.filter(eligible),
+        low: lanes.low.filter(eligible),
+      };
+      const lane = pickLane(open, drain, now)!;
+      const candidates = [...new Set(open[lane].map(tenantOf))];
+      const tenant = pickTenant(candidates, settings, state)!;
+
+      // Only touch the tenant state when there's a turn or a quota to record
+      let startedAt: number | undefined;
+      if (candidates.length > 1 || tenantQuota(settings, tenant).maxStarted) {
+        startedAt = await updateTenants((state) => {
+          const at = Date.now();
+          return serveTenant(settings, state, tenant, candidates, at) ? at : undefined;
+        });
+        if (startedAt === undefined) {
+          continue;
+        }
+      }
+
+      // Left in place if another worker takes the lane entry first - it's
+      // that worker's processing entry too
+      const { id } = open[lane].find((entry) => tenantOf(entry) === tenant)!;
+      await appendToIndex(PROCESSING_KEY, id);
+      if (await takeEntry<LaneEntry>(laneKey(lane), id)) {
+        return { id };
+      }
+      if (startedAt !== undefined) {
+        const at = startedAt;
+        await updateTenants((state) => {
+          refundTenant(state, tenant, at);
+          return true;
+        });
+      }
+    }
+    return null;
+  }
+
+  async function getTask(taskId: string): Promise<Task | null> {
+    const entry = await storage.get<Task>(`${TASK_PREFIX}${taskId}`);
+    return entry?.value ?? null;
+  }
+
+  // Fetch only the task entries we're going to return
+  async function getTasks(ids: string[]): Promise<Task[]> {
+    const tasks = await Promise.all(ids.map(getTask));
+    return tasks.filter((task): task is Task => task !== null);
+  }
+
+  // True if `workerId` holds an unexpired lease on the task
+  function holdsLease(task: Task, workerId: string, now: number): boolean {
+    return (
+      task.status === "processing" &&
+      task.workerId === workerId &&
+      (task.leaseExpiresAt ?? 0) > now
+    );
+  }
+
+  // Read once per queue instance (i.e. per function invocation)
+  let settingsPromise: Promise<LimiterSettings> | undefined;
+
+  function limiterSettings(): Promise<LimiterSettings> {
+    settingsPromise ??= storage
+      .get<Partial<LimiterSettings>>(LIMITER_SETTINGS_KEY)
+      .then((entry) =>
+        resolveLimiterSettings(envLimiterSettings(), entry?.value, options.limiter)
+      );
+    return settingsPromise;
+  }
+
+  async function setLimiterSettings(
+    override: Partial<LimiterSettings> | null
+  ): Promise<LimiterSettings> {
+    if (override) {
+      await storage.set(LIMITER_SETTINGS_KEY, override);
+    } else {
+      await storage.delete(LIMITER_SETTINGS_KEY);
+    }
+    settingsPromise = undefined;
+    return limiterSettings();
+  }
+
+  let tenantSettingsPromise: Promise<TenantSettings> | undefined;
+
+  function tenantSettings(): Promise<TenantSettings> {
+    tenantSettingsPromise ??= storage
+      .get<Partial<TenantSettings>>(TENANT_SETTINGS_KEY)
+      .then((entry) =>
+        resolveTenantSettings(envTenantSettings(), entry?.value, options.tenants)
+      );
+    return tenantSettingsPromise;
+  }
+
+  async function setTenantSettings(
+    override: Partial<TenantSettings> | null
+  ): Promise<TenantSettings> {
+    if (override) {
+      await storage.set(TENANT_SETTINGS_KEY, override);
+    } else {
+      await storage.delete(TENANT_SETTINGS_KEY);
+    }
+    tenantSettingsPromise = undefined;
+    return tenantSettings();
+  }
+
+  // Read fresh every time: pausing has to reach workers that are already running
+  async function control(): Promise<QueueControl> {
+    const entry = await storage.get<Partial<QueueControl>>(CONTROL_KEY);
+    return { paused: false, draining: false, ...entry?.value };
+  }
+
+  async function setControl(change: Partial<QueueControl>): Promise<QueueControl> {
+    return (await updateEntry<QueueControl, QueueControl>(
+      CONTROL_KEY,
+      () => ({ paused: false, draining: false }),
+      (control) => Object.assign(control, change)
+    ))!;
+  }
+
+  function updateTenants<R>(
+    mutate: (state: TenantState) => R | undefined
+  ): Promise<R | undefined> {
+    return updateEntry<TenantState, R>(TENANTS_KEY, emptyTenantState, mutate);
+  }
+
+  async function readTenants(): Promise<TenantState> {
+    const entry = await storage.get<TenantState>(TENANTS_KEY);
+    return entry?.value ?? emptyTenantState();
+  }
+
+  function updateLimiter<R>(
+    mutate: (state: LimiterState) => R | undefined
+  ): Promise<R | undefined> {
+    return updateEntry<LimiterState, R>(LIMITER_KEY, emptyLimiterState, mutate);
+  }
+
+  async function readLimiter(): Promise<LimiterState> {
+    const entry = await storage.get<LimiterState>(LIMITER_KEY);
+    return entry?.value ?? emptyLimiterState();
+  }
+
+  // Appends to the lifecycle feed. Each event is its own entry (no shared index
+  // to contend on), and a failure here never fails the queue operation itself.
+  async function recordEvent(
+    type: QueueEventType,
+    taskId?: string,
+    task?: Task
+  ): Promise<void> {
+    const at = Date.now();
+    const event: QueueEvent = {
+      id: `${eventCursor(at)}-${Math.random().toString(36).substring(2, 9)}`,
+      type,
+      at,
+      taskId,
+      task,
+    };
+    try {
+      await storage.set(
+        `${EVENT_PREFIX}${Math.floor(at / EVENT_BUCKET_MS)}/${event.id}`,
+        event,
+        { onlyIfNew: true }
+      );
+    } catch (error) {
+      console.error(`Failed to record ${type} event for ${taskId ?? "queue"}:`, error);
+    }
+  }
+
+  // Appends to the task's own event log. One entry per task, so the only
+  // writers that contend are the ones already contending on the task. Like
+  // recordEvent, a failure here never fails the queue operation itself.
+  async function logTaskEvent(
+    taskId: string,
+    event: Omit<TaskEvent, "at">
+  ): Promise<void> {
+    try {
+      await updateEntry<TaskEvent[], true>(
+        `${TASK_EVENTS_PREFIX}${taskId}`,
+        () => [],
+        (events) => {
+          // A waiting task can be refused again and again - log that once
+          const last = events[events.length - 1];
+          if (
+            event.type === "rate-limited" &&
+            last?.type === "rate-limited" &&
+            last.retryAt === event.retryAt
+          ) {
+            return undefined;
+          }
+          events.push({ ...event, at: Date.now() });
+          events.splice(0, Math.max(0, events.length - MAX_TASK_EVENTS));
+          return true;
+        }
+      );
+    } catch (error) {
+      console.error(`Failed to log ${event.type} for task ${taskId}:`, error);
+    }
+  }
+
+  // Adds to this minute's metrics. Like recordEvent, a failure here never fails
+  // the queue operation itself.
+  async function recordMetrics(update: (bucket: MetricsBucket) => void): Promise<void> {
+    const minute = Math.floor(Date.now() / METRICS_BUCKET_MS) * METRICS_BUCKET_MS;
+    const shard = Math.floor(Math.random() * METRICS_SHARDS);
+    try {
+      await updateEntry<MetricsBucket, true>(
+        `${METRICS_PREFIX}${minute / METRICS_BUCKET_MS}/${shard}`,
+        () => emptyMetricsBucket(minute),
+        (bucket) => {
+          update(bucket);
+          return true;
+        }
+      );
+    } catch (error) {
+      console.error("Failed to record metrics:", error);
+    }
+  }
+
+  // Give back a limiter slot reserved for a task we ended up not starting
+  async function refundLimiterSlot(workerId: string, startedAt: number): Promise<void> {
+    const settings = await limiterSettings();
+    await updateLimiter((state) => {
+      refund(settings, state, workerId, startedAt);
+      return true;
+    });
+  }
+
+  // Frees the worker's concurrency slot once its task has left `processing`
+  async function releaseLimiterSlot(workerId: string): Promise<void> {
+    await updateLimiter((state) => release(state, workerId) || undefined);
+  }
+
+  // Tasks each tenant has waiting - queued, retrying, scheduled or blocked
+  async function waitingCounts(): Promise<Record<string, number>> {
+    const [lanes, { items: retries }, { items: scheduled }, { items: blocked }] =
+      await Promise.all([
+        readLanes(),
+        readIndex<RetryEntry>(RETRYING_KEY),
+        readIndex<ScheduledEntry>(SCHEDULED_KEY),
+        readIndex<BlockedEntry>(BLOCKED_KEY),
+      ]);
+    const counts: Record<string, number> = {};
+    for (const entry of [
+      ...PRIORITIES.flatMap((priority) => lanes[priority]),
+      ...retries,
+      ...scheduled,
+      ...blocked,
+    ]) {
+      counts[tenantOf(entry)] = (counts[tenantOf(entry)] ?? 0) + 1;
+    }
+    return counts;
+  }
+
+  // When a tenant over its queue quota should try again: once it can start a
+  // task (its own start quota, then the limiter), as best we can tell
+  async function quotaRetryAt(tenant: string): Promise<number> {
+    const now = Date.now();
+    const [settings, state, limiter] = await Promise.all([
+      tenantSettings(),
+      readTenants(),
+      Promise.all([limiterSettings(), readLimiter()]).then(([settings, state]) =>
+        limiterStatus(settings, state, now)
+      ),
+    ]);
+    return (
+      startAllowedAt(settings, state, tenant, now) ??
+      limiter.resetAt ??
+      now + QUOTA_RETRY_MS
+    );
+  }
+
+  // The key's record, unless it has expired or its task no longer exists. A
+  // record whose task isn't there yet may belong to an enqueue still in
+  // progress, so that's waited on until IDEMPOTENCY_PENDING_MS after it was made.
+  async function liveIdempotencyRecord(recordKey: string) {
+    for (;;) {
+      const entry = await storage.get<IdempotencyRecord>(recordKey);
+      const now = Date.now();
+      if (!entry || entry.value.expiresAt <= now) {
+        return { entry, record: null };
+      }
+      if (await getTask(entry.value.taskId)) {
+        return { entry, record: entry.value };
+      }
+      if (entry.value.createdAt + IDEMPOTENCY_PENDING_MS <= now) {
+        return { entry, record: null };
+      }
+      await new Promise((resolve) => setTimeout(resolve, IDEMPOTENCY_POLL_MS));
+    }
+  }
+
+  // Points the key at `taskId`, before that task is written. If another
+  // request holds it, returns that request's record instead.
+  async function reserveIdempotencyKey(
+    recordKey: string,
+    fingerprint: string,
+    taskId: string
+  ): Promise<IdempotencyRecord | null> {
+    for (let attempt = 1; attempt <= MAX_WRITE_ATTEMPTS; attempt++) {
+      const { entry, record } = await liveIdempotencyRecord(recordKey);
+      if (record) {
+        return record;
+      }
+      const now = Date.now();
+      const written = await storage.set(
+        recordKey,
+        { taskId, fingerprint, createdAt: now, expiresAt: now + idempotencyTtlMs },
+        entry ? { onlyIfMatch: entry.etag } : { onlyIfNew: true }
+      );
+      if (written) {
+        return null;
+      }
+    }
+    throw new Error(
+      `Idempotency key write conflict on ${recordKey}: gave up after ${MAX_WRITE_ATTEMPTS} attempts`
+    );
+  }
+
+  // Once the task a reservation was for is written: re-points the key if
+  // createTaskEntry() had to pick another ID. Returns the record of the
+  // request that took the key over (ours took too long), if one did.
+  async function confirmIdempotencyKey(
+    recordKey: string,
+    reservedId: string,
+    taskId: string
+  ): Promise<IdempotencyRecord | null> {
+    const entry = await storage.get<IdempotencyRecord>(recordKey);
+    if (!entry) {
+      return null;
+    }
+    if (entry.value.taskId !== reservedId) {
+      return entry.value;
+    }
+    if (
+      taskId !== reservedId &&
+      !(await storage.set(recordKey, { ...entry.value, taskId }, { onlyIfMatch: entry.etag }))
+    ) {
+      throw new Error(`Idempotency key ${recordKey} changed while its task was written`);
+    }
+    return null;
+  }
+
+  // What a repeat of the request that created `record` gets back
+  async function replayEnqueue(
+    record: IdempotencyRecord,
+    fingerprint: string
+  ): Promise<EnqueueResult> {
+    const task = await getTask(record.taskId);
+    if (record.fingerprint !== fingerprint || !task) {
+      return { task: null, reason: "idempotency-conflict", taskId: record.taskId };
+    }
+    return { task, position: await positionOf(task.id), duplicate: true };
+  }
+
+  function newTask({
+    type,
+    data,
+    priority = DEFAULT_PRIORITY,
+    tenant = DEFAULT_TENANT,
+    callback,
+    runAt,
+    dependsOn,
+    idempotency,
+  }: EnqueueInput): Task {
+    const task: Task = {
+      id: generateTaskId(),
+      type,
+      status: "queued",
+      priority,
+      tenant,
+      createdAt: Date.now(),
+      attempts: 0,
+      maxAttempts,
+      reclaims: 0,
+      data,
+      callbackUrl: callback?.url,
+      idempotencyKey: idempotency?.key,
+    };
+    if (runAt !== undefined && runAt > task.createdAt) {
+      task.runAt = runAt;
+    }
+    if (dependsOn && dependsOn.length > 0) {
+      task.dependsOn = dependsOn;
+    }
+    return task;
+  }
+
+  // Writes the task's own entry. `onlyIfNew` doubles as the ID collision check:
+  // if the key is taken we generate a new ID rather than overwrite another task.
+  async function createTaskEntry(task: Task): Promise<void> {
+    for (let attempt = 1; attempt <= 3; attempt++) {
+      if (await storage.set(`${TASK_PREFIX}${task.id}`, task, { onlyIfNew: true })) {
+        return;
+      }
+      // Generate new ID if collision (extremely unlikely)
+      task.id = generateTaskId();
+    }
+    throw new Error("Failed to allocate a unique task ID");
+  }
+
+  // Each task still gets its own entry (written in parallel), but the lanes and
+  // the scheduled index take one update per batch rather than one per task
+  async function enqueueBatch(inputs: EnqueueInput[]): Promise<EnqueueResult[]> {
+    const results: EnqueueResult[] = new Array(inputs.length);
+    const [settings, { draining }] = await Promise.all([tenantSettings(), control()]);
+    let waiting: Record<string, number> | undefined;
+    const quotaRetries: Record<string, number> = {};
+    const dependencies = new Map<string, Task | null>();
+    const accepted: {
+      index: number;
+      task: Task;
+      input: EnqueueInput;
+      recordKey?: string;
+    }[] = [];
+
+    for (const [index, input] of inputs.entries()) {
+      const tenant = input.tenant ?? DEFAULT_TENANT;
+      const recordKey =
+        input.idempotency && idempotencyRecordKey(tenant, input.idempotency.key);
+
+      // A retry of a request we've already taken gets the original task, even
+      // if the tenant has since hit its quota
+      if (input.idempotency && recordKey) {
+        const { record } = await liveIdempotencyRecord(recordKey);
+        if (record) {
+          results[index] = await replayEnqueue(record, input.idempotency.fingerprint);
+          continue;
+        }
+      }
+
+      if (draining) {
+        results[index] = { task: null, reason: "draining" };
+        continue;
+      }
+
+      // Another tenant's task counts as unknown, so its IDs can't be probed
+      const waitingOn: string[] = [];
+      let refusal: EnqueueResult | undefined;
+      for (const parentId of input.dependsOn ?? []) {
+        if (!dependencies.has(parentId)) {
+          dependencies.set(parentId, await getTask(parentId));
+        }
+        const parent = dependencies.get(parentId)!;
+        const outcome = dependencyOutcome(parent);
+        if (outcome === "missing" || tenantOf(parent!) !== tenant) {
+          refusal = { task: null, reason: "unknown-dependency", taskId: parentId };
+          break;
+        }
+        if (outcome === "failed" || outcome === "cancelled") {
+          refusal = { task: null, reason: "dependency-failed", taskId: parentId };
+          break;
+        }
+        if (outcome === null) {
+          waitingOn.push(parentId);
+        }
+      }
+      if (refusal) {
+        results[index] = refusal;
+        continue;
+      }
+
+      // A soft limit: enqueues racing each other can each see the last free slot
+      const { maxQueued } = tenantQuota(settings, tenant);
+      if (maxQueued) {
+        waiting ??= await waitingCounts();
+        if ((waiting[tenant] ?? 0) >= maxQueued) {
+          quotaRetries[tenant] ??= await quotaRetryAt(tenant);
+          results[index] = {
+            task: null,
+            reason: "quota-exceeded",
+            retryAt: quotaRetries[tenant],
+          };
+          continue;
+        }
+        waiting[tenant] = (waiting[tenant] ?? 0) + 1;
+      }
+
+      const task = newTask(input);
+      if (waitingOn.length > 0) {
+        task.waitingOn = waitingOn;
+      }
+      accepted.push({ index, task, input, recordKey });
+    }
+
+    // Task entries first, each after its idempotency key: the key points at
+    // the ID the task is about to get, so a concurrent request with the same
+    // key waits for this task and replays it. The tasks aren't in any index
+    // yet, so nothing sees them until the index updates below.
+    const created: typeof accepted = [];
+    const reserved = new Set<(typeof accepted)[number]>();
+    const replayed = new Set<(typeof accepted)[number]>();
+    let queued: typeof accepted = [];
+    try {
+      await inChunks(accepted, async (item) => {
+        const { idempotency } = item.input;
+        if (idempotency && item.recordKey) {
+          const earlier = await reserveIdempotencyKey(
+            item.recordKey,
+            idempotency.fingerprint,
+            item.task.id
+          );
+          if (earlier) {
+            results[item.index] = await replayEnqueue(earlier, idempotency.fingerprint);
+            replayed.add(item);
+            return;
+          }
+          reserved.add(item);
+        }
+
+        // Before the write: one that lands and then fails is still cleaned up
+        const reservedId = item.task.id;
+        created.push(item);
+        await createTaskEntry(item.task);
+
+        if (idempotency && item.recordKey) {
+          const other = await confirmIdempotencyKey(item.recordKey, reservedId, item.task.id);
+          if (other) {
+            // The key is theirs now - dropping our entry leaves no trace
+            replayed.add(item);
+            await storage.delete(`${TASK_PREFIX}${item.task.id}`);
+            created.splice(created.indexOf(item), 1);
+            results[item.index] = await replayEnqueue(other, idempotency.fingerprint);
+          }
+        }
+      });
+      queued = accepted.filter((item) => !replayed.has(item));
+
+      await saveCallbackSecrets(queued);
+      await indexNewTasks(queued.map(({ task }) => task));
+    } catch (error) {
+      // Don't leave orphaned task entries that no index points to. A key goes
+      // only once its task has: if the task couldn't be deleted, a retry gets
+      // it back rather than creating a second one (and repairIndexes() puts
+      // it in its index).
+      const cleanUp = (key: string) =>
+        storage.delete(key).then(
+          () => true,
+          (cleanupError) => {
+            console.error(`Failed to delete ${key} after a failed enqueue:`, cleanupError);
+            return false;
+          }
+        );
+      await Promise.all(
+        created.map(async (item) => {
+          await cleanUp(`${CALLBACK_SECRET_PREFIX}${item.task.id}`);
+          if (
+            (await cleanUp(`${TASK_PREFIX}${item.task.id}`)) &&
+            reserved.has(item) &&
+            !replayed.has(item)
+          ) {
+            await cleanUp(item.recordKey!);
+          }
+        })
+      );
+      throw error;
+    }
+
+    const lanes = await readLanes();
+    for (const { index, task } of queued) {
+      results[index] = { task, position: positionIn(lanes, task.id) };
+    }
+    await recordEnqueued(queued.map(({ task }) => task));
+
+    // A dependency that finished while we were indexing settled before its
+    // dependents were in index/blocked - settle those now
+    const parentIds = new Set(queued.flatMap(({ task }) => task.waitingOn ?? []));
+    for (const parentId of parentIds) {
+      const outcome = dependencyOutcome(await getTask(parentId));
+      if (outcome) {
+        await settleDependents(parentId, outcome);
+      }
+    }
+    return results;
+  }
+
+  async function saveCallbackSecrets(
+    items: { task: Task; input: { callback?: { secret?: string } } }[]
+  ): Promise<void> {
+    await inChunks(items, async ({ task, input }) => {
+      if (input.callback?.secret) {
+        await storage.set(`${CALLBACK_SECRET_PREFIX}${task.id}`, input.callback.secret);
+      }
+    });
+  }
+
+  // Kept in run order so promotion only scans the head
+  async function addScheduled(tasks: Task[]): Promise<void> {
+    if (tasks.length === 0) {
+      return;
+    }
+    await updateIndex<ScheduledEntry, number>(SCHEDULED_KEY, (entries) => {
+      for (const task of tasks) {
+        const runAt = task.runAt!;
+        const index = entries.findIndex((entry) => entry.runAt > runAt);
+        entries.splice(index === -1 ? entries.length : index, 0, {
+          id: task.id,
+          runAt,
+          priority: task.priority,
+          tenant: task.tenant,
+        });
+      }
+      return entries.length;
+    });
+  }
+
+  // Puts just-created tasks where they wait: blocked ones first (so a
+  // dependency that runs straight away finds its dependents), then scheduled
+  // tasks are parked until runAt, and the rest go on their lanes
+  async function indexNewTasks(tasks: Task[]): Promise<void> {
+    const blocked = tasks.filter((task) => task.waitingOn?.length);
+    if (blocked.length > 0) {
+      await updateIndex<BlockedEntry, number>(BLOCKED_KEY, (entries) =>
+        entries.push(
+          ...blocked.map((task) => ({
+            id: task.id,
+            waitingOn: task.waitingOn!,
+            priority: task.priority ?? DEFAULT_PRIORITY,
+            tenant: tenantOf(task),
+          }))
+        )
+      );
+    }
+    const ready = tasks.filter((task) => !task.waitingOn?.length);
+    await addScheduled(ready.filter((task) => task.runAt !== undefined));
+    await appendToLanes(ready.filter((task) => task.runAt === undefined));
+  }
+
+  async function recordEnqueued(tasks: Task[]): Promise<void> {
+    await inChunks(tasks, async (task) => {
+      await recordEvent("queued", task.id, task);
+      await logTaskEvent(task.id, { type: "enqueued" });
+      if (task.waitingOn?.length) {
+        const count = task.waitingOn.length;
+        await logTaskEvent(task.id, {
+          type: "blocked",
+          reason: `Waiting on ${count} task${count === 1 ? "" : "s"}`,
+        });
+      } else if (task.runAt !== undefined) {
+        await logTaskEvent(task.id, {
+          type: "deferred",
+          reason: "Scheduled for later",
+          retryAt: task.runAt,
+        });
+      }
+    });
+    if (tasks.length > 0) {
+      await recordMetrics((bucket) => {
+        bucket.counts.enqueued += tasks.length;
+      });
+    }
+  }
+
+  async function enqueue(input: EnqueueInput): Promise<EnqueueResult> {
+    return (await enqueueBatch([input]))[0];
+  }
+
+  // Tasks are created a level at a time, so each knows its dependencies' final
+  // IDs. Nothing is in an index until the record and every task exist, and the
+  // tasks that can start right away go in last.
+  async function enqueueWorkflow({
+    name,
+    tenant = DEFAULT_TENANT,
+    steps,
+  }: WorkflowInput): Promise<WorkflowResult> {
+    const order = workflowLevels(steps);
+    if ("error" in order) {
+      throw new Error(`Invalid workflow: ${order.error}`);
+    }
+
+    const [settings, { draining }] = await Promise.all([tenantSettings(), control()]);
+    if (draining) {
+      return { workflow: null, reason: "draining" };
+    }
+    // All or nothing, so the whole workflow has to fit
+    const { maxQueued } = tenantQuota(settings, tenant);
+    if (maxQueued && ((await waitingCounts())[tenant] ?? 0) + steps.length > maxQueued) {
+      return { workflow: null, reason: "quota-exceeded", retryAt: await quotaRetryAt(tenant) };
+    }
+
+    const byKey = new Map(steps.map((step) => [step.key, step]));
+    const tasks = new Map<string, Task>();
+    const record: WorkflowRecord = {
+      id: generateWorkflowId(),
+      name: name ?? null,
+      tenant,
+      createdAt: Date.now(),
+      tasks: [],
+    };
+    try {
+      for (const level of order.levels) {
+        await inChunks(level, async (key) => {
+          const step = byKey.get(key)!;
+          const task = newTask({
+            ...step.input,
+            tenant,
+            dependsOn: step.dependsOn.map((parent) => tasks.get(parent)!.id),
+          });
+          task.workflowId = record.id;
+          if (task.dependsOn) {
+            task.waitingOn = [...task.dependsOn];
+          }
+          // Before the write: one that lands and then fails is still cleaned up
+          tasks.set(key, task);
+          await createTaskEntry(task);
+        });
+      }
+      record.tasks = steps.map(({ key, dependsOn }) => ({
+        key,
+        taskId: tasks.get(key)!.id,
+        dependsOn,
+      }));
+
+      await saveCallbackSecrets(
+        steps.map((step) => ({ task: tasks.get(step.key)!, input: step.input }))
+      );
+      await storage.set(`${WORKFLOW_PREFIX}${record.id}`, record);
+      await indexNewTasks(record.tasks.map(({ key }) => tasks.get(key)!));
+    } catch (error) {
+      // Take back whatever made it into an index, then delete the lot
+      const ids = new Set([...tasks.values()].map((task) => task.id));
+      await Promise.all(
+        [BLOCKED_KEY, SCHEDULED_KEY, ...PRIORITIES.map(laneKey)].map((key) =>
+          updateIndex<{ id: string }, true>(key, (entries) => {
+            const kept = entries.filter((entry) => !ids.has(entry.id));
+            if (kept.length === entries.length) {
+              return undefined;
+            }
+            entries.splice(0, entries.length, ...kept);
+            return true;
+          }).catch(() => {})
+        )
+      );
+      await Promise.all(
+        [
+          ...[...ids].flatMap((id) => [
+            `${TASK_PREFIX}${id}`,
+            `${CALLBACK_SECRET_PREFIX}${id}`,
+          ]),
+          `${WORKFLOW_PREFIX}${record.id}`,
+        ].map((key) => storage.delete(key).catch(() => {}))
+      );
+      throw error;
+    }
+
+    const created = record.tasks.map(({ key }) => tasks.get(key)!);
+    await recordEnqueued(created);
+    return { workflow: describeWorkflow(record, created) };
+  }
+
+  async function workflow(workflowId: string): Promise<WorkflowDetails | null> {
+    const entry = await storage.get<WorkflowRecord>(`${WORKFLOW_PREFIX}${workflowId}`);
+    if (!entry) {
+      return null;
+    }
+    const tasks = await Promise.all(
+      entry.value.tasks.map(({ taskId }) => getTask(taskId))
+    );
+    return describeWorkflow(entry.value, tasks);
+  }
+
+  // Moves entries whose time has come from a waiting index (retrying or
+  // scheduled) to the back of their lane. Removing them from the waiting index
+  // first means only one worker promotes each.
+  async function promoteDue<E extends { id: string; priority?: TaskPriority }>(
+    key: string,
+    dueAt: (entry: E) => number
+  ): Promise<E[]> {
+    const due = await updateIndex<E, E[]>(key, (entries) => {
+      const now = Date.now();
+      const ready = entries.filter((entry) => dueAt(entry) <= now);
+      if (ready.length === 0) {
+        return undefined;
+      }
+      entries.splice(
+        0,
+        entries.length,
+        ...entries.filter((entry) => dueAt(entry) > now)
+      );
+      return ready;
+    });
+
+    if (due) {
+      await appendToLanes(due);
+    }
+    return due ?? [];
+  }
+
+  async function promoteDueTasks(): Promise<number> {
+    // Scheduled first: they've usually been waiting longer than a retry's backoff
+    const scheduled = await promoteDue<ScheduledEntry>(
+      SCHEDULED_KEY,
+      (entry) => entry.runAt
+    );
+    const retries = await promoteDue<RetryEntry>(
+      RETRYING_KEY,
+      (entry) => entry.retryAt
+    );
+    await inChunks(retries, (entry) =>
+      logTaskEvent(entry.id, { type: "retried", reason: "Backoff elapsed" })
+    );
+    return scheduled.length + retries.length;
+  }
+
+  // runAt/retryAt of everything in the waiting indexes, due or not
+  async function waitingTimes(): Promise<number[]> {
+    const [{ items: scheduled }, { items: retries }] = await Promise.all([
+      readIndex<ScheduledEntry>(SCHEDULED_KEY),
+      readIndex<RetryEntry>(RETRYING_KEY),
+    ]);
+    return [
+      ...scheduled.map((entry) => entry.runAt),
+      ...retries.map((entry) => entry.retryAt),
+    ];
+  }
+
+  async function nextDueAt(): Promise<number | null> {
+    const now = Date.now();
+    const upcoming = (await waitingTimes()).filter((at) => at > now);
+    return upcoming.length > 0 ? Math.min(...upcoming) : null;
+  }
+
+  async function claim(workerId: string): Promise<ClaimResult> {
+    if ((await control()).paused) {
+      return { task: null, reason: "paused" };
+    }
+
+    await promoteDueTasks();
+
+    // Cheap check before touching the rate limit
+    const lanes = await readLanes();
+    if (PRIORITIES.every((priority) => lanes[priority].length === 0)) {
+      return { task: null, reason: "empty" };
+    }
+
+    // Reserve a start from every limiter policy (window, bucket, concurrency).
+    // The check and the reservation are one compare-and-swap, so two workers
+    // can't both take the last slot. A refusal aborts the write.
+    const settings = await limiterSettings();
+    let refusal: number | null = null;
+    const slot = await updateLimiter((state) => {
+      const now = Date.now();
+      // The concurrency slot lapses with the lease unless heartbeats extend it
+      const result = acquire(settings, state, workerId, now, now + leaseMs);
+      if (!result.allowed) {
+        refusal = result.retryAt;
+        return undefined;
+      }
+      return result;
+    });
+
+    if (!slot) {
+      await recordMetrics((bucket) => {
+        bucket.counts.rateLimited += 1;
+      });
+      // Log it against the task that was next in line
+      const head = lanes[pickLane(lanes, drain, Date.now())!][0];
+      await logTaskEvent(head.id, {
+        type: "rate-limited",
+        workerId,
+        reason: "Rate limit reached",
+        retryAt: refusal ?? undefined,
+      });
+      return { task: null, reason: "rate-limited", retryAt: refusal };
+    }
+
+    // Anything short of starting a task - a failed write included - gives
+    // the reserved start back
+    let result: ClaimResult | null = null;
+    try {
+      result = await startNext(workerId, slot.startedAt);
+    } finally {
+      if (!result?.task) {
+        await refundLimiterSlot(workerId, slot.startedAt);
+      }
+    }
+    // It skipped a task that was cancelled or had moved on - try the next
+    return result ?? claim(workerId);
+  }
+
+  // The rest of claim(), once the limiter has allowed a start at `startedAt`.
+  // Null if the task it took turned out not to be startable.
+  async function startNext(workerId: string, startedAt: number): Promise<ClaimResult | null> {
+    // Whoever successfully takes the ID off a lane owns the task. It's in the
+    // processing index from here on, before its status says so.
+    const next = await takeNext();
+
+    if (!next) {
+      // Another worker drained the queue since our first read
+      return { task: null, reason: "empty" };
+    }
+    if ("retryAt" in next) {
+      // Every tenant with work waiting has used up its start quota
+      return { task: null, reason: "rate-limited", retryAt: next.retryAt };
+    }
+
+    const taskId = next.id;
+
+    // Move task to processing, leased to this worker - unless cancel() flagged
+    // it while it was on its way here. A lane entry left behind by a failed
+    // write (the task has since moved on) is skipped.
+    let eligibleAt: number | null = null;
+    const task = await updateTask(taskId, (task) => {
+      const now = Date.now();
+      if (task.status !== "queued" || task.waitingOn?.length) {
+        return undefined;
+      }
+      if (task.cancelRequestedAt) {
+        markCancelled(task, now);
+        return task;
+      }
+      // Wait time is only measured to the first start (retries wait on backoff)
+      eligibleAt = task.attempts === 0 ? task.runAt ?? task.createdAt : null;
+      task.status = "processing";
+      task.startedAt = startedAt;
+      task.attempts += 1;
+      task.workerId = workerId;
+      task.leaseExpiresAt = now + leaseMs;
+      delete task.retryAt;
+      delete task.runAt;
+      return task;
+    });
+
+    if (!task || task.status === "cancelled") {
+      if (task) {
+        await recordCancelled(task, "Cancel requested before it started");
+        await removeFromIndex(PROCESSING_KEY, taskId);
+      } else {
+        const current = await getTask(taskId);
+        if (current?.status !== "processing") {
+          await removeFromIndex(PROCESSING_KEY, taskId);
+        }
+        if (!current) {
+          // Dangling ID (e.g. the queue was cleared mid-enqueue) - skip it
+          console.error(`Task ${taskId} not found`);
+        }
+      }
+      return null;
+    }
+
+    await recordEvent("started", taskId, task);
+    await logTaskEvent(taskId, { type: "claimed", workerId, attempt: task.attempts });
+    await recordMetrics((bucket) => {
+      bucket.counts.started += 1;
+      if (eligibleAt !== null) {
+        observe(bucket.waitMs, startedAt - eligibleAt);
+      }
+    });
+
+    return { task };
+  }
+
+  async function heartbeat(taskId: string, workerId: string): Promise<boolean> {
+    const renewed = await updateTask(taskId, (task) => {
+      const now = Date.now();
+      if (!holdsLease(task, workerId, now)) {
+        return undefined;
+      }
+      task.leaseExpiresAt = now + leaseMs;
+      return task.leaseExpiresAt;
+    });
+    if (renewed === undefined) {
+      return false;
+    }
+    // The concurrency slot lasts as long as the lease
+    await updateLimiter((state) => extend(state, workerId, renewed) || undefined);
+    return true;
+  }
+
+  async function complete(
+    taskId: string,
+    workerId: string,
+    result?: unknown
+  ): Promise<Task | null> {
+    const task = await updateTask(taskId, (task) => {
+      const now = Date.now();
+      if (!holdsLease(task, workerId, now)) {
+        return undefined;
+      }
+      task.status = "completed";
+      task.completedAt = now;
+      task.result = result;
+      delete task.error;
+      delete task.leaseExpiresAt;
+      return task;
+    });
+    if (!task) {
+      return null;
+    }
+
+    // Slot first: nothing else frees it as soon. Then the completed index
+    // before the processing one, so the task is never in neither.
+    await releaseLimiterSlot(workerId);
+    await appendToIndex(COMPLETED_KEY, taskId);
+    await removeFromIndex(PROCESSING_KEY, taskId);
+    await recordEvent("completed", taskId, task);
+    await logTaskEvent(taskId, { type: "completed", workerId, attempt: task.attempts });
+    await recordMetrics((bucket) => {
+      bucket.counts.completed += 1;
+      if (task.startedAt !== undefined && task.completedAt !== undefined) {
+        observe(bucket.runMs, task.completedAt - task.startedAt);
+      }
+    });
+    await settleDependents(taskId, "completed");
+    return task;
+  }
+
+  // Exponential backoff: retryBaseMs, 2x, 4x, ... capped at 10 minutes
+  function retryDelay(attempts: number): number {
+    return Math.min(MAX_RETRY_DELAY_MS, retryBaseMs * 2 ** (attempts - 1));
+  }
+
+  // Records a failed attempt on the task: back to "queued" with a retryAt if
+  // attempts are left (parked in the retry index until the backoff elapses),
+  // otherwise "failed" for the dead-letter queue
+  function applyFailure(task: Task, error: string, now: number): FailResult {
+    task.error = error;
+    delete task.leaseExpiresAt;
+
+    if (task.attempts < task.maxAttempts) {
+      const retryAt = now + retryDelay(task.attempts);
+      task.status = "queued";
+      task.retryAt = retryAt;
+      return { task, deadLettered: false, retryAt };
+    }
+
+    task.status = "failed";
+    task.failedAt = now;
+    return { task, deadLettered: true };
+  }
+
+  function addRetrying(task: Task, retryAt: number) {
+    const { id, priority, tenant } = task;
+    return updateIndex<RetryEntry, number>(RETRYING_KEY, (entries) =>
+      entries.some((entry) => entry.id === id)
+        ? undefined
+        : entries.push({ id, retryAt, priority, tenant })
+    );
+  }
+
+  // Moves a failed task from the processing index to the retry or dead-letter
+  // index - adding it to the new one first, so a failed write can't leave it in neither
+  async function moveFailedTask(result: FailResult, workerId: string): Promise<void> {
+    const taskId = result.task.id;
+    if (result.deadLettered) {
+      await appendToIndex(DEAD_LETTER_KEY, taskId);
+    } else {
+      await addRetrying(result.task, result.retryAt);
+    }
+    await removeFromIndex(PROCESSING_KEY, taskId);
+    await recordEvent("failed", taskId, result.task);
+    await logTaskEvent(taskId, {
+      type: "failed",
+      workerId,
+      attempt: result.task.attempts,
+      reason: result.task.error,
+      retryAt: result.deadLettered ? undefined : result.retryAt,
+    });
+    await recordMetrics((bucket) => {
+      bucket.counts.failed += 1;
+      if (result.deadLettered) {
+        bucket.counts.deadLettered += 1;
+      }
+    });
+    if (result.deadLettered) {
+      await settleDependents(taskId, "failed");
+    }
+  }
+
+  async function fail(
+    taskId: string,
+    workerId: string,
+    error: string
+  ): Promise<FailResult | null> {
+    const result = await updateTask(taskId, (task) => {
+      const now = Date.now();
+      return holdsLease(task, workerId, now)
+        ? applyFailure(task, error, now)
+        : undefined;
+    });
+    if (!result) {
+      return null;
+    }
+
+    await releaseLimiterSlot(workerId);
+    await moveFailedTask(result, workerId);
+    return result;
+  }
+
+  // Goes by the task records rather than the processing index, so a task a
+  // failed write left out of the index is still reclaimed
+  async function reclaimExpired(): Promise<ReclaimResult> {
+    const [{ items: processingIds }, tasks] = await Promise.all([
+      readIndex<string>(PROCESSING_KEY),
+      unfinishedTasks(),
+    ]);
+    const reclaimed: ReclaimResult = {
+      requeued: [],
+      deadLettered: [],
+      cancelled: [],
+      releasedSlots: [],
+    };
+    const now = Date.now();
+    const expired = tasks
+      .map(({ value: task }) => task)
+      .filter((task) => task.status === "processing" && (task.leaseExpiresAt ?? 0) <= now)
+      .map((task) => task.id);
+    const scanned = new Set(tasks.map(({ value: task }) => task.id));
+    const leaseHolders = new Set(
+      tasks
+        .map(({ value: task }) => task)
+        .filter((task) => task.status === "processing" && (task.leaseExpiresAt ?? 0) > now)
+        .map((task) => task.workerId)
+    );
+
+    for (const taskId of processingIds) {
+      if (!scanned.has(taskId) && !(await getTask(taskId))) {
+        // Dangling ID (e.g. the queue was cleared mid-claim) - drop it
+        await removeFromIndex(PROCESSING_KEY, taskId);
+      }
+    }
+
+    for (const taskId of expired) {
+      let worker = "unknown";
+      const result = await updateTask<Reclaimed>(taskId, (task) => {
+        const now = Date.now();
+        // Tasks claimed before leases existed have no expiry - reclaim those too
+        if (task.status !== "processing" || (task.leaseExpiresAt ?? 0) > now) {
+          return undefined;
+        }
+        worker = task.workerId ?? "unknown";
+        task.reclaims = (task.reclaims ?? 0) + 1;
+        delete task.workerId;
+        // It was asked to stop anyway - it did, just not cleanly
+        if (task.cancelRequestedAt) {
+          markCancelled(task, now);
+          return { task, cancelled: true };
+        }
+        return applyFailure(
+          task,
+          `Lease expired: worker ${worker} stopped heartbeating`,
+          now
+        );
+      });
+
+      if (result && "cancelled" in result) {
+        await releaseLimiterSlot(worker);
+        await recordCancelled(
+          result.task,
+          `Lease expired after a cancel request: worker ${worker} stopped heartbeating`,
+          worker
+        );
+        await removeFromIndex(PROCESSING_KEY, taskId);
+        reclaimed.cancelled.push(result.task);
+      } else if (result) {
+        await releaseLimiterSlot(worker);
+        await moveFailedTask(result, worker);
+        if (result.deadLettered) {
+          reclaimed.deadLettered.push(result);
+        } else {
+          reclaimed.requeued.push(result);
+        }
+      }
+    }
+
+    // A worker that died (or failed to write) before releasing its slot -
+    // the slot would lapse with its lease, but this frees it sooner
+    reclaimed.releasedSlots =
+      (await updateLimiter((state) => {
+        const dropped = releaseUnless(
+          state,
+          (slot) =>
+            typeof slot === "string"
+              ? leaseHolders.has(slot)
+              : leaseHolders.has(slot.holder) ||
+                slot.expiresAt - leaseMs > now - SLOT_CLAIM_GRACE_MS,
+          Date.now()
+        );
+        return dropped.length > 0 ? dropped : undefined;
+      })) ?? [];
+
+    return reclaimed;
+  }
+
+  // Every task not in the completed, dead-letter or cancelled index (unless
+  // it's still in the processing index too), with its ETag. Finished tasks are
+  // most of the store and are left alone once indexed.
+  async function unfinishedTasks(): Promise<StoredEntry<Task>[]> {
+    const [keys, { items: processingIds }, ...finished] = await Promise.all([
+      storage.list(TASK_PREFIX),
+      readIndex<string>(PROCESSING_KEY),
+      ...[COMPLETED_KEY, DEAD_LETTER_KEY, CANCELLED_KEY].map((key) =>
+        readIndex<string>(key)
+      ),
+    ]);
+    const processing = new Set(processingIds);
+    const finishedIds = new Set(
+      finished.flatMap((index) => index.items).filter((id) => !processing.has(id))
+    );
+    const entries: StoredEntry<Task>[] = [];
+    await inChunks(
+      keys.filter((key) => !finishedIds.has(key.slice(TASK_PREFIX.length))),
+      async (key) => {
+        const entry = await storage.get<Task>(key);
+        if (entry) {
+          entries.push(entry);
+        }
+      }
+    );
+    return entries;
+  }
+
+  // Adds the task to the index its status puts it in
+  async function indexTask(task: Task): Promise<void> {
+    if (task.status === "processing") {
+      await appendToIndex(PROCESSING_KEY, task.id);
+    } else if (task.status === "completed") {
+      await appendToIndex(COMPLETED_KEY, task.id);
+    } else if (task.status === "failed") {
+      await appendToIndex(DEAD_LETTER_KEY, task.id);
+    } else if (task.status === "cancelled") {
+      await appendToIndex(CANCELLED_KEY, task.id);
+    } else if (task.waitingOn?.length) {
+      await updateIndex<BlockedEntry, number>(BLOCKED_KEY, (entries) =>
+        entries.some((entry) => entry.id === task.id)
+          ? undefined
+          : entries.push({
+              id: task.id,
+              waitingOn: task.waitingOn!,
+              priority: task.priority ?? DEFAULT_PRIORITY,
+              tenant: tenantOf(task),
+            })
+      );
+    } else if (task.runAt !== undefined) {
+      await addScheduled([task]);
+    } else if (task.retryAt !== undefined) {
+      // Promoted to its lane as soon as it's due
+      await addRetrying(task, task.retryAt);
+    } else {
+      await appendToLanes([task]);
+    }
+  }
+
+  // Each state change writes the task and its indexes separately, so a write
+  // that fails in between leaves them disagreeing. Anything that disagrees is
+  // only noted on the first pass - it may just be mid-change - and repaired on
+  // the next if it's still out of place and the task hasn't been written since.
+  async function repairIndexes(): Promise<string[]> {
+    const [tasks, lanes, indexes, previous] = await Promise.all([
+      unfinishedTasks(),
+      readLanes(),
+      Promise.all(
+        [
+          PROCESSING_KEY,
+          RETRYING_KEY,
+          SCHEDULED_KEY,
+          BLOCKED_KEY,
+          COMPLETED_KEY,
+          DEAD_LETTER_KEY,
+          CANCELLED_KEY,
+        ].map((key) =>
+          readIndex<string | { id: string }>(key).then(({ items }) => [
+            key,
+            new Set(items.map((item) => (typeof item === "string" ? item : item.id))),
+          ] as const)
+        )
+      ).then((entries) => new Map(entries)),
+      storage.get<RepairSuspects>(REPAIR_KEY).then((entry) => entry?.value ?? {}),
+    ]);
+    const indexed = (key: string, id: string) => indexes.get(key)!.has(id);
+    const waiting = (id: string) =>
+      PRIORITIES.some((priority) => lanes[priority].some((entry) => entry.id === id)) ||
+      [RETRYING_KEY, SCHEDULED_KEY, BLOCKED_KEY].some((key) => indexed(key, id));
+
+    const suspects: RepairSuspects = {};
+    const repaired: string[] = [];
+    for (const { value: task, etag } of tasks) {
+      const missing =
+        task.status === "queued"
+          ? !waiting(task.id)
+          : !indexed(
+              {
+                processing: PROCESSING_KEY,
+                completed: COMPLETED_KEY,
+                failed: DEAD_LETTER_KEY,
+                cancelled: CANCELLED_KEY,
+              }[task.status],
+              task.id
+            );
+      const dangling = task.status !== "processing" && indexed(PROCESSING_KEY, task.id);
+      if (!missing && !dangling) {
+        continue;
+      }
+      // Listing a processing task as processing is always safe - and its
+      // heartbeats keep changing its ETag, so it would never be seen twice
+      if (task.status !== "processing" && previous[task.id] !== etag) {
+        suspects[task.id] = etag;
+        continue;
+      }
+
+      if (dangling) {
+        await removeFromIndex(PROCESSING_KEY, task.id);
+      }
+      if (missing) {
+        await indexTask(task);
+      }
+      repaired.push(task.id);
+    }
+
+    await storage.set(REPAIR_KEY, suspects);
+    return repaired;
+  }
+
+  function markCancelled(task: Task, now: number): void {
+    task.status = "cancelled";
+    task.cancelledAt = now;
+    task.cancelRequestedAt ??= now;
+    delete task.leaseExpiresAt;
+    delete task.retryAt;
+    delete task.runAt;
+    delete task.waitingOn;
+  }
+
+  // Its dependents are cancelled too (see settleDependents)
+  async function recordCancelled(
+    task: Task,
+    reason: string,
+    workerId?: string
+  ): Promise<void> {
+    await appendToIndex(CANCELLED_KEY, task.id);
+    await recordEvent("cancelled", task.id, task);
+    await logTaskEvent(task.id, { type: "cancelled", workerId, reason });
+    await recordMetrics((bucket) => {
+      bucket.counts.cancelled += 1;
+    });
+    await settleDependents(task.id, "cancelled");
+  }
+
+  // A dependency has finished (or gone): takes it off what its dependents in
+  // index/blocked wait on. If it completed, the ones with nothing left to wait
+  // on are released; otherwise they're all cancelled, and so are theirs in
+  // turn. Returns how many were released or cancelled.
+  async function settleDependents(
+    parentId: string,
+    outcome: DependencyOutcome
+  ): Promise<number> {
+    const settled = await updateIndex<
+      BlockedEntry,
+      { released: BlockedEntry[]; cancelled: BlockedEntry[]; waiting: BlockedEntry[] }
+    >(BLOCKED_KEY, (entries) => {
+      const affected = entries.filter((entry) => entry.waitingOn.includes(parentId));
+      if (affected.length === 0) {
+        return undefined;
+      }
+      const settled = {
+        released: [] as BlockedEntry[],
+        cancelled: [] as BlockedEntry[],
+        waiting: [] as BlockedEntry[],
+      };
+      for (const entry of affected) {
+        entry.waitingOn = entry.waitingOn.filter((id) => id !== parentId);
+        if (outcome !== "completed") {
+          settled.cancelled.push(entry);
+        } else {
+          (entry.waitingOn.length > 0 ? settled.waiting : settled.released).push(entry);
+        }
+      }
+      const leaving = new Set([...settled.released, ...settled.cancelled]);
+      entries.splice(0, entries.length, ...entries.filter((entry) => !leaving.has(entry)));
+      return settled;
+    });
+    if (!settled) {
+      return 0;
+    }
+
+    await inChunks(settled.waiting, (entry) =>
+      updateTask(entry.id, (task) => {
+        if (!task.waitingOn) {
+          return undefined;
+        }
+        task.waitingOn = task.waitingOn.filter((id) => id !== parentId);
+        return true;
+      })
+    );
+    await releaseBlocked(settled.released);
+    for (const entry of settled.cancelled) {
+      await cancelDependent(entry.id, parentId, outcome);
+    }
+    return settled.released.length + settled.cancelled.length;
+  }
+
+  // Off index/blocked already: on to the lane, or the scheduled index if the
+  // task's runAt is still ahead
+  async function releaseBlocked(entries: BlockedEntry[]): Promise<void> {
+    const released: Task[] = [];
+    await inChunks(entries, async (entry) => {
+      const task = await updateTask(entry.id, (task) => {
+        if (task.status !== "queued") {
+          return undefined;
+        }
+        delete task.waitingOn;
+        if (task.runAt !== undefined && task.runAt <= Date.now()) {
+          delete task.runAt;
+        }
+        return task;
+      });
+      if (task) {
+        released.push(task);
+      }
+    });
+    await addScheduled(released.filter((task) => task.runAt !== undefined));
+    await appendToLanes(released.filter((task) => task.runAt === undefined));
+    await inChunks(released, async (task) => {
+      await recordEvent("queued", task.id, task);
+      await logTaskEvent(task.id, { type: "unblocked", reason: "Dependencies completed" });
+    });
+  }
+
+  async function cancelDependent(
+    taskId: string,
+    parentId: string,
+    outcome: DependencyOutcome
+  ): Promise<void> {
+    const reason =
+      outcome === "failed"
+        ? `Dependency ${parentId} was dead-lettered`
+        : outcome === "cancelled"
+        ? `Dependency ${parentId} was cancelled`
+        : `Dependency ${parentId} no longer exists`;
+    const task = await updateTask(taskId, (task) => {
+      if (task.status !== "queued") {
+        return undefined;
+      }
+      markCancelled(task, Date.now());
+      task.error = reason;
+      return task;
+    });
+    if (task) {
+      await recordCancelled(task, reason);
+      await options.onDependentCancelled?.(task);
+    }
+  }
+
+  async function settleBlockedTasks(): Promise<number> {
+    const { items: entries } = await readIndex<BlockedEntry>(BLOCKED_KEY);
+    const finished: [string, DependencyOutcome][] = [];
+    await inChunks([...new Set(entries.flatMap((entry) => entry.waitingOn))], async (id) => {
+      const outcome = dependencyOutcome(await getTask(id));
+      if (outcome) {
+        finished.push([id, outcome]);
+      }
+    });
+    let settled = 0;
+    for (const [parentId, outcome] of finished) {
+      settled += await settleDependents(parentId, outcome);
+    }
+    return settled;
+  }
+
+  // Finds and takes the task's entry from whichever waiting index holds it
+  async function takeWaitingEntry(task: Task): Promise<boolean> {
+    if (task.waitingOn?.length) {
+      return (await takeEntry<BlockedEntry>(BLOCKED_KEY, task.id)) !== undefined;
+    }
+    if (task.runAt !== undefined) {
+      return (await takeEntry<ScheduledEntry>(SCHEDULED_KEY, task.id)) !== undefined;
+    }
+    if (task.retryAt !== undefined) {
+      return (await takeEntry<RetryEntry>(RETRYING_KEY, task.id)) !== undefined;
+    }
+    for (const priority of PRIORITIES) {
+      if (await takeEntry<LaneEntry>(laneKey(priority), task.id)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  async function cancel(taskId: string): Promise<TaskActionResult> {
+    const task = await getTask(taskId);
+    if (!task) {
+      return { task: null, reason: "not-found" };
+    }
+    if (task.status !== "queued" && task.status !== "processing") {
+      return { task: null, reason: "wrong-status", current: task };
+    }
+
+    if (task.status === "queued" && (await takeWaitingEntry(task))) {
+      // Off its index, so no worker can claim it any more
+      const cancelled = await updateTask(taskId, (task) => {
+        markCancelled(task, Date.now());
+        return task;
+      });
+      if (!cancelled) {
+        return { task: null, reason: "not-found" };
+      }
+      await recordCancelled(cancelled, "Cancelled while waiting");
+      return { task: cancelled };
+    }
+
+    // Running, or between indexes (being claimed or promoted): flag it, and
+    // the worker - or claim() - stops it
+    const flagged = await updateTask(taskId, (task) => {
+      if (task.status !== "queued" && task.status !== "processing") {
+        return undefined;
+      }
+      task.cancelRequestedAt ??= Date.now();
+      return task;
+    });
+    if (!flagged) {
+      const current = await getTask(taskId);
+      return current
+        ? { task: null, reason: "wrong-status", current }
+        : { task: null, reason: "not-found" };
+    }
+    await recordEvent("cancel-requested", taskId, flagged);
+    await logTaskEvent(taskId, {
+      type: "cancel-requested",
+      workerId: flagged.status === "processing" ? flagged.workerId : undefined,
+    });
+    return { task: flagged };
+  }
+
+  async function acknowledgeCancel(taskId: string, workerId: string): Promise<Task | null> {
+    const task = await updateTask(taskId, (task) => {
+      const now = Date.now();
+      if (!holdsLease(task, workerId, now)) {
+        return undefined;
+      }
+      markCancelled(task, now);
+      return task;
+    });
+    if (!task) {
+      return null;
+    }
+
+    await releaseLimiterSlot(workerId);
+    await recordCancelled(task, "Handler stopped", workerId);
+    await removeFromIndex(PROCESSING_KEY, taskId);
+    return task;
+  }
+
+  async function requeue(taskId: string): Promise<TaskActionResult> {
+    const task = await getTask(taskId);
+    if (!task) {
+      return { task: null, reason: "not-found" };
+    }
+
+    // A finished task waits again for the dependencies that haven't completed
+    // (they may have been requeued too), unless one has failed for good
+    const finished = task.status !== "queued" && task.status !== "processing";
+    const waitingOn: string[] = [];
+    if (finished && task.dependsOn?.length) {
+      const parents = await Promise.all(task.dependsOn.map((id) => getTask(id)));
+      for (const [index, parent] of parents.entries()) {
+        const outcome = dependencyOutcome(parent);
+        if (outcome === null) {
+          waitingOn.push(task.dependsOn[index]);
+        } else if (outcome !== "completed") {
+          return { task: null, reason: "dependency-failed", taskId: task.dependsOn[index] };
+        }
+      }
+    }
+
+    let taken = false;
+    if (task.status === "failed") {
+      taken = (await takeDeadLetter([taskId])).length > 0;
+    } else if (task.status === "completed" || task.status === "cancelled") {
+      taken =
+        (await removeFromIndex(
+          task.status === "completed" ? COMPLETED_KEY : CANCELLED_KEY,
+          taskId
+        )) ?? false;
+    } else if (
+      // Not a blocked one: it still has to wait for its dependencies
+      task.status === "queued" &&
+      !task.waitingOn?.length &&
+      (task.runAt !== undefined || task.retryAt !== undefined)
+    ) {
+      taken = await takeWaitingEntry(task);
+    }
+    if (!taken) {
+      return { task: null, reason: "wrong-status", current: (await getTask(taskId)) ?? task };
+    }
+
+    // Fresh set of attempts, as for a dead-letter retry; the last error stays
+    // on the task for reference
+    const requeued = await updateTask(taskId, (task) => {
+      if (task.status !== "queued") {
+        task.attempts = 0;
+      }
+      task.status = "queued";
+      delete task.completedAt;
+      delete task.failedAt;
+      delete task.cancelledAt;
+      delete task.cancelRequestedAt;
+      delete task.retryAt;
+      delete task.runAt;
+      delete task.result;
+      if (waitingOn.length > 0) {
+        task.waitingOn = waitingOn;
+      }
+      return task;
+    });
+    if (!requeued) {
+      return { task: null, reason: "not-found" };
+    }
+    await indexNewTasks([requeued]);
+    await recordEvent("queued", taskId, requeued);
+    await logTaskEvent(taskId, { type: "requeued", reason: `Was ${task.status}` });
+    // As in enqueueBatch(): a dependency that finished before the task was
+    // back in index/blocked didn't see it
+    for (const parentId of waitingOn) {
+      const outcome = dependencyOutcome(await getTask(parentId));
+      if (outcome) {
+        await settleDependents(parentId, outcome);
+      }
+    }
+    return { task: (await getTask(taskId)) ?? requeued };
+  }
+
+  async function move(
+    taskId: string,
+    to: "front" | "back",
+    priority?: TaskPriority
+  ): Promise<TaskActionResult> {
+    const task = await getTask(taskId);
+    if (!task) {
+      return { task: null, reason: "not-found" };
+    }
+    const from = task.priority ?? DEFAULT_PRIORITY;
+    const lane = priority ?? from;
+    // queuedAt stays, so starvation still counts from when the task first queued
+    const place = (entries: LaneEntry[], entry: LaneEntry) =>
+      to === "front" ? entries.unshift(entry) : entries.push(entry);
+
+    let moved: boolean | undefined;
+    if (lane === from) {
+      moved = await updateIndex<LaneEntry, boolean>(laneKey(lane), (entries) => {
+        const index = entries.findIndex((entry) => entry.id === taskId);
+        if (index === -1) {
+          return undefined;
+        }
+        place(entries, entries.splice(index, 1)[0]);
+        return true;
+      });
+    } else {
+      const entry = await takeEntry<LaneEntry>(laneKey(from), taskId);
+      if (entry) {
+        await updateTask(taskId, (task) => {
+          task.priority = lane;
+          return task;
+        });
+        moved = await updateIndex<LaneEntry, boolean>(laneKey(lane), (entries) => {
+          place(entries, entry);
+          return true;
+        });
+      }
+    }
+
+    const current = (await getTask(taskId)) ?? task;
+    if (!moved) {
+      return { task: null, reason: "wrong-status", current };
+    }
+    await recordEvent("moved", taskId, current);
+    await logTaskEvent(taskId, {
+      type: "moved",
+      reason: `To the ${to} of the ${lane} lane`,
+    });
+    return { task: current };
+  }
+
+  async function deadLetter(): Promise<Task[]> {
+    const { items: ids } = await readIndex<string>(DEAD_LETTER_KEY);
+    return getTasks(ids);
+  }
+
+  // Removes the given IDs (or all) from the dead-letter index; returns the removed IDs
+  async function takeDeadLetter(taskIds?: string[]): Promise<string[]> {
+    const taken = await updateIndex<string, string[]>(DEAD_LETTER_KEY, (ids) => {
+      const matching = taskIds ? ids.filter((id) => taskIds.includes(id)) : [...ids];
+      if (matching.length === 0) {
+        return undefined;
+      }
+      ids.splice(0, ids.length, ...ids.filter((id) => !matching.includes(id)));
+      return matching;
+    });
+    return taken ?? [];
+  }
+
+  async function retryDeadLetter(taskIds?: string[]): Promise<string[]> {
+    const ids = await takeDeadLetter(taskIds);
+
+    // Fresh set of attempts; the last error stays on the task for reference.
+    // One that's no longer failed (requeued meanwhile) is left where it is.
+    const tasks: Task[] = [];
+    await inChunks(ids, async (id) => {
+      const task = await updateTask(id, (task) => {
+        if (task.status !== "failed") {
+          return undefined;
+        }
+        task.status = "queued";
+        task.attempts = 0;
+        delete task.failedAt;
+        return task;
+      });
+      if (task) {
+        tasks.push(task);
+      }
+    });
+
+    // In dead-letter order, as they were taken
+    tasks.sort((a, b) => ids.indexOf(a.id) - ids.indexOf(b.id));
+    await appendToLanes(tasks);
+    for (const task of tasks) {
+      await recordEvent("queued", task.id, task);
+      await logTaskEvent(task.id, {
+        type: "retried",
+        reason: "Retried from the dead-letter queue",
+      });
+    }
+    return tasks.map((task) => task.id);
+  }
+
+  // Deletes task entries with their callback secrets and event logs. Their
+  // idempotency keys go too, so a resubmit creates a fresh task.
+  async function deleteTaskEntries(ids: string[], tasks: Task[]): Promise<void> {
+    const idempotencyKeys = tasks.flatMap((task) =>
+      task.idempotencyKey
+        ? [idempotencyRecordKey(task.tenant ?? DEFAULT_TENANT, task.idempotencyKey)]
+        : []
+    );
+    await inChunks(
+      [
+        ...ids.flatMap((id) => [
+          `${TASK_PREFIX}${id}`,
+          `${CALLBACK_SECRET_PREFIX}${id}`,
+          `${TASK_EVENTS_PREFIX}${id}`,
+        ]),
+        ...idempotencyKeys,
+      ],
+      (key) => storage.delete(key)
+    );
+  }
+
+  async function purgeDeadLetter(taskIds?: string[]): Promise<string[]> {
+    const ids = await takeDeadLetter(taskIds);
+    await deleteTaskEntries(ids, await getTasks(ids));
+    for (const id of ids) {
+      await recordEvent("purged", id);
+    }
+    return ids;
+  }
+
+  // The oldest IDs in a finished index that are past retention (dangling ones
+  // included), with the tasks that still exist
+  async function expiredFinished(
+    key: string,
+    now: number,
+    limits: { maxAgeMs: number; maxCount: number }
+  ) {
+    const { items: ids } = await readIndex<string>(key);
+    const overCount = ids.length - limits.maxCount;
+    const expired = { ids: [] as string[], tasks: [] as Task[] };
+
+    // Oldest first, so the first task inside both limits ends the scan
+    for (let start = 0; start < ids.length; start += WRITE_CONCURRENCY) {
+      const chunk = ids.slice(start, start + WRITE_CONCURRENCY);
+      const tasks = await Promise.all(chunk.map(getTask));
+      for (const [offset, task] of tasks.entries()) {
+        const finishedAt = task?.completedAt ?? task?.cancelledAt ?? task?.failedAt ?? 0;
+        if (
+          expired.ids.length >= MAX_PRUNED_PER_RUN ||
+          (start + offset >= overCount && finishedAt > now - limits.maxAgeMs)
+        ) {
+          return expired;
+        }
+        expired.ids.push(chunk[offset]);
+        if (task) {
+          expired.tasks.push(task);
+        }
+      }
+    }
+    return expired;
+  }
+
+  async function pruneFinished(
+    archive: (tasks: Task[]) => Promise<void>
+  ): Promise<Task[]> {
+    const finished = { maxAgeMs: retentionMaxAgeMs, maxCount: retentionMaxCount };
+    const pruned: Task[] = [];
+    for (const [key, limits] of [
+      [COMPLETED_KEY, finished],
+      [CANCELLED_KEY, finished],
+      [DEAD_LETTER_KEY, { maxAgeMs: deadLetterMaxAgeMs, maxCount: deadLetterMaxCount }],
+    ] as const) {
+      const expired = await expiredFinished(key, Date.now(), limits);
+      if (expired.ids.length === 0) {
+        continue;
+      }
+
+      // Whatever a requeue or retry took off the index in the meantime isn't
+      // ours any more
+      const candidates = new Set(expired.ids);
+      const taken = await updateIndex<string, Set<string>>(key, (ids) => {
+        const matching = ids.filter((id) => candidates.has(id));
+        if (matching.length === 0) {
+          return undefined;
+        }
+        ids.splice(0, ids.length, ...ids.filter((id) => !candidates.has(id)));
+        return new Set(matching);
+      });
+      if (!taken) {
+        continue;
+      }
+      const tasks = expired.tasks.filter((task) => taken.has(task.id));
+
+      try {
+        if (tasks.length > 0) {
+          await archive(tasks);
+        }
+      } catch (error) {
+        // Back on the front of the index for the next run
+        await updateIndex<string, number>(key, (ids) =>
+          ids.unshift(...[...taken].filter((id) => !ids.includes(id)))
+        );
+        throw error;
+      }
+
+      await deleteTaskEntries([...taken], tasks);
+      pruned.push(...tasks);
+    }
+    return pruned;
+  }
+
+  async function pruneIdempotencyRecords(): Promise<number> {
+    const now = Date.now();
+    let pruned = 0;
+    // A key reused between our read and the delete loses its fresh record, and
+    // a retry of that request would enqueue again - rare enough to accept here
+    await inChunks(await storage.list(IDEMPOTENCY_PREFIX), async (key) => {
+      const entry = await storage.get<IdempotencyRecord>(key);
+      if (entry && entry.value.expiresAt <= now) {
+        await storage.delete(key);
+        pruned++;
+      }
+    });
+    return pruned;
+  }
+
+  async function pruneWorkflows(): Promise<number> {
+    let pruned = 0;
+    await inChunks(await storage.list(WORKFLOW_PREFIX), async (key) => {
+      const entry = await storage.get<WorkflowRecord>(key);
+      if (!entry) {
+        return;
+      }
+      for (const { taskId } of entry.value.tasks) {
+        if (await getTask(taskId)) {
+          return;
+        }
+      }
+      await storage.delete(key);
+      pruned++;
+    });
+    return pruned;
+  }
+
+  async function readStatusIndexes() {
+    const [
+      lanes,
+      processingIds,
+      completedIds,
+      retryEntries,
+      scheduledEntries,
+      blockedEntries,
+      deadLetterIds,
+      cancelledIds,
+      settings,
+      limiter,
+      queueControl,
+    ] = await Promise.all([
+      readLanes(),
+      readIndex<string>(PROCESSING_KEY).then((index) => index.items),
+      readIndex<string>(COMPLETED_KEY).then((index) => index.items),
+      readIndex<RetryEntry>(RETRYING_KEY).then((index) => index.items),
+      readIndex<ScheduledEntry>(SCHEDULED_KEY).then((index) => index.items),
+      readIndex<BlockedEntry>(BLOCKED_KEY).then((index) => index.items),
+      readIndex<string>(DEAD_LETTER_KEY).then((index) => index.items),
+      readIndex<string>(CANCELLED_KEY).then((index) => index.items),
+      limiterSettings(),
+      readLimiter(),
+      control(),
+    ]);
+
+    // In strict drain order; weighted draining interleaves the lanes
+    const queueIds = PRIORITIES.flatMap((priority) =>
+      lanes[priority].map((entry) => entry.id)
+    );
+
+    const tenants: Record<string, number> = {};
+    for (const entry of [
+      ...PRIORITIES.flatMap((priority) => lanes[priority]),
+      ...retryEntries,
+      ...scheduledEntries,
+      ...blockedEntries,
+    ]) {
+      tenants[tenantOf(entry)] = (tenants[tenantOf(entry)] ?? 0) + 1;
+    }
+
+    const summary: QueueSummary = {
+      stats: {
+        queuedCount: queueIds.length,
+        lanes: {
+          high: lanes.high.length,
+          normal: lanes.normal.length,
+          low: lanes.low.length,
+        },
+        processingCount: processingIds.length,
+        completedCount: completedIds.length,
+        retryingCount: retryEntries.length,
+        scheduledCount: scheduledEntries.length,
+        blockedCount: blockedEntries.length,
+        deadLetterCount: deadLetterIds.length,
+        cancelledCount: cancelledIds.length,
+        totalTasks:
+          queueIds.length +
+          processingIds.length +
+          completedIds.length +
+          retryEntries.length +
+          scheduledEntries.length +
+          blockedEntries.length +
+          deadLetterIds.length +
+          cancelledIds.length,
+        tenants,
+      },
+      rateLimit: limiterStatus(settings, limiter, Date.now()),
+      control: queueControl,
+    };
+
+    return {
+      queueIds,
+      processingIds,
+      completedIds,
+      retryIds: retryEntries.map((entry) => entry.id),
+      scheduledIds: scheduledEntries.map((entry) => entry.id),
+      blockedIds: blockedEntries.map((entry) => entry.id),
+      deadLetterIds,
+      cancelledIds,
+      summary,
+    };
+  }
+
+  async function summary(): Promise<QueueSummary> {
+    return (await readStatusIndexes()).summary;
+  }
+
+  async function status(): Promise<QueueStatus> {
+    const indexes = await readStatusIndexes();
+
+    // Get tasks in each state (next 50 queued/scheduled, first 50 blocked, all
+    // processing/retrying, last 50 completed/dead-lettered/cancelled)
+    const [
+      queued,
+      processing,
+      completed,
+      retrying,
+      scheduled,
+      blocked,
+      deadLetter,
+      cancelled,
+    ] = await Promise.all([
+      getTasks(indexes.queueIds.slice(0, MAX_LISTED_TASKS)),
+      getTasks(indexes.processingIds),
+      getTasks(indexes.completedIds.slice(-MAX_LISTED_TASKS)),
+      getTasks(indexes.retryIds),
+      getTasks(indexes.scheduledIds.slice(0, MAX_LISTED_TASKS)),
+      getTasks(indexes.blockedIds.slice(0, MAX_LISTED_TASKS)),
+      getTasks(indexes.deadLetterIds.slice(-MAX_LISTED_TASKS)),
+      getTasks(indexes.cancelledIds.slice(-MAX_LISTED_TASKS)),
+    ]);
+
+    return {
+      queued,
+      processing,
+      completed,
+      retrying,
+      scheduled,
+      blocked,
+      deadLetter,
+      cancelled,
+      ...indexes.summary,
+    };
+  }
+
+  async function eventsSince(cursor: string): Promise<QueueEvent[]> {
+    const now = Date.now();
+    const since = Math.max(parseInt(cursor, 10) || now, now - EVENT_RETENTION_MS);
+
+    const keys: string[] = [];
+    for (
+      let bucket = Math.floor(since / EVENT_BUCKET_MS);
+      bucket <= Math.floor(now / EVENT_BUCKET_MS);
+      bucket++
+    ) {
+      keys.push(...(await storage.list(`${EVENT_PREFIX}${bucket}/`)));
+    }
+
+    const eventId = (key: string) => key.slice(key.lastIndexOf("/") + 1);
+    const newer = keys
+      .filter((key) => eventId(key) > cursor)
+      .sort((a, b) => (eventId(a) < eventId(b) ? -1 : 1));
+
+    const entries = await Promise.all(
+      newer.map((key) => storage.get<QueueEvent>(key))
+    );
+    return entries.flatMap((entry) => (entry ? [entry.value] : []));
+  }
+
+  async function pruneEvents(): Promise<number> {
+    const oldestBucket = Math.floor(
+      (Date.now() - EVENT_RETENTION_MS) / EVENT_BUCKET_MS
+    );
+    const expired = (await storage.list(EVENT_PREFIX)).filter(
+      (key) => Number(key.split("/")[1]) < oldestBucket
+    );
+    await Promise.all(expired.map((key) => storage.delete(key)));
+    return expired.length;
+  }
+
+  async function metrics(since: number): Promise<MetricsBucket[]> {
+    const oldest = Math.floor(
+      Math.max(since, Date.now() - METRICS_RETENTION_MS) / METRICS_BUCKET_MS
+    );
+    const keys = (await storage.list(METRICS_PREFIX)).filter(
+      (key) => Number(key.split("/")[1]) >= oldest
+    );
+    const entries = await Promise.all(
+      keys.map((key) => storage.get<MetricsBucket>(key))
+    );
+    return mergeMetricsBuckets(entries.flatMap((entry) => (entry ? [entry.value] : [])));
+  }
+
+  async function pruneMetrics(): Promise<number> {
+    const oldest = Math.floor(
+      (Date.now() - METRICS_RETENTION_MS) / METRICS_BUCKET_MS
+    );
+    const expired = (await storage.list(METRICS_PREFIX)).filter(
+      (key) => Number(key.split("/")[1]) < oldest
+    );
+    await Promise.all(expired.map((key) => storage.delete(key)));
+    return expired.length;
+  }
+
+  async function taskEvents(taskId: string): Promise<TaskEvent[]> {
+    const entry = await storage.get<TaskEvent[]>(`${TASK_EVENTS_PREFIX}${taskId}`);
+    return Array.isArray(entry?.value) ? entry.value : [];
+  }
+
+  async function callbackSecret(taskId: string): Promise<string | null> {
+    const entry = await storage.get<string>(`${CALLBACK_SECRET_PREFIX}${taskId}`);
+    return entry?.value ?? null;
+  }
+
+  async function recordCallbackDelivery(
+    taskId: string,
+    delivery: CallbackDelivery
+  ): Promise<Task | null> {
+    const task = await updateTask(taskId, (task) => {
+      task.callbackDeliveries = [...(task.callbackDeliveries ?? []), delivery];
+      return task;
+    });
+    return task ?? null;
+  }
+
+  async function positionOf(taskId: string): Promise<number | null> {
+    return positionIn(await readLanes(), taskId);
+  }
+
+  async function startCapacity(): Promise<StartCapacity> {
+    const [lanes, settings, limiter, waiting, tenants, tenantState, queueControl] =
+      await Promise.all([
+        readLanes(),
+        limiterSettings(),
+        readLimiter(),
+        waitingTimes(),
+        tenantSettings(),
+        readTenants(),
+        control(),
+      ]);
+    if (queueControl.paused) {
+      return { workers: 0, wakeAt: null };
+    }
+    const now = Date.now();
+    // A queued task only counts if its tenant has start quota left; due
+    // retries and scheduled tasks are promoted by the claim that takes them
+    const allowedAt = new Map<string, number | null>();
+    let runnable = waiting.filter((at) => at <= now).length;
+    for (const entry of PRIORITIES.flatMap((priority) => lanes[priority])) {
+      const tenant = tenantOf(entry);
+      if (!allowedAt.has(tenant)) {
+        allowedAt.set(tenant, startAllowedAt(tenants, tenantState, tenant, now));
+      }
+      if (allowedAt.get(tenant) === null) {
+        runnable += 1;
+      }
+    }
+
+    if (runnable === 0) {
+      // Whatever is queued is waiting on its tenant's quota
+      const quotaFreesAt = [...allowedAt.values()].filter(
+        (at): at is number => at !== null
+      );
+      return {
+        workers: 0,
+        wakeAt: quotaFreesAt.length > 0 ? Math.min(...quotaFreesAt) : null,
+      };
+    }
+    const limit = limiterStatus(settings, limiter, now);
+    const workers = Math.min(runnable, limit.remaining ?? Infinity);
+    return { workers, wakeAt: workers === 0 ? limit.resetAt : null };
+  }
+
+  async function hasRunnableTasks(): Promise<boolean> {
+    return (await startCapacity()).workers > 0;
+  }
+
+  async function reserveDispatch(maxWorkers: number): Promise<Dispatch[]> {
+    const capacity = await startCapacity();
+    const booked = await updateIndex<Dispatch, Dispatch[]>(DISPATCH_KEY, (dispatches) => {
+      const now = Date.now();
+      const live = dispatches.filter((dispatch) => dispatch.at > now - DISPATCH_TIMEOUT_MS);
+      const due = live.filter((dispatch) => dispatch.at <= now).length;
+      const added: Dispatch[] = [];
+
+      const workers = Math.min(capacity.workers - due, maxWorkers);
+      for (let i = 0; i < workers; i++) {
+        added.push({ id: crypto.randomUUID(), at: now });
+      }
+      const { wakeAt } = capacity;
+      if (
+        capacity.workers === 0 &&
+        wakeAt !== null &&
+        !live.some((dispatch) => dispatch.at > now && dispatch.at <= wakeAt)
+      ) {
+        added.push({ id: crypto.randomUUID(), at: wakeAt });
+      }
+
+      if (added.length === 0 && live.length === dispatches.length) {
+        return undefined;
+      }
+      dispatches.splice(0, dispatches.length, ...live, ...added);
+      return added;
+    });
+    return booked ?? [];
+  }
+
+  async function dispatchArrived(dispatchId: string): Promise<void> {
+    await updateIndex<Dispatch, true>(DISPATCH_KEY, (dispatches) => {
+      const index = dispatches.findIndex((dispatch) => dispatch.id === dispatchId);
+      if (index === -1) {
+        return undefined;
+      }
+      dispatches.splice(index, 1);
+      return true;
+    });
+  }
+
+  async function clear(): Promise<void> {
+    // Reset the indexes first so the tasks disappear from the queue right away.
+    // Deliberately unconditional: a reset doesn't depend on what it replaces.
+    // Any writer that read an old index holds a stale ETag, so its
+    // conditional write fails and it re-applies its change on the empty index.
+    await Promise.all([
+      ...INDEX_KEYS.map((key) => storage.set(key, [])),
+      storage.set(LIMITER_KEY, emptyLimiterState()),
+      storage.set(TENANTS_KEY, emptyTenantState()),
+      storage.set(REPAIR_KEY, {}),
+    ]);
+
+    // Then delete the per-task entries
+    const keys = [
+      ...(await storage.list(TASK_PREFIX)),
+      ...(await storage.list(CALLBACK_SECRET_PREFIX)),
+      ...(await storage.list(TASK_EVENTS_PREFIX)),
+      ...(await storage.list(IDEMPOTENCY_PREFIX)),
+      ...(await storage.list(WORKFLOW_PREFIX)),
+    ];
+    await Promise.all(keys.map((key) => storage.delete(key)));
+
+    await recordEvent("cleared");
+  }
+
+  return {
+    enqueue,
+    enqueueBatch,
+    enqueueWorkflow,
+    workflow,
+    claim,
+    heartbeat,
+    complete,
+    fail,
+    reclaimExpired,
+    repairIndexes,
+    cancel,
+    acknowledgeCancel,
+    requeue,
+    move,
+    control,
+    setControl,
+    status,
+    summary,
+    eventsSince,
+    pruneEvents,
+    metrics,
+    pruneMetrics,
+    get: getTask,
+    taskEvents,
+    callbackSecret,
+    recordCallbackDelivery,
+    positionOf,
+    hasRunnableTasks,
+    startCapacity,
+    reserveDispatch,
+    dispatchArrived,
+    promoteDueTasks,
+    nextDueAt,
+    settleBlockedTasks,
+    limiterSettings,
+    setLimiterSettings,
+    tenantSettings,
+    setTenantSettings,
+    deadLetter,
+    retryDeadLetter,
+    purgeDeadLetter,
+    pruneFinished,
+    pruneIdempotencyRecords,
+    pruneWorkflows,
+    clear,
+  };
+}
@@ -0,0 +1,141 @@
+import type { Context } from "@netlify/functions";
+import { createQueue, type Queue, type QueueOptions } from "./queue.mts";
+import { callbackEvent } from "./callbacks.mts";
+import { workloadClient } from "./workloads.mts";
+import type { Task } from "./types.mts";
+import {
+  openStore,
+  scopeStorage,
+  type QueueStorage,
+} from "./storage.mts";
+
+// Named queues. Each one is a full queue - its own lanes, limiter state and
+// limiter settings, dead-letter queue and event feed - scoped under
+// `queues/<name>/` in the shared store. The default queue keeps the unscoped
+// keys it has always used. Names are registered in `registry/queues` on first
+// enqueue so the scheduled functions and /api/queues can find them.
+
+export const DEFAULT_QUEUE = "default";
+
+const QUEUE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,62}$/;
+const REGISTRY_KEY = "registry/queues";
+const MAX_WRITE_ATTEMPTS = 8;
+
+export function isQueueName(value: unknown): value is string {
+  return typeof value === "string" && QUEUE_NAME_PATTERN.test(value);
+}
+
+// The queue a request is for: the `:queue` path parameter, then `?queue=`,
+// then `queue` in the JSON body. Null if the name given isn't valid.
+export function queueNameFrom(
+  req: Request,
+  context?: Context,
+  body?: { queue?: unknown }
+): string | null {
+  const name =
+    context?.params?.queue ??
+    new URL(req.url).searchParams.get("queue") ??
+    body?.queue ??
+    DEFAULT_QUEUE;
+  return isQueueName(name) ? name : null;
+}
+
+export function invalidQueueNameResponse(): Response {
+  return new Response(
+    JSON.stringify({
+      success: false,
+      error:
+        "Queue names are 1-63 lowercase letters, digits, '-' or '_', starting with a letter or digit",
+    }),
+    {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    }
+  );
+}
+
+export function openQueue(
+  name: string = DEFAULT_QUEUE,
+  storage: QueueStorage = openStore(),
+  options?: QueueOptions
+): Queue {
+  return createQueue(
+    name === DEFAULT_QUEUE ? storage : scopeStorage(storage, `queues/${name}/`),
+    {
+      // Whichever call cascaded the cancel can't tell the caller about it
+      onDependentCancelled: async (task) => {
+        try {
+          await sendCallbackEvent(name, task);
+        } catch (error) {
+          console.error("Failed to trigger async workload:", error);
+        }
+      },
+      ...options,
+    }
+  );
+}
+
+// Registered queue names, default first
+export async function listQueues(
+  storage: QueueStorage = openStore()
+): Promise<string[]> {
+  const entry = await storage.get<string[]>(REGISTRY_KEY);
+  const names = Array.isArray(entry?.value) ? entry.value : [];
+  return [DEFAULT_QUEUE, ...names.filter((name) => name !== DEFAULT_QUEUE).sort()];
+}
+
+// Adds the name to the registry (a no-op if it's already there). Called before
+// a queue's first enqueue, so a queue never has tasks the scheduled functions
+// can't find.
+export async function registerQueue(
+  name: string,
+  storage: QueueStorage = openStore()
+): Promise<void> {
+  if (name === DEFAULT_QUEUE) {
+    return;
+  }
+  for (let attempt = 1; attempt <= MAX_WRITE_ATTEMPTS; attempt++) {
+    const entry = await storage.get<string[]>(REGISTRY_KEY);
+    const names = Array.isArray(entry?.value) ? entry.value : [];
+    if (names.includes(name)) {
+      return;
+    }
+    const written = await storage.set(
+      REGISTRY_KEY,
+      [...names, name],
+      entry ? { onlyIfMatch: entry.etag } : { onlyIfNew: true }
+    );
+    if (written) {
+      return;
+    }
+    // Lost the race - back off (exponential with jitter) and try again
+    const delay = Math.min(1000, 25 * 2 ** attempt) * (0.5 + Math.random());
+    await new Promise((resolve) => setTimeout(resolve, delay));
+  }
+  throw new Error(`Failed to register queue ${name}: too many conflicting writes`);
+}
+
+// Sends a process-task event for the named queue's worker chain, optionally
+// delivered no earlier than `delayUntil`. `dispatchId` is set on events booked
+// with Queue.reserveDispatch(), so the worker can check in when it starts.
+export async function triggerProcessing(
+  queue: string,
+  delayUntil?: number,
+  dispatchId?: string
+): Promise<void> {
+  await workloadClient().send("process-task", {
+    data: { queue, ...(dispatchId && { dispatchId }) },
+    ...(delayUntil && { delayUntil }),
+  });
+}
+
+// Sends a deliver-callback event for the task's outcome (process-task delivers
+// and retries it), if it has a callback due
+export async function sendCallbackEvent(queue: string, task: Task): Promise<void> {
+  const event = callbackEvent(task);
+  if (event) {
+    await workloadClient().send("deliver-callback", {
+      data: { queue, taskId: task.id, event, attempt: 1 },
+    });
+  }
+}
@@ -0,0 +1,194 @@
+// Task payload validation against a JSON Schema. Only the subset task types
+// need is supported (draft 2020-12 keywords): type, enum, const, properties,
+// required, additionalProperties, items, min/maxItems, minimum/maximum,
+// min/maxLength, pattern and format (uri, email, date-time). Unknown keywords
+// are ignored, as the spec says, so a schema stays valid JSON Schema.
+
+export type JsonType =
+  | "object"
+  | "array"
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "null";
+
+export interface JsonSchema {
+  type?: JsonType | JsonType[];
+  description?: string;
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema; // Default true
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: "uri" | "email" | "date-time";
+}
+
+// `path` is a JSON Pointer into the request body, e.g. "/data/items/0/url"
+export interface ValidationError {
+  path: string;
+  message: string;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i;
+
+function typeOf(value: unknown): JsonType {
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? "integer" : "number";
+  }
+  return typeof value as JsonType;
+}
+
+function matchesType(value: unknown, type: JsonType): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+function sameJson(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return (
+    aKeys.length === bKeys.length &&
+    aKeys.every(
+      (key) =>
+        Object.hasOwn(b, key) &&
+        sameJson((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+    )
+  );
+}
+
+function pointer(path: string, key: string | number): string {
+  return `${path}/${String(key).replace(/~/g, "~0").replace(/\//g, "~1")}`;
+}
+
+function formatError(format: JsonSchema["format"], value: string): string | null {
+  if (format === "uri") {
+    return URL.canParse(value) ? null : "must be a URI";
+  }
+  if (format === "email") {
+    return EMAIL_PATTERN.test(value) ? null : "must be an email address";
+  }
+  if (format === "date-time") {
+    return DATE_TIME_PATTERN.test(value) && !Number.isNaN(Date.parse(value))
+      ? null
+      : "must be an RFC 3339 date-time";
+  }
+  return null;
+}
+
+// Every way `value` breaks `schema` (empty if it's valid)
+export function validateSchema(
+  schema: JsonSchema,
+  value: unknown,
+  path = ""
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const fail = (message: string, at = path) => errors.push({ path: at, message });
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      // Nothing else is meaningful against the wrong type
+      fail(`must be ${types.join(" or ")}`);
+      return errors;
+    }
+  }
+  if (schema.enum && !schema.enum.some((option) => sameJson(option, value))) {
+    fail(`must be one of: ${schema.enum.map((option) => JSON.stringify(option)).join(", ")}`);
+  }
+  if (schema.const !== undefined && !sameJson(schema.const, value)) {
+    fail(`must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === "string") {
+    // Length in code points, as the spec counts it
+    const length = [...value].length;
+    if (schema.minLength !== undefined && length < schema.minLength) {
+      fail(`must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && length > schema.maxLength) {
+      fail(`must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern, "u").test(value)) {
+      fail(`must match ${schema.pattern}`);
+    }
+    const formatProblem = formatError(schema.format, value);
+    if (formatProblem) {
+      fail(formatProblem);
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      fail(`must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      fail(`must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail(`must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      fail(`must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      const items = schema.items;
+      value.forEach((item, index) => {
+        errors.push(...validateSchema(items, item, pointer(path, index)));
+      });
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const object = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!Object.hasOwn(object, key)) {
+        fail("is required", pointer(path, key));
+      }
+    }
+    for (const [key, propertyValue] of Object.entries(object)) {
+      const property =
+        schema.properties && Object.hasOwn(schema.properties, key)
+          ? schema.properties[key]
+          : undefined;
+      if (property) {
+        errors.push(...validateSchema(property, propertyValue, pointer(path, key)));
+      } else if (schema.additionalProperties === false) {
+        fail("is not allowed", pointer(path, key));
+      } else if (typeof schema.additionalProperties === "object") {
+        errors.push(
+          ...validateSchema(schema.additionalProperties, propertyValue, pointer(path, key))
+        );
+      }
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,196 @@
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { getStore } from "@netlify/blobs";
+
+// Pluggable key-value backend for the queue. Values are JSON-serializable and
+// every entry carries an ETag so writers can do compare-and-swap.
+
+export interface StoredEntry<T> {
+  value: T;
+  etag: string;
+}
+
+// `onlyIfMatch`: write only if the entry still has this ETag
+// `onlyIfNew`: write only if the key doesn't exist yet
+export type WriteCondition = { onlyIfMatch: string } | { onlyIfNew: true };
+
+export interface QueueStorage {
+  get<T>(key: string): Promise<StoredEntry<T> | null>;
+  // Resolves to false if the condition didn't hold (nothing was written)
+  set(key: string, value: unknown, condition?: WriteCondition): Promise<boolean>;
+  delete(key: string): Promise<void>;
+  list(prefix: string): Promise<string[]>;
+}
+
+// Backend behind every store the functions open by name: Netlify Blobs,
+// unless QUEUE_STORAGE_DIR points at a directory (the filesystem backend, for
+// running without Blobs) or something - the simulator - has called
+// setStorageBackend()
+let storageBackend: ((name: string) => QueueStorage) | null = null;
+
+export function setStorageBackend(backend: ((name: string) => QueueStorage) | null): void {
+  storageBackend = backend;
+}
+
+export function openStore(name = "queue-state"): QueueStorage {
+  if (storageBackend) {
+    return storageBackend(name);
+  }
+  const dir = process.env.QUEUE_STORAGE_DIR;
+  return dir ? createFileStorage(join(dir, name)) : createBlobStorage(name);
+}
+
+// Netlify Blobs backend (production)
+export function createBlobStorage(name = "queue-state"): QueueStorage {
+  // Strong consistency so the ETag we read is the latest one, not an edge-cached copy
+  const store = getStore({ name, consistency: "strong" });
+
+  return {
+    async get<T>(key: string) {
+      const entry = await store.getWithMetadata(key, { type: "json" });
+      if (!entry || entry.data == null) {
+        return null;
+      }
+      return { value: entry.data as T, etag: entry.etag ?? "" };
+    },
+
+    async set(key, value, condition) {
+      const { modified } = await store.setJSON(key, value, condition);
+      return modified;
+    },
+
+    async delete(key) {
+      await store.delete(key);
+    },
+
+    async list(prefix) {
+      const keys: string[] = [];
+      for await (const page of store.list({ prefix, paginate: true })) {
+        keys.push(...page.blobs.map((blob) => blob.key));
+      }
+      return keys;
+    },
+  };
+}
+
+// In-memory backend (local scripts and tests). Values are stored serialized so
+// callers can't mutate stored state through a returned object.
+export function createMemoryStorage(): QueueStorage {
+  const entries = new Map<string, { json: string; etag: string }>();
+  let version = 0;
+
+  return {
+    async get<T>(key: string) {
+      const entry = entries.get(key);
+      if (!entry) {
+        return null;
+      }
+      return { value: JSON.parse(entry.json) as T, etag: entry.etag };
+    },
+
+    async set(key, value, condition) {
+      const current = entries.get(key);
+      if (condition && "onlyIfNew" in condition && current) {
+        return false;
+      }
+      if (
+        condition &&
+        "onlyIfMatch" in condition &&
+        current?.etag !== condition.onlyIfMatch
+      ) {
+        return false;
+      }
+      entries.set(key, { json: JSON.stringify(value), etag: `"${++version}"` });
+      return true;
+    },
+
+    async delete(key) {
+      entries.delete(key);
+    },
+
+    async list(prefix) {
+      return [...entries.keys()].filter((key) => key.startsWith(prefix));
+    },
+  };
+}
+
+// Filesystem backend: one JSON file per key (`{ etag, value }`, the key
+// URI-encoded into the file name) in `dir`. Operations go one at a time, which
+// makes the conditional writes atomic within this process - but not across
+// processes, so don't point two running processes at the same directory.
+export function createFileStorage(dir: string): QueueStorage {
+  let tail: Promise<unknown> = mkdir(dir, { recursive: true });
+  let version = 0;
+
+  function serially<T>(operation: () => Promise<T>): Promise<T> {
+    const result = tail.then(operation);
+    tail = result.catch(() => {});
+    return result;
+  }
+
+  const pathOf = (key: string) => join(dir, encodeURIComponent(key));
+
+  async function read<T>(key: string): Promise<StoredEntry<T> | null> {
+    try {
+      return JSON.parse(await readFile(pathOf(key), "utf8")) as StoredEntry<T>;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  return {
+    get<T>(key: string) {
+      return serially(() => read<T>(key));
+    },
+
+    set: (key, value, condition) =>
+      serially(async () => {
+        const current = await read(key);
+        if (condition && "onlyIfNew" in condition && current) {
+          return false;
+        }
+        if (
+          condition &&
+          "onlyIfMatch" in condition &&
+          current?.etag !== condition.onlyIfMatch
+        ) {
+          return false;
+        }
+        const entry: StoredEntry<unknown> = {
+          value,
+          etag: `"${Date.now().toString(36)}-${++version}"`,
+        };
+        // Write then rename, so a crash never leaves half a file behind
+        const temporary = `${pathOf(key)}.${version}.tmp`;
+        await writeFile(temporary, JSON.stringify(entry));
+        await rename(temporary, pathOf(key));
+        return true;
+      }),
+
+    delete: (key) => serially(() => rm(pathOf(key), { force: true })),
+
+    list: (prefix) =>
+      serially(async () =>
+        (await readdir(dir))
+          .filter((name) => !name.endsWith(".tmp"))
+          .map((name) => decodeURIComponent(name))
+          .filter((key) => key.startsWith(prefix))
+      ),
+  };
+}
+
+// Every key of `storage` under `prefix` - how named queues share one store
+export function scopeStorage(storage: QueueStorage, prefix: string): QueueStorage {
+  return {
+    get: (key) => storage.get(`${prefix}${key}`),
+    set: (key, value, condition) => storage.set(`${prefix}${key}`, value, condition),
+    delete: (key) => storage.delete(`${prefix}${key}`),
+    async list(listPrefix) {
+      const keys = await storage.list(`${prefix}${listPrefix}`);
+      return keys.map((key) => key.slice(prefix.length));
+    },
+  };
+}
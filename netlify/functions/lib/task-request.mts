@@ -0,0 +1,318 @@
+import {
+  DEFAULT_TASK_TYPE,
+  getTaskType,
+  getTaskValidator,
+  taskTypes,
+  type TaskTypeInfo,
+} from "./handlers.mts";
+import { isIdempotencyKey, requestFingerprint } from "./idempotency.mts";
+import { outboundUrlError } from "./outbound.mts";
+import { DEFAULT_PRIORITY, isPriority, PRIORITIES } from "./priority.mts";
+import type { EnqueueInput, WorkflowInput } from "./queue.mts";
+import { validateSchema, type ValidationError } from "./schema.mts";
+import { DEFAULT_TENANT, isTenantId } from "./tenants.mts";
+import { isStepKey, MAX_WORKFLOW_TASKS, workflowLevels } from "./workflows.mts";
+
+// Turns one task payload, as POSTed to /api/queue-task or as an item of
+// /api/queue-tasks/batch, into an EnqueueInput - or the reason it can't be queued
+
+// Whole request bodies, checked before parsing (the per-type limit on `data`
+// is the one that matters; this just caps the parsing work)
+export const MAX_TASK_REQUEST_BYTES = 1024 * 1024;
+export const MAX_BATCH_REQUEST_BYTES = 5 * 1024 * 1024;
+
+export const MAX_DEPENDENCIES = 50; // dependsOn entries per task
+
+const INVALID_TENANT =
+  "Tenant IDs are 1-64 letters, digits, '.', '-' or '_', starting with a letter or digit";
+
+export type TaskRequestResult =
+  | { input: EnqueueInput }
+  // `errors` lists every problem with `data`, each with its JSON Pointer path
+  | { error: string; supportedTypes?: string[]; errors?: ValidationError[] };
+
+// `index` is the offending entry of `tasks`, when there is one
+export type WorkflowRequestResult =
+  | { input: WorkflowInput }
+  | {
+      error: string;
+      index?: number;
+      supportedTypes?: string[];
+      errors?: ValidationError[];
+    };
+
+// The body as JSON (undefined if it isn't JSON), or null if it's over maxBytes
+export async function readJsonBody(
+  req: Request,
+  maxBytes: number
+): Promise<{ body: unknown } | null> {
+  const declared = Number(req.headers.get("Content-Length"));
+  if (declared > maxBytes) {
+    return null;
+  }
+  const text = await req.text();
+  if (new TextEncoder().encode(text).length > maxBytes) {
+    return null;
+  }
+  try {
+    return { body: JSON.parse(text) };
+  } catch {
+    return { body: undefined };
+  }
+}
+
+export function payloadTooLargeResponse(maxBytes: number): Response {
+  return new Response(
+    JSON.stringify({
+      success: false,
+      error: `Request body is over the ${maxBytes}-byte limit`,
+    }),
+    {
+      status: 413,
+      headers: { "Content-Type": "application/json" },
+    }
+  );
+}
+
+// Size limit first, so an oversized payload isn't walked by the validator; the
+// type's own checks last, so they only see data that fits its schema
+function validateData(taskType: TaskTypeInfo, data: unknown): ValidationError[] {
+  const size = new TextEncoder().encode(JSON.stringify(data)).length;
+  if (size > taskType.maxPayloadBytes) {
+    return [
+      {
+        path: "/data",
+        message: `must be at most ${taskType.maxPayloadBytes} bytes as JSON (is ${size})`,
+      },
+    ];
+  }
+  const errors = validateSchema(taskType.schema, data, "/data");
+  if (errors.length > 0) {
+    return errors;
+  }
+  return getTaskValidator(taskType.type)?.(data) ?? [];
+}
+
+// Error message for a bad callbackUrl/callbackSecret pair, or null if it's usable
+function validateCallback(url: unknown, secret: unknown): string | null {
+  if (url === undefined) {
+    return secret === undefined ? null : "callbackSecret requires a callbackUrl";
+  }
+  if (
+    typeof url !== "string" ||
+    !URL.canParse(url) ||
+    !["http:", "https:"].includes(new URL(url).protocol)
+  ) {
+    return "callbackUrl must be an http(s) URL";
+  }
+  const hostError = outboundUrlError(url);
+  if (hostError) {
+    return `callbackUrl ${hostError}`;
+  }
+  if (secret !== undefined && (typeof secret !== "string" || secret === "")) {
+    return "callbackSecret must be a non-empty string";
+  }
+  return null;
+}
+
+// `runAt` (ms timestamp or ISO date) or `delaySeconds` -> when the task may
+// start. Past times just mean "now".
+function parseRunAt(
+  runAt: unknown,
+  delaySeconds: unknown
+): { runAt?: number; error?: string } {
+  if (runAt !== undefined && delaySeconds !== undefined) {
+    return { error: "Pass either runAt or delaySeconds, not both" };
+  }
+  if (delaySeconds !== undefined) {
+    if (typeof delaySeconds !== "number" || !(delaySeconds >= 0)) {
+      return { error: "delaySeconds must be a non-negative number" };
+    }
+    return { runAt: Date.now() + delaySeconds * 1000 };
+  }
+  if (runAt !== undefined) {
+    const time =
+      typeof runAt === "number"
+        ? runAt
+        : typeof runAt === "string"
+        ? Date.parse(runAt)
+        : NaN;
+    if (!Number.isFinite(time)) {
+      return { error: "runAt must be a timestamp in ms or an ISO date string" };
+    }
+    return { runAt: time };
+  }
+  return {};
+}
+
+// Deduplicated, or an error message
+function parseDependsOn(
+  value: unknown,
+  what: string,
+  isValid: (id: string) => boolean
+): { ids?: string[]; error?: string } {
+  if (value === undefined) {
+    return { ids: [] };
+  }
+  if (!Array.isArray(value) || !value.every((id) => typeof id === "string" && isValid(id))) {
+    return { error: `dependsOn must be an array of ${what}` };
+  }
+  const ids = [...new Set(value as string[])];
+  if (ids.length > MAX_DEPENDENCIES) {
+    return { error: `dependsOn can list at most ${MAX_DEPENDENCIES} tasks` };
+  }
+  return { ids };
+}
+
+// `headers` are the request-level X-Tenant-Id and Idempotency-Key, which win
+// over `tenant` and `idempotencyKey` in the payload
+export function parseTaskRequest(
+  body: Record<string, unknown>,
+  headers: { tenant?: string | null; idempotencyKey?: string | null } = {}
+): TaskRequestResult {
+  const type = body.type ?? DEFAULT_TASK_TYPE;
+
+  // Reject types nothing can run, rather than letting them fail in the worker
+  const taskType = typeof type === "string" ? getTaskType(type) : undefined;
+  if (typeof type !== "string" || !taskType) {
+    return {
+      error: `Unknown task type: ${JSON.stringify(type)}`,
+      supportedTypes: taskTypes(),
+    };
+  }
+
+  const data = body.data ?? {};
+  const dataErrors = validateData(taskType, data);
+  if (dataErrors.length > 0) {
+    return {
+      error: `Invalid data for task type ${type} (see GET /api/task-types)`,
+      errors: dataErrors,
+    };
+  }
+
+  // Optional completion callback - POSTed to when the task completes or is dead-lettered
+  const { callbackUrl, callbackSecret } = body;
+  const callbackError = validateCallback(callbackUrl, callbackSecret);
+  if (callbackError) {
+    return { error: callbackError };
+  }
+
+  const priority = body.priority ?? DEFAULT_PRIORITY;
+  if (!isPriority(priority)) {
+    return { error: `priority must be one of: ${PRIORITIES.join(", ")}` };
+  }
+
+  const tenant = headers.tenant ?? body.tenant ?? DEFAULT_TENANT;
+  if (!isTenantId(tenant)) {
+    return { error: INVALID_TENANT };
+  }
+
+  const schedule = parseRunAt(body.runAt, body.delaySeconds);
+  if (schedule.error) {
+    return { error: schedule.error };
+  }
+
+  const dependencies = parseDependsOn(body.dependsOn, "task IDs", (id) => id !== "");
+  if (dependencies.error) {
+    return { error: dependencies.error };
+  }
+  const dependsOn = dependencies.ids!;
+
+  const idempotencyKey = headers.idempotencyKey ?? body.idempotencyKey;
+  if (idempotencyKey !== undefined && !isIdempotencyKey(idempotencyKey)) {
+    return {
+      error: "Idempotency-Key must be 1-255 printable ASCII characters, no spaces",
+    };
+  }
+
+  return {
+    input: {
+      type,
+      data,
+      priority,
+      tenant,
+      callback: callbackUrl
+        ? { url: callbackUrl as string, secret: callbackSecret as string | undefined }
+        : undefined,
+      runAt: schedule.runAt,
+      dependsOn: dependsOn.length > 0 ? dependsOn : undefined,
+      // The request as sent (delaySeconds, not the runAt it works out to
+      // now), so a retry later on still matches
+      idempotency: idempotencyKey
+        ? {
+            key: idempotencyKey,
+            fingerprint: requestFingerprint({
+              type,
+              data,
+              priority,
+              callbackUrl,
+              callbackSecret,
+              runAt: body.runAt,
+              delaySeconds: body.delaySeconds,
+              dependsOn,
+            }),
+          }
+        : undefined,
+    },
+  };
+}
+
+// POST /api/workflows body -> WorkflowInput:
+//   { "name"?: "...", "tasks": [{ "key": "...", "dependsOn"?: [<keys>], <task payload> }] }
+// Each task is checked as parseTaskRequest() would, with the workflow's tenant.
+// Tasks can't carry an idempotency key - a workflow is created whole or not at all.
+export function parseWorkflowRequest(
+  body: Record<string, unknown>,
+  headers: { tenant?: string | null } = {}
+): WorkflowRequestResult {
+  const { name, tasks } = body;
+  if (name !== undefined && (typeof name !== "string" || name.length > 200)) {
+    return { error: "name must be a string of at most 200 characters" };
+  }
+  if (!Array.isArray(tasks) || tasks.length === 0 || tasks.length > MAX_WORKFLOW_TASKS) {
+    return { error: `Send "tasks": an array of 1-${MAX_WORKFLOW_TASKS} tasks` };
+  }
+
+  const tenant = headers.tenant ?? body.tenant ?? DEFAULT_TENANT;
+  if (!isTenantId(tenant)) {
+    return { error: INVALID_TENANT };
+  }
+  const steps: WorkflowInput["steps"] = [];
+  for (const [index, task] of tasks.entries()) {
+    if (typeof task !== "object" || task === null || Array.isArray(task)) {
+      return { error: "Each task must be an object", index };
+    }
+    const { key, dependsOn, idempotencyKey, ...payload } = task as Record<string, unknown>;
+    if (!isStepKey(key)) {
+      return {
+        error:
+          "Task keys are 1-64 letters, digits, '.', '-' or '_', starting with a letter or digit",
+        index,
+      };
+    }
+    if (idempotencyKey !== undefined) {
+      return { error: "Tasks in a workflow can't have an idempotencyKey", index };
+    }
+    const dependencies = parseDependsOn(dependsOn, "task keys", isStepKey);
+    if (dependencies.error) {
+      return { error: dependencies.error, index };
+    }
+    const request = parseTaskRequest(payload, { tenant });
+    if ("error" in request) {
+      return { ...request, index };
+    }
+    steps.push({ key, dependsOn: dependencies.ids!, input: request.input });
+  }
+
+  const order = workflowLevels(steps);
+  if ("error" in order) {
+    return { error: order.error };
+  }
+  return {
+    input: {
+      name: name as string | undefined,
+      tenant,
+      steps,
+    },
+  };
+}
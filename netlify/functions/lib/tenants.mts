@@ -0,0 +1,306 @@
+// Tenant fairness and quotas. Every task belongs to a tenant (the X-Tenant-Id
+// header or `tenant` in the body, "default" otherwise). Within the lane
+// claim() takes from (see priority.mts), the tenant is picked by:
+//   round-robin -> the next waiting tenant after the one served last
+//   weighted    -> weighted fair queuing: each start advances the tenant's
+//                  virtual time by 1/weight, and the tenant furthest behind goes
+//                  next, so a weight-3 tenant gets three starts to a weight-1's one
+// and each tenant's own tasks stay FIFO. A tenant only gets credit while it has
+// work waiting - an idle tenant can't bank starts for later.
+//
+// Quotas, each optional, apply to every tenant unless overridden for one:
+//   maxQueued  -> tasks waiting (queued, retrying or scheduled); enqueue past it
+//                 is refused (429 + Retry-After at /api/queue-task)
+//   maxStarted -> starts per rolling window; claim() skips the tenant until one ages out
+//
+// Settings are layered like the limiter's: environment (TENANT_FAIRNESS,
+// TENANT_WEIGHTS "acme=3,globex=1", TENANT_MAX_QUEUED, TENANT_MAX_STARTED,
+// TENANT_STARTED_WINDOW_MS), then the `settings/tenants` entry
+// (PUT /api/tenant-settings), then QueueOptions.
+//
+// Like limiter.mts, everything here is pure - queue.mts keeps the TenantState
+// in one entry and applies these inside a compare-and-swap.
+
+export const DEFAULT_TENANT = "default";
+
+export type FairnessMode = "round-robin" | "weighted";
+
+export interface StartQuota {
+  limit: number;
+  windowMs: number;
+}
+
+// Per-tenant overrides; anything left out uses the tenant-wide default
+export interface TenantOverride {
+  weight?: number;
+  maxQueued?: number | null;
+  maxStarted?: StartQuota | null;
+}
+
+export interface TenantSettings {
+  mode: FairnessMode;
+  weight: number; // Default weight
+  maxQueued: number | null; // Default quotas (null = unlimited)
+  maxStarted: StartQuota | null;
+  tenants: Record<string, TenantOverride>;
+}
+
+export interface TenantState {
+  lastServed: string | null; // Round-robin cursor
+  virtualTime: Record<string, number>; // Weighted fair queuing, per tenant
+  starts: Record<string, number[]>; // Start timestamps, for tenants with maxStarted
+}
+
+export const DEFAULT_STARTED_WINDOW_MS = 60000;
+
+const TENANT_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/;
+
+export function isTenantId(value: unknown): value is string {
+  return typeof value === "string" && TENANT_PATTERN.test(value);
+}
+
+function envPositive(name: string): number | null {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+export function envTenantSettings(): TenantSettings {
+  const tenants: Record<string, TenantOverride> = {};
+  for (const pair of (process.env.TENANT_WEIGHTS ?? "").split(",")) {
+    const [tenant, weight] = pair.split("=").map((part) => part.trim());
+    if (isTenantId(tenant) && Number(weight) > 0) {
+      tenants[tenant] = { weight: Number(weight) };
+    }
+  }
+  const maxStarted = envPositive("TENANT_MAX_STARTED");
+
+  return {
+    mode: process.env.TENANT_FAIRNESS === "weighted" ? "weighted" : "round-robin",
+    weight: 1,
+    maxQueued: envPositive("TENANT_MAX_QUEUED"),
+    maxStarted: maxStarted
+      ? {
+          limit: maxStarted,
+          windowMs:
+            envPositive("TENANT_STARTED_WINDOW_MS") ?? DEFAULT_STARTED_WINDOW_MS,
+        }
+      : null,
+    tenants,
+  };
+}
+
+// Later layers win; `tenants` is merged per tenant rather than replaced
+export function resolveTenantSettings(
+  base: TenantSettings,
+  ...overrides: (Partial<TenantSettings> | null | undefined)[]
+): TenantSettings {
+  const settings = { ...base, tenants: { ...base.tenants } };
+  for (const override of overrides) {
+    if (!override) {
+      continue;
+    }
+    const { tenants, ...rest } = override;
+    for (const [key, value] of Object.entries(rest)) {
+      if (value !== undefined) {
+        Object.assign(settings, { [key]: value });
+      }
+    }
+    for (const [tenant, tenantOverride] of Object.entries(tenants ?? {})) {
+      settings.tenants[tenant] = { ...settings.tenants[tenant], ...tenantOverride };
+    }
+  }
+  return settings;
+}
+
+function isPositive(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+function quotaError(
+  prefix: string,
+  { maxQueued, maxStarted, weight }: Record<string, unknown>
+): string | null {
+  if (weight !== undefined && !isPositive(weight)) {
+    return `${prefix}weight must be a positive number`;
+  }
+  if (maxQueued != null && !isPositive(maxQueued)) {
+    return `${prefix}maxQueued must be a positive number`;
+  }
+  if (maxStarted != null) {
+    const { limit, windowMs } = maxStarted as Record<string, unknown>;
+    if (!isPositive(limit) || !isPositive(windowMs)) {
+      return `${prefix}maxStarted needs a positive limit and windowMs`;
+    }
+  }
+  return null;
+}
+
+// Error message for a settings override that isn't usable, or null if it's fine
+export function validateTenantSettings(input: unknown): string | null {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return "Settings must be an object";
+  }
+  const { mode, weight, maxQueued, maxStarted, tenants, ...rest } =
+    input as Record<string, unknown>;
+  const unknownKeys = Object.keys(rest);
+  if (unknownKeys.length > 0) {
+    return `Unknown setting: ${unknownKeys[0]}`;
+  }
+  if (mode !== undefined && mode !== "round-robin" && mode !== "weighted") {
+    return "mode must be round-robin or weighted";
+  }
+  const defaultsError = quotaError("", { weight, maxQueued, maxStarted });
+  if (defaultsError) {
+    return defaultsError;
+  }
+  if (tenants !== undefined) {
+    if (typeof tenants !== "object" || tenants === null || Array.isArray(tenants)) {
+      return "tenants must be an object keyed by tenant ID";
+    }
+    for (const [tenant, override] of Object.entries(tenants)) {
+      if (!isTenantId(tenant)) {
+        return `Invalid tenant ID: ${tenant}`;
+      }
+      if (typeof override !== "object" || override === null) {
+        return `tenants.${tenant} must be an object`;
+      }
+      const error = quotaError(`tenants.${tenant}.`, override as Record<string, unknown>);
+      if (error) {
+        return error;
+      }
+    }
+  }
+  return null;
+}
+
+export function emptyTenantState(): TenantState {
+  return { lastServed: null, virtualTime: {}, starts: {} };
+}
+
+// The tenant's effective weight and quotas
+export function tenantQuota(
+  settings: TenantSettings,
+  tenant: string
+): { weight: number; maxQueued: number | null; maxStarted: StartQuota | null } {
+  const override = settings.tenants[tenant] ?? {};
+  return {
+    weight: override.weight ?? settings.weight,
+    maxQueued:
+      override.maxQueued !== undefined ? override.maxQueued : settings.maxQueued,
+    maxStarted:
+      override.maxStarted !== undefined ? override.maxStarted : settings.maxStarted,
+  };
+}
+
+// When the tenant may next start a task, or null if it may start one now
+export function startAllowedAt(
+  settings: TenantSettings,
+  state: TenantState,
+  tenant: string,
+  now: number
+): number | null {
+  const quota = tenantQuota(settings, tenant).maxStarted;
+  if (!quota) {
+    return null;
+  }
+  const recent = (state.starts[tenant] ?? [])
+    .filter((timestamp) => timestamp > now - quota.windowMs)
+    .sort((a, b) => a - b);
+  return recent.length < quota.limit
+    ? null
+    : recent[recent.length - quota.limit] + quota.windowMs;
+}
+
+// Virtual time of the slowest of the waiting tenants. One without an entry -
+// new, or dropped while idle - starts level with that rather than at 0,
+// which would let it take every start until it caught up.
+function baseVirtualTime(state: TenantState, candidates: string[]): number {
+  const times = candidates.flatMap((tenant) =>
+    tenant in state.virtualTime ? [state.virtualTime[tenant]] : []
+  );
+  return times.length > 0 ? Math.min(...times) : 0;
+}
+
+// Which of the waiting tenants (all allowed to start) is served next
+export function pickTenant(
+  candidates: string[],
+  settings: TenantSettings,
+  state: TenantState
+): string | null {
+  if (candidates.length <= 1) {
+    return candidates[0] ?? null;
+  }
+  const sorted = [...candidates].sort();
+
+  if (settings.mode === "round-robin") {
+    const last = state.lastServed;
+    return sorted.find((tenant) => last === null || tenant > last) ?? sorted[0];
+  }
+
+  // Furthest behind goes first; ties go alphabetically
+  const base = baseVirtualTime(state, sorted);
+  const time = (tenant: string) => Math.max(state.virtualTime[tenant] ?? 0, base);
+  return sorted.reduce((best, tenant) => (time(tenant) < time(best) ? tenant : best));
+}
+
+// Records a start for the tenant, unless its start quota is used up (false).
+// `candidates` are the tenants that were waiting when it was picked, itself included.
+export function serveTenant(
+  settings: TenantSettings,
+  state: TenantState,
+  tenant: string,
+  candidates: string[],
+  now: number
+): boolean {
+  if (startAllowedAt(settings, state, tenant, now) !== null) {
+    return false;
+  }
+  const { weight, maxStarted } = tenantQuota(settings, tenant);
+
+  state.lastServed = tenant;
+
+  // Every waiting tenant catches up to the slowest of them, then this one
+  // pays for its start. Anyone not waiting and behind that point would be
+  // caught up anyway, so drop them.
+  const base = baseVirtualTime(state, candidates);
+  for (const waiting of candidates) {
+    state.virtualTime[waiting] = Math.max(state.virtualTime[waiting] ?? base, base);
+  }
+  state.virtualTime[tenant] += 1 / weight;
+  for (const [other, time] of Object.entries(state.virtualTime)) {
+    if (time < base) {
+      delete state.virtualTime[other];
+    }
+  }
+
+  if (maxStarted) {
+    state.starts[tenant] = [...(state.starts[tenant] ?? []), now];
+  }
+  // Forget starts that have aged out of their tenant's window
+  for (const [other, starts] of Object.entries(state.starts)) {
+    const window = tenantQuota(settings, other).maxStarted?.windowMs ?? 0;
+    const recent = starts.filter((timestamp) => timestamp > now - window);
+    if (recent.length > 0) {
+      state.starts[other] = recent;
+    } else {
+      delete state.starts[other];
+    }
+  }
+  return true;
+}
+
+// Gives back a start serveTenant() recorded for a task that didn't start
+export function refundTenant(
+  state: TenantState,
+  tenant: string,
+  startedAt: number
+): void {
+  const starts = state.starts[tenant];
+  const index = starts?.indexOf(startedAt) ?? -1;
+  if (index !== -1) {
+    starts.splice(index, 1);
+  }
+  if (starts?.length === 0) {
+    delete state.starts[tenant];
+  }
+}
@@ -0,0 +1,204 @@
+// Shared queue types - used by the Netlify functions and the dashboard (app/page.tsx)
+
+export type TaskStatus = "queued" | "processing" | "completed" | "failed" | "cancelled";
+
+// Each priority is its own lane in the queue (see priority.mts)
+export type TaskPriority = "high" | "normal" | "low";
+
+export interface Task {
+  id: string;
+  type: string; // Selects the handler that runs the task (see handlers.mts)
+  status: TaskStatus;
+  priority: TaskPriority;
+  tenant: string; // Who submitted it - fairness and quotas are per tenant (see tenants.mts)
+  createdAt: number;
+  startedAt?: number;
+  completedAt?: number;
+  failedAt?: number; // Set when the task is dead-lettered
+  cancelledAt?: number;
+  cancelRequestedAt?: number; // Set while a processing task is asked to stop (see handlers.mts)
+  attempts: number; // Times the task has been claimed
+  maxAttempts: number;
+  workerId?: string; // Worker holding (or that last held) the lease
+  leaseExpiresAt?: number; // Set while processing; renewed by worker heartbeats
+  reclaims: number; // Times the reaper took the task back from a dead worker
+  retryAt?: number; // Set while a failed attempt is backing off before requeue
+  runAt?: number; // Set while a task enqueued for later waits to become eligible
+  error?: string; // Message from the most recent failed attempt
+  data?: unknown;
+  result?: unknown; // Whatever the handler returned
+  callbackUrl?: string; // POSTed to when the task completes, is cancelled or is dead-lettered (see callbacks.mts)
+  callbackDeliveries?: CallbackDelivery[]; // Oldest first
+  idempotencyKey?: string; // The Idempotency-Key it was submitted with
+  dependsOn?: string[]; // Task IDs that must complete before this one can start
+  waitingOn?: string[]; // Set while blocked: the dependencies yet to complete
+  workflowId?: string; // The workflow it was submitted in (see workflows.mts)
+}
+
+export type CallbackEventType = "task.completed" | "task.failed" | "task.cancelled";
+
+// One attempt at POSTing a completion callback
+export interface CallbackDelivery {
+  event: CallbackEventType;
+  attempt: number; // 1-based, per event
+  at: number;
+  delivered: boolean; // True on a 2xx response
+  statusCode?: number; // Missing if the request itself failed
+  error?: string;
+  nextAttemptAt?: number; // Set if another attempt is scheduled
+}
+
+// Current state of one enabled limiter policy (see limiter.mts)
+export type LimiterPolicyStatus =
+  | {
+      type: "sliding-window";
+      limit: number;
+      windowSeconds: number;
+      used: number; // Tasks STARTED in the current window
+      remaining: number;
+      resetAt: number | null; // When a start is next allowed, if none are now
+    }
+  | {
+      type: "token-bucket";
+      capacity: number;
+      refillPerSecond: number;
+      tokens: number; // Fractional while refilling
+      remaining: number;
+      resetAt: number | null;
+    }
+  | {
+      type: "max-concurrency";
+      limit: number;
+      active: number;
+      remaining: number;
+      resetAt: null; // A slot frees when a running task finishes
+    };
+
+export interface RateLimitInfo {
+  remaining: number | null; // Starts allowed right now by every policy (null = no limits)
+  resetAt: number | null; // When starts resume, if blocked and it's time-based
+  policies: LimiterPolicyStatus[];
+}
+
+// Counts and rate limit without the task lists (sent as "stats" on /api/queue-events)
+export interface QueueSummary {
+  stats: {
+    queuedCount: number; // All lanes
+    lanes: Record<TaskPriority, number>; // Queued per priority
+    processingCount: number;
+    completedCount: number;
+    retryingCount: number;
+    scheduledCount: number;
+    blockedCount: number; // Waiting on dependencies
+    deadLetterCount: number;
+    cancelledCount: number;
+    totalTasks: number;
+    tenants: Record<string, number>; // Waiting (queued, retrying, scheduled, blocked) per tenant
+  };
+  rateLimit: RateLimitInfo;
+  control: QueueControl;
+}
+
+// Set through /api/queue-control
+export interface QueueControl {
+  paused: boolean; // Workers claim nothing; queued tasks wait
+  draining: boolean; // New tasks are refused; queued ones still run
+}
+
+// Response body of GET /api/queue-status
+export interface QueueStatus extends QueueSummary {
+  queued: Task[]; // Next 50 queued, high lane first
+  processing: Task[];
+  completed: Task[]; // Last 50 completed
+  retrying: Task[]; // Failed attempts waiting out their backoff
+  scheduled: Task[]; // Next 50 waiting for their runAt
+  blocked: Task[]; // First 50 waiting on dependencies
+  deadLetter: Task[]; // Last 50 that exhausted their attempts
+  cancelled: Task[]; // Last 50 cancelled
+}
+
+// Response body of GET /api/task/:id
+export interface TaskDetails extends Task {
+  position: number | null; // 1-based queue position while waiting, else null
+}
+
+export type QueueEventType =
+  | "queued" // Enqueued, or retried out of the dead-letter queue
+  | "started"
+  | "completed"
+  | "failed" // Check task.status: "queued" (with retryAt) = will retry, "failed" = dead-lettered
+  | "purged" // Deleted from the dead-letter queue
+  | "cancelled"
+  | "cancel-requested" // Processing task asked to stop; its handler decides when
+  | "moved" // Moved within the queue (front/back, or to another lane)
+  | "cleared"; // Whole queue cleared - no taskId
+
+// A task lifecycle event (sent as "task" on /api/queue-events)
+export interface QueueEvent {
+  id: string; // Sortable by time - used as the SSE event ID
+  type: QueueEventType;
+  at: number;
+  taskId?: string;
+  task?: Task; // Snapshot after the transition
+}
+
+export type TaskEventType =
+  | "enqueued"
+  | "deferred" // Scheduled for later - retryAt is when it becomes eligible
+  | "rate-limited" // Next in line, but the limiter refused the claim until retryAt
+  | "claimed"
+  | "failed" // retryAt set = will retry then, missing = dead-lettered
+  | "retried" // Back in its lane: backoff over, or retried from the dead-letter queue
+  | "completed"
+  | "cancel-requested"
+  | "cancelled"
+  | "blocked" // Enqueued, but waiting on dependencies - reason says how many
+  | "unblocked" // Its last dependency completed; on to its lane (or its runAt)
+  | "requeued" // Sent back to the queue by /api/task/:id/requeue
+  | "moved";
+
+// One entry in a task's own history (GET /api/task/:id/events), unlike
+// QueueEvent which is the whole queue's short-lived feed
+export interface TaskEvent {
+  type: TaskEventType;
+  at: number;
+  workerId?: string; // The worker involved, if any
+  attempt?: number; // Attempt number (claimed, completed, failed)
+  reason?: string; // The error, why it was cancelled, where it moved, ...
+  retryAt?: number;
+}
+
+// Response body of GET /api/task/:id/events
+export interface TaskEventLog {
+  taskId: string;
+  events: TaskEvent[]; // Oldest first
+}
+
+// An entry in GET /api/queues
+export interface QueueListing extends QueueSummary {
+  name: string;
+}
+
+// Where a workflow is as a whole: "pending" until one of its tasks starts,
+// then "running" until none are left to run. A finished workflow is "failed"
+// if a task was dead-lettered, "cancelled" if any was cancelled (including
+// dependents of a failed task), otherwise "completed".
+export type WorkflowStatus = "pending" | "running" | "completed" | "failed" | "cancelled";
+
+export interface WorkflowTask {
+  key: string; // Its name within the workflow
+  taskId: string;
+  dependsOn: string[]; // Keys of the tasks it waits for
+  status: TaskStatus | "blocked" | "missing"; // "missing" = deleted since (e.g. by retention)
+}
+
+// Response body of POST /api/workflows and GET /api/workflows/:id
+export interface WorkflowDetails {
+  id: string;
+  name: string | null;
+  tenant: string;
+  createdAt: number;
+  status: WorkflowStatus;
+  counts: Record<WorkflowTask["status"], number>;
+  tasks: WorkflowTask[]; // In submission order
+}
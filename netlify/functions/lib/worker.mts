@@ -0,0 +1,263 @@
+import type { Queue } from "./queue.mts";
+import {
+  DEFAULT_QUEUE,
+  isQueueName,
+  openQueue,
+  triggerProcessing,
+} from "./queues.mts";
+import { getTaskHandler } from "./handlers.mts";
+import { callbackEvent, deliverCallback } from "./callbacks.mts";
+import { workloadClient } from "./workloads.mts";
+import type { Task } from "./types.mts";
+
+// The worker chain, run by the process-task async workload (or in-process by
+// the simulator - see workloads.mts). A process-task event claims and runs one
+// task. Right after its claim and again when it's done, the worker fans out:
+// one more event for every task the limiter would let start now, or - when
+// it's the limiter holding them - one delayed to the moment its next slot
+// frees. deliver-callback events retry completion callbacks.
+
+// How often a running task checks whether it has been cancelled
+const CANCEL_CHECK_INTERVAL = 5000;
+// Most process-task events one worker sends at a time; the workers it starts
+// fan out in turn, so this only limits how fast the chain widens
+const MAX_FAN_OUT = Number(process.env.MAX_WORKER_FAN_OUT) || 25;
+
+// Try the task's completion callback; failed deliveries come back as their own
+// deliver-callback event once the backoff is up
+async function sendCallback(
+  queueName: string,
+  queue: Queue,
+  task: Task,
+  attempt = 1
+): Promise<void> {
+  try {
+    const nextAttemptAt = await deliverCallback(queue, task, attempt);
+    if (nextAttemptAt) {
+      await workloadClient().send("deliver-callback", {
+        data: {
+          queue: queueName,
+          taskId: task.id,
+          event: callbackEvent(task),
+          attempt: attempt + 1,
+        },
+        delayUntil: nextAttemptAt,
+      });
+    }
+  } catch (error) {
+    console.error(`Callback for task ${task.id} (attempt ${attempt}) failed:`, error);
+  }
+}
+
+// Run the handler registered for the task's type; its return value is the result
+async function runTask(task: Task, signal: AbortSignal): Promise<unknown> {
+  const handler = getTaskHandler(task.type);
+  if (!handler) {
+    // Validated at enqueue, so the handler must have been removed since
+    throw new Error(`No handler registered for task type "${task.type}"`);
+  }
+  return handler(task.data, { task, signal });
+}
+
+// Requeue with backoff (and schedule a wake-up for it) or dead-letter the task
+async function recordFailure(
+  queueName: string,
+  queue: Queue,
+  task: Task,
+  workerId: string,
+  error: unknown
+): Promise<void> {
+  const message = error instanceof Error ? error.message : String(error);
+  const result = await queue.fail(task.id, workerId, message);
+  const attempt = `attempt ${task.attempts}/${task.maxAttempts}`;
+
+  if (!result) {
+    // The reaper already took it back (and counted this attempt)
+    console.error(`Task ${task.id} failed (${attempt}) after losing its lease:`, message);
+  } else if (result.deadLettered) {
+    console.error(
+      `Task ${task.id} failed (${attempt}), moved to dead-letter queue:`,
+      message
+    );
+    await sendCallback(queueName, queue, result.task);
+  } else {
+    console.warn(
+      `Task ${task.id} failed (${attempt}), retrying at ${new Date(
+        result.retryAt
+      ).toISOString()}:`,
+      message
+    );
+    // Nothing else wakes the queue when the backoff ends - schedule it now
+    await triggerProcessing(queueName, result.retryAt);
+  }
+}
+
+// Sends the workers Queue.reserveDispatch() books. A failure here only slows
+// the queue down - the scheduler function restarts a stalled chain.
+async function dispatchWorkers(queueName: string, queue: Queue): Promise<void> {
+  try {
+    const dispatches = await queue.reserveDispatch(MAX_FAN_OUT);
+    const now = Date.now();
+    for (const dispatch of dispatches) {
+      if (dispatch.at > now) {
+        console.log(
+          `Limiter full - waking queue ${queueName} at ${new Date(dispatch.at).toISOString()}`
+        );
+      }
+    }
+    await Promise.all(
+      dispatches.map((dispatch) =>
+        triggerProcessing(
+          queueName,
+          dispatch.at > now ? dispatch.at : undefined,
+          dispatch.id
+        )
+      )
+    );
+  } catch (error) {
+    console.error(`Failed to dispatch workers for queue ${queueName}:`, error);
+  }
+}
+
+async function processNextTask(queueName: string, dispatchId?: string): Promise<void> {
+  const queue = openQueue(queueName);
+  const workerId = `worker-${crypto.randomUUID()}`;
+
+  if (dispatchId) {
+    try {
+      await queue.dispatchArrived(dispatchId);
+    } catch (error) {
+      // It times out of the dispatch list on its own
+      console.error(`Failed to check in dispatch ${dispatchId}:`, error);
+    }
+  }
+
+  // Claim the next task - the limiter check and the move to `processing`
+  // are compare-and-swaps, so two workers can't claim the same task
+  const claim = await queue.claim(workerId);
+
+  if (!claim.task) {
+    if (claim.reason === "rate-limited") {
+      console.log(
+        claim.retryAt
+          ? `Rate limited until ${new Date(claim.retryAt).toISOString()}. Waiting...`
+          : "At max concurrency. Waiting for a running task to finish..."
+      );
+      // Book the wake-up for when the limiter frees up (a finishing task
+      // restarts the chain if it's concurrency that's full)
+      await dispatchWorkers(queueName, queue);
+    } else if (claim.reason === "paused") {
+      console.log(`Queue ${queueName} is paused - resuming it restarts processing`);
+    } else {
+      console.log(`No tasks in queue ${queueName}`);
+    }
+    return;
+  }
+
+  const { task } = claim;
+
+  console.log(`Processing ${task.type} task ${task.id} from queue ${queueName}`);
+
+  // Put the rest of the limiter's room to use while this one runs
+  await dispatchWorkers(queueName, queue);
+
+  // Keep the lease alive while we work - if this function dies, the heartbeats
+  // stop and the reap-leases function requeues the task once the lease expires.
+  // Renew at a quarter of the lease the queue gave us, so one slow or failed
+  // heartbeat isn't fatal.
+  const heartbeatInterval = (task.leaseExpiresAt! - Date.now()) / 4;
+  const heartbeat = setInterval(() => {
+    queue
+      .heartbeat(task.id, workerId)
+      .then((held) => {
+        if (!held) {
+          console.warn(`Lost lease on task ${task.id} - it will be retried elsewhere`);
+        }
+      })
+      .catch((error) => console.error(`Heartbeat for task ${task.id} failed:`, error));
+  }, heartbeatInterval);
+
+  // POST /api/task/:id/cancel only flags a running task - watch for the flag
+  // and abort the handler's signal when it shows up
+  const cancellation = new AbortController();
+  const cancelCheck = setInterval(() => {
+    queue
+      .get(task.id)
+      .then((current) => {
+        if (current?.cancelRequestedAt) {
+          cancellation.abort();
+        }
+      })
+      .catch((error) => console.error(`Cancel check for task ${task.id} failed:`, error));
+  }, CANCEL_CHECK_INTERVAL);
+
+  let failed = false;
+  let failure: unknown;
+  let result: unknown;
+  try {
+    result = await runTask(task, cancellation.signal);
+  } catch (error) {
+    failed = true;
+    failure = error;
+  } finally {
+    clearInterval(heartbeat);
+    clearInterval(cancelCheck);
+  }
+
+  if (cancellation.signal.aborted) {
+    // However the handler ended after the abort, the task was cancelled
+    const cancelled = await queue.acknowledgeCancel(task.id, workerId);
+    if (cancelled) {
+      console.log(`Cancelled task ${task.id}`);
+      await sendCallback(queueName, queue, cancelled);
+    } else {
+      console.warn(`Stopped cancelled task ${task.id} after losing its lease`);
+    }
+  } else if (failed) {
+    await recordFailure(queueName, queue, task, workerId, failure);
+  } else {
+    // Mark task as completed
+    // Note: Rate limit history is tracked when tasks START (in claim()),
+    // not when they complete. Only the concurrency slot is released here.
+    const completed = await queue.complete(task.id, workerId, result);
+    if (completed) {
+      console.log(`Completed task ${task.id}`);
+      await sendCallback(queueName, queue, completed);
+    } else {
+      console.warn(`Finished task ${task.id} after losing its lease - result discarded`);
+    }
+  }
+
+  // This task's concurrency slot is free again - fill it, and anything else
+  // that freed up while it ran
+  await dispatchWorkers(queueName, queue);
+}
+
+export async function handleWorkloadEvent(
+  eventName: string,
+  eventData: unknown
+): Promise<void> {
+  // Every event names its queue (events sent before named queues existed don't)
+  const data = (eventData ?? {}) as { queue?: unknown; dispatchId?: unknown };
+  const queueName = isQueueName(data.queue) ? data.queue : DEFAULT_QUEUE;
+
+  if (eventName === "process-task") {
+    await processNextTask(
+      queueName,
+      typeof data.dispatchId === "string" ? data.dispatchId : undefined
+    );
+  } else if (eventName === "deliver-callback") {
+    // Retry of a failed callback delivery (see sendCallback)
+    const retry = eventData as {
+      taskId: string;
+      event: string;
+      attempt: number;
+    };
+    const queue = openQueue(queueName);
+    const task = await queue.get(retry.taskId);
+    // Skip if the outcome changed since (e.g. retried out of the dead-letter queue)
+    if (task && callbackEvent(task) === retry.event) {
+      await sendCallback(queueName, queue, task, retry.attempt);
+    }
+  }
+}
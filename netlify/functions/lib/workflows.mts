@@ -0,0 +1,137 @@
+import type {
+  Task,
+  WorkflowDetails,
+  WorkflowStatus,
+  WorkflowTask,
+} from "./types.mts";
+
+// Workflows: tasks submitted together (POST /api/workflows), each named by a
+// `key` within the workflow and listing the keys it depends on. queue.mts
+// creates them all or none, and holds each task back until the tasks it
+// depends on complete. The functions here are pure - checking the graph and
+// summing up where a workflow has got to.
+
+export const MAX_WORKFLOW_TASKS = 100;
+
+const STEP_KEY_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/;
+
+export interface WorkflowStep {
+  key: string;
+  dependsOn: string[]; // Keys of other steps
+}
+
+// Stored at workflows/<id>
+export interface WorkflowRecord {
+  id: string;
+  name: string | null;
+  tenant: string;
+  createdAt: number;
+  tasks: { key: string; taskId: string; dependsOn: string[] }[]; // Submission order
+}
+
+export function isStepKey(value: unknown): value is string {
+  return typeof value === "string" && STEP_KEY_PATTERN.test(value);
+}
+
+// The step keys by depth: every step depends only on steps in earlier levels,
+// so the first level is the steps that can start right away. An error instead
+// if a key is repeated, a dependency names no step, or the steps form a cycle.
+export function workflowLevels(
+  steps: WorkflowStep[]
+): { levels: string[][] } | { error: string } {
+  const remaining = new Map<string, Set<string>>();
+  for (const step of steps) {
+    if (remaining.has(step.key)) {
+      return { error: `Task key "${step.key}" is used more than once` };
+    }
+    remaining.set(step.key, new Set(step.dependsOn));
+  }
+  for (const step of steps) {
+    for (const parent of step.dependsOn) {
+      if (parent === step.key) {
+        return { error: `Task "${step.key}" depends on itself` };
+      }
+      if (!remaining.has(parent)) {
+        return { error: `Task "${step.key}" depends on "${parent}", which isn't in the workflow` };
+      }
+    }
+  }
+
+  const levels: string[][] = [];
+  while (remaining.size > 0) {
+    const ready = [...remaining]
+      .filter(([, parents]) => parents.size === 0)
+      .map(([key]) => key);
+    if (ready.length === 0) {
+      return {
+        error: `Tasks ${[...remaining.keys()]
+          .map((key) => `"${key}"`)
+          .join(", ")} depend on each other in a cycle`,
+      };
+    }
+    for (const key of ready) {
+      remaining.delete(key);
+    }
+    for (const parents of remaining.values()) {
+      for (const key of ready) {
+        parents.delete(key);
+      }
+    }
+    levels.push(ready);
+  }
+  return { levels };
+}
+
+function taskState(task: Task | null): WorkflowTask["status"] {
+  if (!task) {
+    return "missing";
+  }
+  return task.status === "queued" && task.waitingOn?.length ? "blocked" : task.status;
+}
+
+function aggregateStatus(
+  counts: WorkflowDetails["counts"],
+  started: boolean
+): WorkflowStatus {
+  if (counts.blocked + counts.queued + counts.processing > 0) {
+    return started ? "running" : "pending";
+  }
+  if (counts.failed > 0) {
+    return "failed";
+  }
+  return counts.cancelled > 0 ? "cancelled" : "completed";
+}
+
+// `tasks` in the record's order; null for any that no longer exist
+export function describeWorkflow(
+  record: WorkflowRecord,
+  tasks: (Task | null)[]
+): WorkflowDetails {
+  const counts: WorkflowDetails["counts"] = {
+    blocked: 0,
+    queued: 0,
+    processing: 0,
+    completed: 0,
+    failed: 0,
+    cancelled: 0,
+    missing: 0,
+  };
+  const described = record.tasks.map(({ key, taskId, dependsOn }, index) => {
+    const status = taskState(tasks[index]);
+    counts[status] += 1;
+    return { key, taskId, dependsOn, status };
+  });
+  // Any task that has been claimed, even if it's back in the queue for a
+  // retry, means it's underway
+  const started = tasks.some((task) => task && task.attempts > 0);
+
+  return {
+    id: record.id,
+    name: record.name,
+    tenant: record.tenant,
+    createdAt: record.createdAt,
+    status: aggregateStatus(counts, started),
+    counts,
+    tasks: described,
+  };
+}
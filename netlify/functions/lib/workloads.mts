@@ -0,0 +1,92 @@
+// Sending async workload events (process-task, deliver-callback - see
+// worker.mts). In production they go through the async-workloads extension;
+// setWorkloadClient() swaps in another transport, like the in-process one
+// below that the simulator uses.
+
+export interface WorkloadEventOptions {
+  data: unknown;
+  delayUntil?: number; // Not delivered before this time (ms since epoch)
+}
+
+export interface WorkloadClient {
+  send(eventName: string, options: WorkloadEventOptions): Promise<void>;
+}
+
+export type WorkloadHandler = (eventName: string, data: unknown) => Promise<void>;
+
+export interface LocalWorkloadOptions {
+  concurrency?: number; // Handlers running at once; the rest wait their turn
+  maxRetries?: number; // Deliveries after a handler throws (default 3)
+  retryDelayMs?: number; // Before the first retry, doubled each time (default 5000)
+}
+
+export interface LocalWorkloadClient extends WorkloadClient {
+  pending(): number; // Events waiting, delayed or running
+}
+
+const asyncWorkloadsClient: WorkloadClient = {
+  async send(eventName, options) {
+    const { AsyncWorkloadsClient } = await import("@netlify/async-workloads");
+    await new AsyncWorkloadsClient().send(eventName, options);
+  },
+};
+
+let currentClient: WorkloadClient | null = null;
+
+export function setWorkloadClient(client: WorkloadClient | null): void {
+  currentClient = client;
+}
+
+export function workloadClient(): WorkloadClient {
+  return currentClient ?? asyncWorkloadsClient;
+}
+
+// Delivers events to `handler` in this process. Like async workloads, a
+// delayed event waits for its delayUntil and a handler that throws gets the
+// event again with backoff.
+export function createLocalWorkloadClient(
+  handler: WorkloadHandler,
+  { concurrency = Infinity, maxRetries = 3, retryDelayMs = 5000 }: LocalWorkloadOptions = {}
+): LocalWorkloadClient {
+  const ready: { eventName: string; data: unknown; attempt: number }[] = [];
+  let waiting = 0; // Delayed, not yet ready
+  let running = 0;
+
+  function deliverAt(at: number, event: (typeof ready)[number]): void {
+    waiting += 1;
+    setTimeout(() => {
+      waiting -= 1;
+      ready.push(event);
+      next();
+    }, Math.max(0, at - Date.now()));
+  }
+
+  function next(): void {
+    while (running < concurrency && ready.length > 0) {
+      const event = ready.shift()!;
+      running += 1;
+      handler(event.eventName, event.data)
+        .catch((error) => {
+          if (event.attempt > maxRetries) {
+            console.error(`Giving up on ${event.eventName} event:`, error);
+            return;
+          }
+          deliverAt(Date.now() + retryDelayMs * 2 ** (event.attempt - 1), {
+            ...event,
+            attempt: event.attempt + 1,
+          });
+        })
+        .finally(() => {
+          running -= 1;
+          next();
+        });
+    }
+  }
+
+  return {
+    async send(eventName, { data, delayUntil }) {
+      deliverAt(delayUntil ?? Date.now(), { eventName, data, attempt: 1 });
+    },
+    pending: () => waiting + ready.length + running,
+  };
+}
@@ -0,0 +1,72 @@
+import type { Config } from "@netlify/functions";
+import {
+  invalidQueueNameResponse,
+  openQueue,
+  queueNameFrom,
+} from "./lib/queues.mts";
+import { validateLimiterSettings } from "./lib/limiter.mts";
+import { requireRole } from "./lib/auth.mts";
+
+// GET    /api/limiter-settings            -> effective limiter settings
+// PUT    /api/limiter-settings { ...}     -> store a runtime override (replaces the last one);
+//                                             omitted policies inherit the environment, null disables
+// DELETE /api/limiter-settings            -> back to the environment settings
+// Settings are per queue - `?queue=<name>` (default "default").
+export default async (req: Request) => {
+  const auth = await requireRole(req, req.method === "GET" ? "operator" : "admin");
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  const queueName = queueNameFrom(req);
+  if (!queueName) {
+    return invalidQueueNameResponse();
+  }
+
+  try {
+    const queue = openQueue(queueName);
+    let settings;
+
+    if (req.method === "GET") {
+      settings = await queue.limiterSettings();
+    } else if (req.method === "PUT") {
+      const body = await req.json().catch(() => null);
+      const error = validateLimiterSettings(body);
+      if (error) {
+        return new Response(JSON.stringify({ success: false, error }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+      settings = await queue.setLimiterSettings(body);
+    } else if (req.method === "DELETE") {
+      settings = await queue.setLimiterSettings(null);
+    } else {
+      return new Response("Method not allowed", { status: 405 });
+    }
+
+    return new Response(JSON.stringify({ success: true, settings }), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-cache",
+      },
+    });
+  } catch (error) {
+    console.error("Error handling limiter settings request:", error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+};
+
+export const config: Config = {
+  path: "/api/limiter-settings",
+};
@@ -0,0 +1,124 @@
+import type { Config, Context } from "@netlify/functions";
+import {
+  invalidQueueNameResponse,
+  listQueues,
+  openQueue,
+  queueNameFrom,
+} from "./lib/queues.mts";
+import { requireRole } from "./lib/auth.mts";
+import {
+  buildMetrics,
+  METRICS_BUCKET_MS,
+  METRICS_RETENTION_MS,
+  prometheusText,
+  type QueueMetrics,
+} from "./lib/metrics.mts";
+
+const DEFAULT_WINDOW_MINUTES = 15;
+const MAX_WINDOW_MINUTES = METRICS_RETENTION_MS / METRICS_BUCKET_MS;
+
+async function queueMetrics(
+  queueName: string,
+  windowMinutes: number,
+  now: number
+): Promise<QueueMetrics> {
+  const queue = openQueue(queueName);
+  // Whole minutes, including the current (partial) one
+  const to = (Math.floor(now / METRICS_BUCKET_MS) + 1) * METRICS_BUCKET_MS;
+  const from = to - windowMinutes * METRICS_BUCKET_MS;
+  const [buckets, summary, limiterSettings] = await Promise.all([
+    queue.metrics(from),
+    queue.summary(),
+    queue.limiterSettings(),
+  ]);
+  return buildMetrics(queueName, buckets, { from, to }, summary, limiterSettings);
+}
+
+// GET /api/metrics (or /api/metrics/:queue, or ?queue=) -> enqueue/start/
+// complete/fail rates, wait and run time percentiles, rate limit utilization and
+// queue depth over the last `?window=` minutes (default 15, max 60).
+// `?format=prometheus` (or Accept: text/plain) returns the Prometheus text
+// format instead - for every queue, unless one is named.
+export default async (req: Request, context: Context) => {
+  if (req.method !== "GET") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  const auth = await requireRole(req, "operator");
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  const queueName = queueNameFrom(req, context);
+  if (!queueName) {
+    return invalidQueueNameResponse();
+  }
+
+  const params = new URL(req.url).searchParams;
+  const windowMinutes = params.has("window")
+    ? Number(params.get("window"))
+    : DEFAULT_WINDOW_MINUTES;
+  if (
+    !Number.isInteger(windowMinutes) ||
+    windowMinutes < 1 ||
+    windowMinutes > MAX_WINDOW_MINUTES
+  ) {
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: `window must be a whole number of minutes from 1 to ${MAX_WINDOW_MINUTES}`,
+      }),
+      {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+
+  const prometheus =
+    params.get("format") === "prometheus" ||
+    (!params.has("format") && (req.headers.get("Accept") ?? "").includes("text/plain"));
+
+  try {
+    const now = Date.now();
+
+    if (prometheus) {
+      const named = context.params?.queue !== undefined || params.has("queue");
+      const queueNames = named ? [queueName] : await listQueues();
+      const metrics = await Promise.all(
+        queueNames.map((name) => queueMetrics(name, windowMinutes, now))
+      );
+      return new Response(prometheusText(metrics), {
+        status: 200,
+        headers: {
+          "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+          "Cache-Control": "no-cache",
+        },
+      });
+    }
+
+    return new Response(JSON.stringify(await queueMetrics(queueName, windowMinutes, now)), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-cache",
+      },
+    });
+  } catch (error) {
+    console.error("Error getting queue metrics:", error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+};
+
+export const config: Config = {
+  path: ["/api/metrics", "/api/metrics/:queue"],
+};
@@ -0,0 +1,91 @@
+import type { Config } from "@netlify/functions";
+import {
+  invalidQueueNameResponse,
+  openQueue,
+  queueNameFrom,
+  triggerProcessing,
+} from "./lib/queues.mts";
+import type { QueueControl } from "./lib/types.mts";
+import { requireRole } from "./lib/auth.mts";
+
+const ACTIONS = new Map<unknown, Partial<QueueControl>>([
+  ["pause", { paused: true }], // Workers stop claiming; running tasks finish
+  ["resume", { paused: false }],
+  ["drain", { draining: true }], // Refuse new tasks; the queue runs down
+  ["undrain", { draining: false }],
+]);
+
+// GET  /api/queue-control                 -> { paused, draining }
+// POST /api/queue-control { "action": "pause" | "resume" | "drain" | "undrain" }
+// Per queue - `?queue=<name>` (default "default").
+export default async (req: Request) => {
+  const auth = await requireRole(req, "operator");
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  const queueName = queueNameFrom(req);
+  if (!queueName) {
+    return invalidQueueNameResponse();
+  }
+
+  try {
+    const queue = openQueue(queueName);
+    let control: QueueControl;
+
+    if (req.method === "GET") {
+      control = await queue.control();
+    } else if (req.method === "POST") {
+      const body = await req.json().catch(() => ({}));
+      const change = ACTIONS.get(body?.action);
+      if (!change) {
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error: "action must be pause, resume, drain or undrain",
+          }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+      control = await queue.setControl(change);
+
+      // Nothing was claimed while paused - restart the chain
+      if (body.action === "resume" && (await queue.hasRunnableTasks())) {
+        try {
+          await triggerProcessing(queueName);
+        } catch (error) {
+          console.error("Failed to trigger async workload:", error);
+        }
+      }
+    } else {
+      return new Response("Method not allowed", { status: 405 });
+    }
+
+    return new Response(JSON.stringify({ success: true, queue: queueName, control }), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-cache",
+      },
+    });
+  } catch (error) {
+    console.error("Error handling queue control request:", error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+};
+
+export const config: Config = {
+  path: "/api/queue-control",
+};
@@ -0,0 +1,103 @@
+import type { Config } from "@netlify/functions";
+import { eventCursor, EVENT_RETENTION_MS } from "./lib/queue.mts";
+import {
+  invalidQueueNameResponse,
+  openQueue,
+  queueNameFrom,
+} from "./lib/queues.mts";
+import { requireRole } from "./lib/auth.mts";
+
+// Server-Sent Events feed for the dashboard (one queue - `?queue=<name>`):
+//   event: snapshot  -> full QueueStatus (first connect, or Last-Event-ID too old to resume)
+//   event: task      -> QueueEvent (queued/started/completed/failed/purged/cleared)
+//   event: stats     -> QueueSummary (counts + rate limit), after task events and every few seconds
+//
+// Functions can't hold a connection forever, so each stream ends after
+// STREAM_DURATION and the browser's EventSource reconnects with Last-Event-ID
+// to resume where it left off.
+const STREAM_DURATION = 8000; // Stay under the 10s synchronous function limit
+const POLL_INTERVAL = 1000; // How often we check for new events
+const STATS_INTERVAL = 5000; // Rate limit snapshots even when nothing happens
+const RECONNECT_DELAY = 500; // Sent as the SSE `retry:` hint
+
+export default async (req: Request) => {
+  if (req.method !== "GET") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  const auth = await requireRole(req, "operator");
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  const queueName = queueNameFrom(req);
+  if (!queueName) {
+    return invalidQueueNameResponse();
+  }
+
+  const queue = openQueue(queueName);
+  const encoder = new TextEncoder();
+  const lastEventId = req.headers.get("Last-Event-ID");
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: string, data: unknown, id?: string) => {
+        controller.enqueue(
+          encoder.encode(
+            `${id ? `id: ${id}\n` : ""}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+          )
+        );
+      };
+
+      try {
+        controller.enqueue(encoder.encode(`retry: ${RECONNECT_DELAY}\n\n`));
+
+        let cursor = lastEventId;
+        const resumable =
+          cursor && parseInt(cursor, 10) > Date.now() - EVENT_RETENTION_MS;
+        if (!cursor || !resumable) {
+          // Take the cursor before reading, so events that land mid-read are
+          // replayed rather than missed (the dashboard applies them idempotently)
+          cursor = eventCursor(Date.now());
+          send("snapshot", await queue.status(), cursor);
+        }
+
+        const deadline = Date.now() + STREAM_DURATION;
+        let lastStatsAt = 0;
+
+        while (Date.now() < deadline && !req.signal.aborted) {
+          const events = await queue.eventsSince(cursor);
+          for (const event of events) {
+            send("task", event, event.id);
+            cursor = event.id;
+          }
+
+          if (events.length > 0 || Date.now() - lastStatsAt >= STATS_INTERVAL) {
+            send("stats", await queue.summary());
+            lastStatsAt = Date.now();
+          }
+
+          await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL));
+        }
+      } catch (error) {
+        // Just end the stream - the client reconnects (or falls back to polling)
+        console.error("Error streaming queue events:", error);
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+};
+
+export const config: Config = {
+  path: "/api/queue-events",
+};
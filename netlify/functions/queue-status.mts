@@ -1,99 +1,37 @@
-import type { Config } from "@netlify/functions";
-import { getStore } from "@netlify/blobs";
-
-interface Task {
-  id: string;
-  status: "queued" | "processing" | "completed" | "failed";
-  createdAt: number;
-  startedAt?: number;
-  completedAt?: number;
-  data?: unknown;
-}
-
-interface QueueState {
-  queue: string[];
-  processing: string[];
-  completed: string[];
-  tasks: Record<string, Task>;
-  rateLimitHistory: number[];
-}
-
-async function getQueueState(): Promise<QueueState> {
-  const store = getStore("queue-state");
-  const data = await store.get("state", { type: "json" });
-
-  if (!data) {
-    return {
-      queue: [],
-      processing: [],
-      completed: [],
-      tasks: {},
-      rateLimitHistory: [],
-    };
+import type { Config, Context } from "@netlify/functions";
+import {
+  invalidQueueNameResponse,
+  openQueue,
+  queueNameFrom,
+} from "./lib/queues.mts";
+import { requireRole } from "./lib/auth.mts";
+
+// GET /api/queue-status (or /api/queue-status/:queue, or ?queue=)
+export default async (req: Request, context: Context) => {
+  if (req.method !== "GET") {
+    return new Response("Method not allowed", { status: 405 });
   }
 
-  // Ensure rateLimitHistory exists (for backwards compatibility)
-  if (!data.rateLimitHistory) {
-    data.rateLimitHistory = [];
+  const auth = await requireRole(req, "operator");
+  if (auth instanceof Response) {
+    return auth;
   }
 
-  return data as QueueState;
-}
-
-export default async (req: Request) => {
-  if (req.method !== "GET") {
-    return new Response("Method not allowed", { status: 405 });
+  const queueName = queueNameFrom(req, context);
+  if (!queueName) {
+    return invalidQueueNameResponse();
   }
 
   try {
-    const state = await getQueueState();
-
-    // Get tasks in each state
-    const queued = state.queue.map((id) => state.tasks[id]).filter(Boolean);
-    const processing = state.processing
-      .map((id) => state.tasks[id])
-      .filter(Boolean);
-    const completed = state.completed
-      .slice(-50)
-      .map((id) => state.tasks[id])
-      .filter(Boolean); // Last 50 completed
-
-    // Calculate rate limit info (based on when tasks STARTED processing)
-    const now = Date.now();
-    const oneMinuteAgo = now - 60000;
-    const recentStarts = state.rateLimitHistory.filter(
-      (timestamp) => timestamp > oneMinuteAgo
-    ).length;
-
-    return new Response(
-      JSON.stringify({
-        queued,
-        processing,
-        completed,
-        stats: {
-          queuedCount: queued.length,
-          processingCount: processing.length,
-          completedCount: completed.length,
-          totalTasks: Object.keys(state.tasks).length,
-        },
-        rateLimit: {
-          limit: 250,
-          windowSeconds: 60,
-          used: recentStarts,
-          remaining: Math.max(0, 250 - recentStarts),
-          resetAt: state.rateLimitHistory.length > 0 && recentStarts > 0
-            ? Math.min(...state.rateLimitHistory.filter((t) => t > oneMinuteAgo)) + 60000
-            : null,
-        },
-      }),
-      {
-        status: 200,
-        headers: {
-          "Content-Type": "application/json",
-          "Cache-Control": "no-cache",
-        },
-      }
-    );
+    const status = await openQueue(queueName).status();
+
+    return new Response(JSON.stringify(status), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-cache",
+      },
+    });
   } catch (error) {
     console.error("Error getting queue status:", error);
     return new Response(
@@ -110,5 +48,5 @@ export default async (req: Request) => {
 };
 
 export const config: Config = {
-  path: "/api/queue-status",
+  path: ["/api/queue-status", "/api/queue-status/:queue"],
 };
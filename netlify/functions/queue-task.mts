@@ -1,138 +1,125 @@
-import type { Config } from "@netlify/functions";
-import { getStore } from "@netlify/blobs";
-
-interface Task {
-  id: string;
-  status: "queued" | "processing" | "completed" | "failed";
-  createdAt: number;
-  startedAt?: number;
-  completedAt?: number;
-  data?: unknown;
-}
-
-interface QueueState {
-  queue: string[];
-  processing: string[];
-  completed: string[];
-  tasks: Record<string, Task>;
-  rateLimitHistory: number[]; // Timestamps of completed tasks (for rate limiting)
-}
-
-// Note: Rate limiting is handled in process-task.mts when tasks START processing
-// This file just queues tasks - unlimited queuing is allowed
-
-async function getQueueState(): Promise<QueueState> {
-  const store = getStore("queue-state");
-  const data = await store.get("state", { type: "json" });
-
-  if (!data) {
-    return {
-      queue: [],
-      processing: [],
-      completed: [],
-      tasks: {},
-      rateLimitHistory: [],
-    };
-  }
-
-  // Ensure rateLimitHistory exists (for backwards compatibility)
-  if (!data.rateLimitHistory) {
-    data.rateLimitHistory = [];
-  }
-
-  return data as QueueState;
-}
-
-async function saveQueueState(state: QueueState): Promise<void> {
-  const store = getStore("queue-state");
-  await store.set("state", JSON.stringify(state));
-}
-
-export default async (req: Request) => {
+import type { Config, Context } from "@netlify/functions";
+import {
+  invalidQueueNameResponse,
+  openQueue,
+  queueNameFrom,
+  registerQueue,
+  triggerProcessing,
+} from "./lib/queues.mts";
+import {
+  MAX_TASK_REQUEST_BYTES,
+  parseTaskRequest,
+  payloadTooLargeResponse,
+  readJsonBody,
+} from "./lib/task-request.mts";
+import type { EnqueueResult } from "./lib/queue.mts";
+import { requireRole, tenantFor } from "./lib/auth.mts";
+
+// Queuing isn't rate limited - the limiter (see claim() in lib/queue.mts)
+// decides when each task STARTS
+
+// POST /api/queue-task (or /api/queue-task/:queue) - `queue` in the body or
+// query picks a named queue, default "default". The X-Tenant-Id header (or
+// `tenant` in the body) says who it's for, unless the API key is bound to a
+// tenant (see auth.mts); a tenant over its queue quota gets
+// 429 with Retry-After. Retries carrying the same Idempotency-Key (header or
+// `idempotencyKey` in the body) get the original task back rather than a new one.
+// `data` is checked against the task type's schema and size limit (see
+// /api/task-types); a 400 lists every problem with its path. `dependsOn` lists
+// task IDs that must complete first - the task waits, blocked, until they have
+// (and is cancelled if one is dead-lettered or cancelled instead).
+export default async (req: Request, context: Context) => {
   if (req.method !== "POST") {
     return new Response("Method not allowed", { status: 405 });
   }
 
-  try {
-    const body = await req.json().catch(() => ({}));
-    // Use high-resolution time and more randomness to ensure unique IDs
-    let taskId = `task-${Date.now()}-${performance.now().toString(36)}-${Math.random()
-      .toString(36)
-      .substring(2, 9)}-${Math.random().toString(36).substring(2, 9)}`;
-
-    const task: Task = {
-      id: taskId,
-      status: "queued",
-      createdAt: Date.now(),
-      data: body.data || {},
-    };
+  const auth = await requireRole(req, "submitter");
+  if (auth instanceof Response) {
+    return auth;
+  }
 
-    // Note: We don't check rate limit when queueing - unlimited tasks can be queued
-    // Rate limiting happens when tasks START processing (in process-task.mts)
-    // This allows unlimited queuing, but only 250 tasks START per minute
-    
-    // Now add task to queue with retry logic
-    let state = await getQueueState();
-    let retries = 5;
-    let success = false;
+  try {
+    const read = await readJsonBody(req, MAX_TASK_REQUEST_BYTES);
+    if (!read) {
+      return payloadTooLargeResponse(MAX_TASK_REQUEST_BYTES);
+    }
+    const body = (read.body ?? {}) as Record<string, unknown>;
+    const queueName = queueNameFrom(req, context, body);
+    if (!queueName) {
+      return invalidQueueNameResponse();
+    }
 
-    while (retries > 0 && !success) {
-      // Re-fetch state in case it changed
-      const currentState = await getQueueState();
-      
-      // Check if task ID already exists (shouldn't happen, but safety check)
-      if (currentState.tasks[taskId]) {
-        // Generate new ID if collision (extremely unlikely)
-        taskId = `task-${Date.now()}-${performance.now().toString(36)}-${Math.random()
-          .toString(36)
-          .substring(2, 9)}-${Math.random().toString(36).substring(2, 9)}`;
-        task.id = taskId;
-        continue;
-      }
+    const request = parseTaskRequest(body, {
+      tenant: tenantFor(auth, req),
+      idempotencyKey: req.headers.get("Idempotency-Key"),
+    });
+    if ("error" in request) {
+      return new Response(JSON.stringify({ success: false, ...request }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    const { input } = request;
+    const tenant = input.tenant;
 
-      // Add task to queue and update rate limit history
-      currentState.queue.push(taskId);
-      currentState.tasks[taskId] = task;
-      // Update rate limit history (merge with what we calculated above)
-      currentState.rateLimitHistory = state.rateLimitHistory;
-      
-      try {
-        await saveQueueState(currentState);
-        state = currentState;
-        success = true;
-      } catch (error) {
-        // If save fails, retry after small delay
-        console.error(`Failed to save queue state (attempt ${6 - retries}/5):`, error);
-        retries--;
-        if (retries > 0) {
-          const delay = 50 + Math.random() * 100; // Longer delay for blob rate limits
-          await new Promise((resolve) => setTimeout(resolve, delay));
-        } else {
-          // Log final failure with details
-          const errorMessage = error instanceof Error ? error.message : String(error);
-          console.error(`Failed to queue task after all retries:`, errorMessage);
-          // Don't throw - return error response instead
-          return new Response(
-            JSON.stringify({
-              success: false,
-              error: "Failed to queue task - Netlify Blobs rate limit may be reached",
-              details: errorMessage,
-            }),
-            {
-              status: 503, // Service Unavailable
-              headers: { "Content-Type": "application/json" },
-            }
-          );
+    // Add task to queue - conflicting index writes are retried against fresh state
+    let result: EnqueueResult;
+    try {
+      // So the scheduled functions and /api/queues know about this queue
+      await registerQueue(queueName);
+      result = await openQueue(queueName).enqueue(input);
+    } catch (error) {
+      // The cause stays in the logs - storage errors aren't for API clients
+      console.error("Failed to queue task after all retries:", error);
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: "Failed to queue task - try again shortly",
+        }),
+        {
+          status: 503, // Service Unavailable
+          headers: { "Content-Type": "application/json" },
         }
-      }
+      );
     }
 
-    if (!success || !state) {
-      // This shouldn't happen due to the return above, but just in case
+    if (!result.task && result.reason === "idempotency-conflict") {
       return new Response(
         JSON.stringify({
           success: false,
-          error: "Failed to queue task - Netlify Blobs may be rate-limited",
+          error: "Idempotency-Key was already used for a different request",
+          taskId: result.taskId,
+        }),
+        {
+          status: 409,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+    if (
+      !result.task &&
+      (result.reason === "unknown-dependency" || result.reason === "dependency-failed")
+    ) {
+      const unknown = result.reason === "unknown-dependency";
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: unknown
+            ? `dependsOn: no task ${result.taskId}`
+            : `dependsOn: task ${result.taskId} was dead-lettered or cancelled`,
+          taskId: result.taskId,
+        }),
+        {
+          status: unknown ? 400 : 409,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+    if (!result.task && result.reason === "draining") {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: `Queue ${queueName} is draining - not accepting new tasks`,
         }),
         {
           status: 503,
@@ -140,15 +127,54 @@ export default async (req: Request) => {
         }
       );
     }
+    if (!result.task) {
+      const retryAfter = Math.max(1, Math.ceil((result.retryAt - Date.now()) / 1000));
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: `Tenant ${tenant} has reached its queue quota`,
+          tenant,
+          retryAfter,
+        }),
+        {
+          status: 429,
+          headers: {
+            "Content-Type": "application/json",
+            "Retry-After": String(retryAfter),
+          },
+        }
+      );
+    }
+    const { task, position, duplicate } = result;
 
-    // Trigger processing - rate limit check happens in process-task function
-    // We can queue unlimited tasks, but only 250 will START per minute
-    try {
-      const { AsyncWorkloadsClient } = await import(
-        "@netlify/async-workloads"
+    // Already queued (and triggered) by the first request
+    if (duplicate) {
+      return new Response(
+        JSON.stringify({
+          success: true,
+          duplicate: true,
+          queue: queueName,
+          tenant,
+          taskId: task.id,
+          status: task.status,
+          position,
+          runAt: task.runAt ?? null,
+        }),
+        {
+          status: 200,
+          headers: {
+            "Content-Type": "application/json",
+            "Idempotent-Replayed": "true",
+          },
+        }
       );
-      const client = new AsyncWorkloadsClient();
-      await client.send("process-task");
+    }
+
+    // Wake a worker - it starts the task once the limiter allows
+    try {
+      // A scheduled task gets a wake-up at its runAt; the scheduler function
+      // is the fallback if that's lost
+      await triggerProcessing(queueName, task.runAt);
     } catch (error) {
       console.error("Failed to trigger async workload:", error);
       // The task is still queued and will be processed when available
@@ -157,8 +183,12 @@ export default async (req: Request) => {
     return new Response(
       JSON.stringify({
         success: true,
-        taskId,
-        position: state.queue.length,
+        queue: queueName,
+        tenant,
+        taskId: task.id,
+        status: task.status,
+        position,
+        runAt: task.runAt ?? null,
       }),
       {
         status: 200,
@@ -181,5 +211,5 @@ export default async (req: Request) => {
 };
 
 export const config: Config = {
-  path: "/api/queue-task",
+  path: ["/api/queue-task", "/api/queue-task/:queue"],
 };
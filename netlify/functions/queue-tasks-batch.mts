@@ -0,0 +1,240 @@
+import type { Config, Context } from "@netlify/functions";
+import {
+  invalidQueueNameResponse,
+  openQueue,
+  queueNameFrom,
+  registerQueue,
+  triggerProcessing,
+} from "./lib/queues.mts";
+import {
+  MAX_BATCH_REQUEST_BYTES,
+  parseTaskRequest,
+  payloadTooLargeResponse,
+  readJsonBody,
+} from "./lib/task-request.mts";
+import type { EnqueueInput, EnqueueResult } from "./lib/queue.mts";
+import type { ValidationError } from "./lib/schema.mts";
+import { requireRole, tenantFor } from "./lib/auth.mts";
+
+const MAX_BATCH_SIZE = 500;
+
+// One entry per submitted task, in order. `statusCode` is what /api/queue-task
+// would have answered for that task alone.
+type BatchItemResult =
+  | {
+      index: number;
+      success: true;
+      taskId: string;
+      status: string;
+      position: number | null;
+      runAt: number | null;
+      duplicate?: true;
+    }
+  | {
+      index: number;
+      success: false;
+      statusCode: number;
+      error: string;
+      taskId?: string; // The task an idempotency conflict or dependency problem points to
+      retryAfter?: number; // Seconds, for a tenant over its queue quota
+      supportedTypes?: string[];
+      errors?: ValidationError[]; // Paths are within the task, e.g. "/data/url"
+    };
+
+function itemResult(index: number, result: EnqueueResult): BatchItemResult {
+  if (result.task) {
+    return {
+      index,
+      success: true,
+      taskId: result.task.id,
+      status: result.task.status,
+      position: result.position,
+      runAt: result.task.runAt ?? null,
+      ...(result.duplicate && { duplicate: true }),
+    };
+  }
+  if (result.reason === "idempotency-conflict") {
+    return {
+      index,
+      success: false,
+      statusCode: 409,
+      error: "Idempotency-Key was already used for a different request",
+      taskId: result.taskId,
+    };
+  }
+  if (result.reason === "unknown-dependency") {
+    return {
+      index,
+      success: false,
+      statusCode: 400,
+      error: `dependsOn: no task ${result.taskId}`,
+      taskId: result.taskId,
+    };
+  }
+  if (result.reason === "dependency-failed") {
+    return {
+      index,
+      success: false,
+      statusCode: 409,
+      error: `dependsOn: task ${result.taskId} was dead-lettered or cancelled`,
+      taskId: result.taskId,
+    };
+  }
+  if (result.reason === "draining") {
+    return {
+      index,
+      success: false,
+      statusCode: 503,
+      error: "Queue is draining - not accepting new tasks",
+    };
+  }
+  return {
+    index,
+    success: false,
+    statusCode: 429,
+    error: "Tenant has reached its queue quota",
+    retryAfter: Math.max(1, Math.ceil((result.retryAt - Date.now()) / 1000)),
+  };
+}
+
+// POST /api/queue-tasks/batch (or /api/queue-tasks/batch/:queue)
+//   { "queue"?: "...", "tasks": [ <same payload as /api/queue-task>, ... ] }
+// (or just the array). Every task is validated; the valid ones are queued
+// together - one index update per lane and a single process-task event - and
+// invalid or rejected ones get an error in their `results` entry. X-Tenant-Id
+// (or the API key's tenant) applies to every task in the batch.
+export default async (req: Request, context: Context) => {
+  if (req.method !== "POST") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  const auth = await requireRole(req, "submitter");
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const read = await readJsonBody(req, MAX_BATCH_REQUEST_BYTES);
+    if (!read) {
+      return payloadTooLargeResponse(MAX_BATCH_REQUEST_BYTES);
+    }
+    const body = read.body as { tasks?: unknown; queue?: unknown } | unknown[] | undefined;
+    const tasks: unknown = Array.isArray(body) ? body : body?.tasks;
+    if (!Array.isArray(tasks) || tasks.length === 0 || tasks.length > MAX_BATCH_SIZE) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: `Send "tasks": an array of 1-${MAX_BATCH_SIZE} task payloads`,
+        }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const queueName = queueNameFrom(req, context, Array.isArray(body) ? {} : body);
+    if (!queueName) {
+      return invalidQueueNameResponse();
+    }
+
+    const results: BatchItemResult[] = new Array(tasks.length);
+    const inputs: { index: number; input: EnqueueInput }[] = [];
+    tasks.forEach((task, index) => {
+      if (typeof task !== "object" || task === null || Array.isArray(task)) {
+        results[index] = {
+          index,
+          success: false,
+          statusCode: 400,
+          error: "Each task must be an object",
+        };
+        return;
+      }
+      const request = parseTaskRequest(task, {
+        tenant: tenantFor(auth, req),
+      });
+      if ("error" in request) {
+        results[index] = { index, success: false, statusCode: 400, ...request };
+      } else {
+        inputs.push({ index, input: request.input });
+      }
+    });
+
+    let enqueued: EnqueueResult[] = [];
+    if (inputs.length > 0) {
+      try {
+        // So the scheduled functions and /api/queues know about this queue
+        await registerQueue(queueName);
+        enqueued = await openQueue(queueName).enqueueBatch(
+          inputs.map(({ input }) => input)
+        );
+      } catch (error) {
+        // As in queue-task.mts, the cause stays in the logs
+        console.error(`Failed to queue batch of ${inputs.length} tasks:`, error);
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error: "Failed to queue tasks - try again shortly",
+          }),
+          {
+            status: 503, // Service Unavailable
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
+    enqueued.forEach((result, i) => {
+      results[inputs[i].index] = itemResult(inputs[i].index, result);
+    });
+
+    // New tasks only - duplicates were triggered by the request that created them
+    const created = enqueued.flatMap((result) =>
+      result.task && !result.duplicate ? [result.task] : []
+    );
+    if (created.length > 0) {
+      // One wake-up for the whole batch: now if anything can start, otherwise
+      // at the earliest runAt (the scheduler function covers the later ones)
+      try {
+        const immediate = created.some((task) => task.runAt === undefined);
+        await triggerProcessing(
+          queueName,
+          immediate ? undefined : Math.min(...created.map((task) => task.runAt!))
+        );
+      } catch (error) {
+        console.error("Failed to trigger async workload:", error);
+        // The tasks are still queued and will be processed when available
+      }
+    }
+
+    const queued = results.filter((result) => result.success).length;
+    return new Response(
+      JSON.stringify({
+        success: queued === results.length,
+        queue: queueName,
+        queued,
+        failed: results.length - queued,
+        results,
+      }),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error queueing batch:", error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+};
+
+export const config: Config = {
+  path: ["/api/queue-tasks/batch", "/api/queue-tasks/batch/:queue"],
+};
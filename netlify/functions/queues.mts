@@ -0,0 +1,50 @@
+import type { Config } from "@netlify/functions";
+import { listQueues, openQueue } from "./lib/queues.mts";
+import type { QueueListing } from "./lib/types.mts";
+import { requireRole } from "./lib/auth.mts";
+
+// GET /api/queues -> every registered queue with its stats and limiter status
+export default async (req: Request) => {
+  if (req.method !== "GET") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  const auth = await requireRole(req, "operator");
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const names = await listQueues();
+    const queues: QueueListing[] = await Promise.all(
+      names.map(async (name) => ({
+        name,
+        ...(await openQueue(name).summary()),
+      }))
+    );
+
+    return new Response(JSON.stringify({ queues }), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-cache",
+      },
+    });
+  } catch (error) {
+    console.error("Error listing queues:", error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+};
+
+export const config: Config = {
+  path: "/api/queues",
+};
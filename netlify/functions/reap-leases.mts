@@ -0,0 +1,78 @@
+import type { Config } from "@netlify/functions";
+import {
+  listQueues,
+  openQueue,
+  sendCallbackEvent,
+  triggerProcessing,
+} from "./lib/queues.mts";
+
+// Scheduled: finds processing tasks whose worker stopped heartbeating (killed,
+// timed out, crashed) and requeues them with backoff, or dead-letters them if
+// they're out of attempts. Each reclaim is counted in `task.reclaims`. Limiter
+// concurrency slots no live lease backs are freed.
+// A task that was asked to stop is cancelled rather than retried.
+// Dead-lettered and cancelled tasks with a callbackUrl get their callback queued.
+// Then puts back any task a failed write left out of its index (see
+// Queue.repairIndexes), and prunes lifecycle events and metrics past their retention.
+async function reapQueue(queueName: string): Promise<void> {
+  const queue = openQueue(queueName);
+  const { requeued, deadLettered, cancelled, releasedSlots } = await queue.reclaimExpired();
+  const repaired = await queue.repairIndexes();
+  await queue.pruneEvents();
+  await queue.pruneMetrics();
+
+  for (const { task } of requeued) {
+    console.warn(
+      `Reclaimed task ${task.id} in ${queueName} (reclaim #${task.reclaims}), requeued`
+    );
+  }
+  for (const { task } of deadLettered) {
+    console.error(
+      `Reclaimed task ${task.id} in ${queueName} (reclaim #${task.reclaims}), out of attempts - dead-lettered`
+    );
+  }
+  for (const task of cancelled) {
+    console.warn(`Reclaimed task ${task.id} in ${queueName}, cancel was requested - cancelled`);
+  }
+  for (const workerId of releasedSlots) {
+    console.warn(`Freed the limiter slot ${workerId} held in ${queueName} without a lease`);
+  }
+  for (const taskId of repaired) {
+    console.warn(`Repaired the indexes of task ${taskId} in ${queueName}`);
+  }
+
+  try {
+    // Wake a worker when the earliest requeued task's backoff ends
+    if (requeued.length > 0) {
+      const retryAt = Math.min(...requeued.map((result) => result.retryAt));
+      await triggerProcessing(queueName, retryAt);
+    }
+
+    for (const task of [...deadLettered.map((result) => result.task), ...cancelled]) {
+      await sendCallbackEvent(queueName, task);
+    }
+
+    // And restart the chain now if anything is already runnable (a repaired
+    // task may be)
+    if (await queue.hasRunnableTasks()) {
+      await triggerProcessing(queueName);
+    }
+  } catch (error) {
+    console.error("Failed to trigger async workload:", error);
+  }
+}
+
+export default async () => {
+  for (const queueName of await listQueues()) {
+    try {
+      await reapQueue(queueName);
+    } catch (error) {
+      // One broken queue shouldn't stop the others being reaped
+      console.error(`Failed to reap queue ${queueName}:`, error);
+    }
+  }
+};
+
+export const config: Config = {
+  schedule: "* * * * *", // Every minute
+};
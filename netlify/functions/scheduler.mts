@@ -0,0 +1,60 @@
+import type { Config } from "@netlify/functions";
+import { listQueues, openQueue, triggerProcessing } from "./lib/queues.mts";
+
+const SCHEDULER_INTERVAL = 60000; // Matches config.schedule below
+
+// Scheduled: moves tasks whose runAt has passed (and retries whose backoff is
+// over) into the queue, settles blocked tasks whose dependencies finished
+// without releasing them (e.g. a worker died mid-way), then makes sure a
+// worker is on its way - now if a task can start, when the limiter frees up
+// if it's what's holding the queue back, and at the next runAt/retryAt if
+// that comes before our next run.
+async function scheduleQueue(queueName: string): Promise<void> {
+  const queue = openQueue(queueName);
+  const promoted = await queue.promoteDueTasks();
+  if (promoted > 0) {
+    console.log(`Promoted ${promoted} due task(s) to queue ${queueName}`);
+  }
+  const settled = await queue.settleBlockedTasks();
+  if (settled > 0) {
+    console.log(`Released or cancelled ${settled} blocked task(s) in queue ${queueName}`);
+  }
+
+  try {
+    if (await queue.hasRunnableTasks()) {
+      await triggerProcessing(queueName);
+    } else {
+      const { stats, rateLimit } = await queue.summary();
+      if (stats.queuedCount > 0 && rateLimit.resetAt) {
+        console.log(
+          `${stats.queuedCount} queued in ${queueName}, limiter frees up at ${new Date(
+            rateLimit.resetAt
+          ).toISOString()}`
+        );
+        await triggerProcessing(queueName, rateLimit.resetAt);
+      }
+    }
+
+    const nextDueAt = await queue.nextDueAt();
+    if (nextDueAt && nextDueAt < Date.now() + SCHEDULER_INTERVAL) {
+      await triggerProcessing(queueName, nextDueAt);
+    }
+  } catch (error) {
+    console.error("Failed to trigger async workload:", error);
+  }
+}
+
+export default async () => {
+  for (const queueName of await listQueues()) {
+    try {
+      await scheduleQueue(queueName);
+    } catch (error) {
+      // One broken queue shouldn't hold up the others
+      console.error(`Failed to schedule queue ${queueName}:`, error);
+    }
+  }
+};
+
+export const config: Config = {
+  schedule: "* * * * *", // Every minute
+};
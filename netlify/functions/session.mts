@@ -0,0 +1,85 @@
+import type { Config } from "@netlify/functions";
+import {
+  authenticate,
+  forbiddenResponse,
+  hasRole,
+  sessionCookie,
+  verifyApiKey,
+} from "./lib/auth.mts";
+
+// Dashboard sign-in. The browser can't attach an Authorization header to an
+// EventSource, so the dashboard keeps its key in an HttpOnly cookie instead:
+// GET    /api/session          -> who the request is signed in as (401 if nobody)
+// POST   /api/session { key }  -> check an operator (or admin) key and set the cookie
+// DELETE /api/session          -> sign out (clear the cookie)
+export default async (req: Request) => {
+  try {
+    if (req.method === "GET") {
+      const principal = await authenticate(req);
+      if (!principal) {
+        return new Response(JSON.stringify({ success: false, error: "Not signed in" }), {
+          status: 401,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+      return new Response(JSON.stringify({ success: true, principal }), {
+        status: 200,
+        headers: {
+          "Content-Type": "application/json",
+          "Cache-Control": "no-cache",
+        },
+      });
+    }
+
+    if (req.method === "DELETE") {
+      return new Response(JSON.stringify({ success: true }), {
+        status: 200,
+        headers: {
+          "Content-Type": "application/json",
+          "Set-Cookie": sessionCookie(null),
+        },
+      });
+    }
+
+    if (req.method !== "POST") {
+      return new Response("Method not allowed", { status: 405 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const key = typeof body.key === "string" ? body.key.trim() : "";
+    const principal = key ? await verifyApiKey(key) : null;
+    if (!principal) {
+      return new Response(JSON.stringify({ success: false, error: "Invalid API key" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    if (!hasRole(principal, "operator")) {
+      return forbiddenResponse(principal, "operator");
+    }
+
+    return new Response(JSON.stringify({ success: true, principal }), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Set-Cookie": sessionCookie(key),
+      },
+    });
+  } catch (error) {
+    console.error("Error handling session request:", error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+};
+
+export const config: Config = {
+  path: "/api/session",
+};
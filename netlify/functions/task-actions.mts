@@ -0,0 +1,156 @@
+import type { Config, Context } from "@netlify/functions";
+import {
+  invalidQueueNameResponse,
+  openQueue,
+  queueNameFrom,
+  sendCallbackEvent,
+  triggerProcessing,
+} from "./lib/queues.mts";
+import { isPriority } from "./lib/priority.mts";
+import type { TaskActionResult } from "./lib/queue.mts";
+import { requireRole } from "./lib/auth.mts";
+
+// POST /api/task/:id/cancel  -> cancel a waiting task now; a processing one is
+//                               asked to stop (status stays "processing" with
+//                               cancelRequestedAt until its handler does)
+// POST /api/task/:id/requeue -> back of the queue: completed, cancelled and
+//                               dead-lettered tasks run again with fresh
+//                               attempts; scheduled/retrying ones run now.
+//                               One with dependencies still to complete waits
+//                               for them; 409 if one has failed
+// POST /api/task/:id/move { "to": "front" | "back", "priority"?: ... }
+//                            -> reorder a queued task, optionally into another lane
+// 404 for an unknown task, 409 if it isn't in a state the action applies to.
+// Tasks in a named queue need `?queue=<name>`.
+export default async (req: Request, context: Context) => {
+  if (req.method !== "POST") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  const auth = await requireRole(req, "operator");
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  const queueName = queueNameFrom(req);
+  if (!queueName) {
+    return invalidQueueNameResponse();
+  }
+
+  try {
+    const queue = openQueue(queueName);
+    const { id: taskId, action } = context.params;
+
+    let result: TaskActionResult;
+    if (action === "cancel") {
+      result = await queue.cancel(taskId);
+    } else if (action === "requeue") {
+      result = await queue.requeue(taskId);
+    } else if (action === "move") {
+      const body = await req.json().catch(() => ({}));
+      if (body.to !== "front" && body.to !== "back") {
+        return new Response(
+          JSON.stringify({ success: false, error: 'to must be "front" or "back"' }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+      if (body.priority !== undefined && !isPriority(body.priority)) {
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error: "priority must be high, normal or low",
+          }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          }
+        );
+      }
+      result = await queue.move(taskId, body.to, body.priority);
+    } else {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: "Unknown action - use cancel, requeue or move",
+        }),
+        {
+          status: 404,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    if (!result.task && result.reason === "not-found") {
+      return new Response(
+        JSON.stringify({ success: false, error: `Task ${taskId} not found` }),
+        {
+          status: 404,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+    if (!result.task && result.reason === "dependency-failed") {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: `Can't ${action} a task whose dependency ${result.taskId} was dead-lettered or cancelled`,
+          taskId: result.taskId,
+        }),
+        {
+          status: 409,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+    if (!result.task) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: `Can't ${action} a task that is ${result.current.status}`,
+          status: result.current.status,
+        }),
+        {
+          status: 409,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+    const { task } = result;
+
+    try {
+      if (action === "requeue") {
+        await triggerProcessing(queueName);
+      } else if (task.status === "cancelled") {
+        // Cancelled before it ran
+        await sendCallbackEvent(queueName, task);
+      }
+    } catch (error) {
+      console.error("Failed to trigger async workload:", error);
+    }
+
+    return new Response(JSON.stringify({ success: true, queue: queueName, task }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Error handling task action:", error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+};
+
+export const config: Config = {
+  path: "/api/task/:id/:action",
+  method: "POST", // GET /api/task/:id/events is task-events.mts
+};
@@ -0,0 +1,72 @@
+import type { Config, Context } from "@netlify/functions";
+import {
+  invalidQueueNameResponse,
+  openQueue,
+  queueNameFrom,
+} from "./lib/queues.mts";
+import type { TaskEventLog } from "./lib/types.mts";
+import { hasRole, requireRole } from "./lib/auth.mts";
+
+// GET /api/task/:id/events -> the task's event log, oldest first: enqueued,
+// deferred, rate-limited, claimed, failed, retried, completed, cancelled, ...
+// each with its time and, where there is one, the worker and the reason.
+// Same access rules as /api/task/:id: `?queue=<name>` for a named queue, and a
+// submitter key only gets its own tenant's tasks.
+export default async (req: Request, context: Context) => {
+  if (req.method !== "GET") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  const auth = await requireRole(req, "submitter");
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  const queueName = queueNameFrom(req);
+  if (!queueName) {
+    return invalidQueueNameResponse();
+  }
+
+  try {
+    const queue = openQueue(queueName);
+    const taskId = context.params.id;
+    const task = await queue.get(taskId);
+
+    if (!task || (!hasRole(auth, "operator") && task.tenant !== auth.tenant)) {
+      return new Response(
+        JSON.stringify({ success: false, error: `Task ${taskId} not found` }),
+        {
+          status: 404,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const log: TaskEventLog = { taskId, events: await queue.taskEvents(taskId) };
+
+    return new Response(JSON.stringify(log), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-cache",
+      },
+    });
+  } catch (error) {
+    console.error("Error getting task events:", error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+};
+
+export const config: Config = {
+  path: "/api/task/:id/events",
+  method: "GET",
+};
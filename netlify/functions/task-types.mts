@@ -0,0 +1,28 @@
+import type { Config } from "@netlify/functions";
+import { taskTypeInfos } from "./lib/handlers.mts";
+import { requireRole } from "./lib/auth.mts";
+
+// GET /api/task-types -> every task type that can be queued, with the JSON
+// Schema its `data` must match and the most bytes `data` may take as JSON
+export default async (req: Request) => {
+  if (req.method !== "GET") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  const auth = await requireRole(req, "submitter");
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  return new Response(JSON.stringify({ taskTypes: taskTypeInfos() }), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/json",
+      "Cache-Control": "no-cache",
+    },
+  });
+};
+
+export const config: Config = {
+  path: "/api/task-types",
+};
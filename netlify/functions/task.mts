@@ -0,0 +1,74 @@
+import type { Config, Context } from "@netlify/functions";
+import {
+  invalidQueueNameResponse,
+  openQueue,
+  queueNameFrom,
+} from "./lib/queues.mts";
+import type { TaskDetails } from "./lib/types.mts";
+import { hasRole, requireRole } from "./lib/auth.mts";
+
+// GET /api/task/:id -> a single task (status, timestamps, attempts, result or
+// error) plus its 1-based `position` in the queue while it's waiting (else null).
+// Tasks in a named queue need `?queue=<name>`. A submitter key only gets its
+// own tenant's tasks (anything else is a 404).
+export default async (req: Request, context: Context) => {
+  if (req.method !== "GET") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  const auth = await requireRole(req, "submitter");
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  const queueName = queueNameFrom(req);
+  if (!queueName) {
+    return invalidQueueNameResponse();
+  }
+
+  try {
+    const queue = openQueue(queueName);
+    const taskId = context.params.id;
+    const task = await queue.get(taskId);
+
+    // Submitters only see their own tenant's tasks
+    if (!task || (!hasRole(auth, "operator") && task.tenant !== auth.tenant)) {
+      return new Response(
+        JSON.stringify({ success: false, error: `Task ${taskId} not found` }),
+        {
+          status: 404,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const details: TaskDetails = {
+      ...task,
+      position: task.status === "queued" ? await queue.positionOf(taskId) : null,
+    };
+
+    return new Response(JSON.stringify(details), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-cache",
+      },
+    });
+  } catch (error) {
+    console.error("Error getting task:", error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+};
+
+export const config: Config = {
+  path: "/api/task/:id",
+};
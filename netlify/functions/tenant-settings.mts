@@ -0,0 +1,74 @@
+import type { Config } from "@netlify/functions";
+import {
+  invalidQueueNameResponse,
+  openQueue,
+  queueNameFrom,
+} from "./lib/queues.mts";
+import { validateTenantSettings } from "./lib/tenants.mts";
+import { requireRole } from "./lib/auth.mts";
+
+// GET    /api/tenant-settings            -> effective fairness mode, weights and quotas
+// PUT    /api/tenant-settings { ...}     -> store a runtime override (replaces the last one);
+//                                            omitted settings inherit the environment, null
+//                                            disables a quota. `tenants` holds per-tenant
+//                                            { weight, maxQueued, maxStarted } overrides
+// DELETE /api/tenant-settings            -> back to the environment settings
+// Settings are per queue - `?queue=<name>` (default "default").
+export default async (req: Request) => {
+  const auth = await requireRole(req, req.method === "GET" ? "operator" : "admin");
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  const queueName = queueNameFrom(req);
+  if (!queueName) {
+    return invalidQueueNameResponse();
+  }
+
+  try {
+    const queue = openQueue(queueName);
+    let settings;
+
+    if (req.method === "GET") {
+      settings = await queue.tenantSettings();
+    } else if (req.method === "PUT") {
+      const body = await req.json().catch(() => null);
+      const error = validateTenantSettings(body);
+      if (error) {
+        return new Response(JSON.stringify({ success: false, error }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+      settings = await queue.setTenantSettings(body);
+    } else if (req.method === "DELETE") {
+      settings = await queue.setTenantSettings(null);
+    } else {
+      return new Response("Method not allowed", { status: 405 });
+    }
+
+    return new Response(JSON.stringify({ success: true, settings }), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-cache",
+      },
+    });
+  } catch (error) {
+    console.error("Error handling tenant settings request:", error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+};
+
+export const config: Config = {
+  path: "/api/tenant-settings",
+};
@@ -0,0 +1,71 @@
+import type { Config, Context } from "@netlify/functions";
+import {
+  invalidQueueNameResponse,
+  openQueue,
+  queueNameFrom,
+} from "./lib/queues.mts";
+import { hasRole, requireRole } from "./lib/auth.mts";
+
+// GET /api/workflows/:id -> the workflow's overall status (pending, running,
+// completed, failed or cancelled), counts per task status, and each task with
+// its key, ID, dependencies and status ("blocked" while it waits on them).
+// `?queue=<name>` for a named queue; a submitter key only gets its own
+// tenant's workflows.
+export default async (req: Request, context: Context) => {
+  if (req.method !== "GET") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  const auth = await requireRole(req, "submitter");
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  const queueName = queueNameFrom(req);
+  if (!queueName) {
+    return invalidQueueNameResponse();
+  }
+
+  try {
+    const workflowId = context.params.id;
+    const workflow = await openQueue(queueName).workflow(workflowId);
+
+    if (
+      !workflow ||
+      (!hasRole(auth, "operator") && workflow.tenant !== auth.tenant)
+    ) {
+      return new Response(
+        JSON.stringify({ success: false, error: `Workflow ${workflowId} not found` }),
+        {
+          status: 404,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    return new Response(JSON.stringify({ queue: queueName, ...workflow }), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-cache",
+      },
+    });
+  } catch (error) {
+    console.error("Error getting workflow:", error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+};
+
+export const config: Config = {
+  path: "/api/workflows/:id",
+  method: "GET",
+};
@@ -0,0 +1,147 @@
+import type { Config, Context } from "@netlify/functions";
+import {
+  invalidQueueNameResponse,
+  openQueue,
+  queueNameFrom,
+  registerQueue,
+  triggerProcessing,
+} from "./lib/queues.mts";
+import {
+  MAX_BATCH_REQUEST_BYTES,
+  parseWorkflowRequest,
+  payloadTooLargeResponse,
+  readJsonBody,
+} from "./lib/task-request.mts";
+import type { WorkflowResult } from "./lib/queue.mts";
+import { requireRole, tenantFor } from "./lib/auth.mts";
+
+// POST /api/workflows (`queue` in the body or query picks a named queue)
+//   { "name"?: "...", "tasks": [{ "key": "fetch", <task payload> },
+//                               { "key": "report", "dependsOn": ["fetch"], ... }] }
+// Creates every task or none: a bad task, a dependency on a key that isn't
+// there or a cycle gets a 400 (with `index` for the task at fault). Tasks
+// wait, blocked, until the ones they depend on complete; if one is
+// dead-lettered or cancelled, everything downstream of it is cancelled.
+// Answers with the workflow as GET /api/workflows/:id would. X-Tenant-Id (or
+// the API key's tenant) applies to every task.
+export default async (req: Request, context: Context) => {
+  if (req.method !== "POST") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  const auth = await requireRole(req, "submitter");
+  if (auth instanceof Response) {
+    return auth;
+  }
+
+  try {
+    const read = await readJsonBody(req, MAX_BATCH_REQUEST_BYTES);
+    if (!read) {
+      return payloadTooLargeResponse(MAX_BATCH_REQUEST_BYTES);
+    }
+    const body = (read.body ?? {}) as Record<string, unknown>;
+    const queueName = queueNameFrom(req, context, body);
+    if (!queueName) {
+      return invalidQueueNameResponse();
+    }
+
+    const request = parseWorkflowRequest(body, { tenant: tenantFor(auth, req) });
+    if ("error" in request) {
+      return new Response(JSON.stringify({ success: false, ...request }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    const { input } = request;
+
+    let result: WorkflowResult;
+    try {
+      // So the scheduled functions and /api/queues know about this queue
+      await registerQueue(queueName);
+      result = await openQueue(queueName).enqueueWorkflow(input);
+    } catch (error) {
+      // As in queue-task.mts, the cause stays in the logs
+      console.error(`Failed to create workflow of ${input.steps.length} tasks:`, error);
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: "Failed to create workflow - try again shortly",
+        }),
+        {
+          status: 503, // Service Unavailable
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    if (!result.workflow && result.reason === "draining") {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: `Queue ${queueName} is draining - not accepting new tasks`,
+        }),
+        {
+          status: 503,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+    if (!result.workflow) {
+      const retryAfter = Math.max(1, Math.ceil((result.retryAt - Date.now()) / 1000));
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: `Tenant ${input.tenant} has no room in its queue quota for ${input.steps.length} tasks`,
+          tenant: input.tenant,
+          retryAfter,
+        }),
+        {
+          status: 429,
+          headers: {
+            "Content-Type": "application/json",
+            "Retry-After": String(retryAfter),
+          },
+        }
+      );
+    }
+
+    // Only the tasks with no dependencies can start: now, or at the earliest
+    // runAt among them (the scheduler function covers the rest)
+    try {
+      const roots = input.steps.filter((step) => step.dependsOn.length === 0);
+      const immediate = roots.some((step) => step.input.runAt === undefined);
+      await triggerProcessing(
+        queueName,
+        immediate ? undefined : Math.min(...roots.map((step) => step.input.runAt!))
+      );
+    } catch (error) {
+      console.error("Failed to trigger async workload:", error);
+      // The tasks are still queued and will be processed when available
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, queue: queueName, ...result.workflow }),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error creating workflow:", error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+};
+
+export const config: Config = {
+  path: "/api/workflows",
+  method: "POST",
+};
@@ -0,0 +1,625 @@
+// Runs the queue end to end in one process, without Netlify: producers
+// enqueue the way /api/queue-task does, the process-task worker chain runs on
+// the local workload client, and the scheduled functions fire every minute.
+// Time is virtual, so a run covering hours of queue time takes seconds, and
+// the storage can be made slow and unreliable. At the end it checks what came
+// out: tasks lost or left behind, duplicate tasks and runs, and rate limit
+// violations. Exits non-zero if it found any.
+//
+//   npm run simulate -- --tasks 500 --producers 20 --workers 50 \
+//     --latency 20 --write-failure-rate 0.02 --window-limit 100
+//
+// --help lists the options.
+
+import { parseArgs } from "node:util";
+import { setImmediate as settleEventLoop } from "node:timers/promises";
+import {
+  createMemoryStorage,
+  setStorageBackend,
+  type QueueStorage,
+} from "../netlify/functions/lib/storage.mts";
+import {
+  createLocalWorkloadClient,
+  setWorkloadClient,
+} from "../netlify/functions/lib/workloads.mts";
+import type { Task } from "../netlify/functions/lib/types.mts";
+
+const SIM_TASK_TYPE = "sim";
+const SCHEDULED_INTERVAL = 60000; // reap-leases and scheduler, as in their config
+const COMPLETION_CHECK_INTERVAL = 5000;
+const MAX_SUBMIT_ATTEMPTS = 5; // Per task, like a client retrying a failed request
+const SUBMIT_RETRY_MS = 1000;
+const VIRTUAL_START = Date.UTC(2025, 0, 1);
+
+const USAGE = `Usage: npm run simulate -- [options]
+
+  --tasks <n>                   Tasks to enqueue (default 200)
+  --producers <n>               Concurrent producers sharing them (default 10)
+  --spacing <ms>                Mean gap between one producer's enqueues (default 50)
+  --workers <n>                 process-task events handled at once (default 20)
+  --task-ms <ms>                Mean handler run time (default 2000)
+  --task-failure-rate <0-1>     Fraction of handler runs that throw (default 0)
+  --latency <ms>                Mean storage latency, uniform 0 to twice this (default 0)
+  --write-failure-rate <0-1>    Storage writes that throw without writing (default 0)
+  --ambiguous-failure-rate <0-1>
+                                Storage writes that write, then throw (default 0)
+  --window-limit <n>            RATE_LIMIT_REQUESTS (default: the environment's)
+  --window-ms <ms>              RATE_LIMIT_WINDOW_MS
+  --max-concurrency <n>         MAX_CONCURRENCY
+  --lease-ms <ms>               TASK_LEASE_MS
+  --max-attempts <n>            TASK_MAX_ATTEMPTS
+  --seed <n>                    Seeds Math.random (default 1)
+  --max-minutes <n>             Virtual time before giving up (default 120)
+  --verbose                     Show the functions' own logging
+`;
+
+interface SimOptions {
+  tasks: number;
+  producers: number;
+  spacingMs: number;
+  workers: number;
+  taskMs: number;
+  taskFailureRate: number;
+  latencyMs: number;
+  writeFailureRate: number;
+  ambiguousFailureRate: number;
+  seed: number;
+  maxMinutes: number;
+  verbose: boolean;
+}
+
+// One handler run of a task
+interface Run {
+  taskId: string;
+  index: number;
+  claimedAt: number; // task.startedAt - when the limiter let it start
+  startedAt: number;
+  endedAt: number | null;
+  succeeded: boolean;
+}
+
+interface FaultStats {
+  writes: number;
+  writeFailures: number;
+  ambiguousFailures: number;
+}
+
+function parseOptions(): SimOptions | null {
+  const { values } = parseArgs({
+    options: {
+      tasks: { type: "string", default: "200" },
+      producers: { type: "string", default: "10" },
+      spacing: { type: "string", default: "50" },
+      workers: { type: "string", default: "20" },
+      "task-ms": { type: "string", default: "2000" },
+      "task-failure-rate": { type: "string", default: "0" },
+      latency: { type: "string", default: "0" },
+      "write-failure-rate": { type: "string", default: "0" },
+      "ambiguous-failure-rate": { type: "string", default: "0" },
+      "window-limit": { type: "string" },
+      "window-ms": { type: "string" },
+      "max-concurrency": { type: "string" },
+      "lease-ms": { type: "string" },
+      "max-attempts": { type: "string" },
+      seed: { type: "string", default: "1" },
+      "max-minutes": { type: "string", default: "120" },
+      verbose: { type: "boolean", default: false },
+      help: { type: "boolean", default: false },
+    },
+  });
+  if (values.help) {
+    return null;
+  }
+
+  // The functions read their limits from the environment, so these have to be
+  // in place before they're imported
+  const env: [string, string | undefined][] = [
+    ["RATE_LIMIT_REQUESTS", values["window-limit"]],
+    ["RATE_LIMIT_WINDOW_MS", values["window-ms"]],
+    ["MAX_CONCURRENCY", values["max-concurrency"]],
+    ["TASK_LEASE_MS", values["lease-ms"]],
+    ["TASK_MAX_ATTEMPTS", values["max-attempts"]],
+  ];
+  for (const [name, value] of env) {
+    if (value !== undefined) {
+      process.env[name] = value;
+    }
+  }
+
+  return {
+    tasks: Number(values.tasks),
+    producers: Number(values.producers),
+    spacingMs: Number(values.spacing),
+    workers: Number(values.workers),
+    taskMs: Number(values["task-ms"]),
+    taskFailureRate: Number(values["task-failure-rate"]),
+    latencyMs: Number(values.latency),
+    writeFailureRate: Number(values["write-failure-rate"]),
+    ambiguousFailureRate: Number(values["ambiguous-failure-rate"]),
+    seed: Number(values.seed),
+    maxMinutes: Number(values["max-minutes"]),
+    verbose: values.verbose,
+  };
+}
+
+// mulberry32 - small, seedable, good enough for picking faults
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Replaces Date.now and the timer functions. Nothing happens between timers:
+// once everything that's ready has run, the clock jumps to the next timer.
+function createVirtualClock(start: number) {
+  interface Timer {
+    at: number;
+    callback: () => void;
+    interval?: number;
+  }
+  const timers = new Map<number, Timer>();
+  let now = start;
+  let nextId = 1;
+
+  function add(callback: () => void, delay: unknown, interval?: number): number {
+    const id = nextId++;
+    timers.set(id, { at: now + Math.max(0, Number(delay) || 0), callback, interval });
+    return id;
+  }
+
+  function earliest(): [number, Timer] | null {
+    let found: [number, Timer] | null = null;
+    for (const entry of timers) {
+      if (!found || entry[1].at < found[1].at) {
+        found = entry;
+      }
+    }
+    return found;
+  }
+
+  const clear = (id: unknown) => {
+    timers.delete(Number(id));
+  };
+
+  Object.assign(globalThis, {
+    setTimeout: (callback: (...args: unknown[]) => void, delay?: number, ...args: unknown[]) =>
+      add(() => callback(...args), delay),
+    setInterval: (callback: (...args: unknown[]) => void, delay?: number, ...args: unknown[]) =>
+      add(() => callback(...args), delay, Math.max(1, Number(delay) || 0)),
+    clearTimeout: clear,
+    clearInterval: clear,
+  });
+  Date.now = () => now;
+
+  return {
+    now: () => now,
+
+    // Runs timers in order until `done()` or the clock would pass `until`.
+    // Resolves to whether `done()` came true.
+    async run(done: () => boolean, until: number): Promise<boolean> {
+      for (;;) {
+        // Let everything the last timer started get as far as it can
+        await settleEventLoop();
+        await settleEventLoop();
+        if (done()) {
+          return true;
+        }
+        const next = earliest();
+        if (!next || next[1].at > until) {
+          return false;
+        }
+        const [id, timer] = next;
+        now = Math.max(now, timer.at);
+        if (timer.interval) {
+          timer.at = now + timer.interval;
+        } else {
+          timers.delete(id);
+        }
+        try {
+          timer.callback();
+        } catch (error) {
+          console.error("Timer callback threw:", error);
+        }
+      }
+    },
+  };
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(new Error("Sim task cancelled"));
+    });
+  });
+}
+
+// Storage that takes a while to answer and sometimes fails writes - cleanly
+// (nothing written) or ambiguously (written, but the caller sees an error,
+// like a Blobs request that times out after landing)
+function withFaults(
+  storage: QueueStorage,
+  options: SimOptions,
+  stats: FaultStats
+): QueueStorage {
+  const delay = () =>
+    options.latencyMs > 0 ? sleep(Math.random() * 2 * options.latencyMs) : Promise.resolve();
+
+  async function write<T>(operation: () => Promise<T>): Promise<T> {
+    await delay();
+    stats.writes += 1;
+    if (Math.random() < options.writeFailureRate) {
+      stats.writeFailures += 1;
+      throw new Error("Injected storage write failure");
+    }
+    const result = await operation();
+    if (Math.random() < options.ambiguousFailureRate) {
+      stats.ambiguousFailures += 1;
+      throw new Error("Injected storage write failure (after writing)");
+    }
+    return result;
+  }
+
+  return {
+    async get(key) {
+      await delay();
+      return storage.get(key);
+    },
+    set: (key, value, condition) => write(() => storage.set(key, value, condition)),
+    delete: (key) => write(() => storage.delete(key)),
+    async list(prefix) {
+      await delay();
+      return storage.list(prefix);
+    },
+  };
+}
+
+// Most starts inside any window of `windowMs` (times sorted)
+function busiestWindow(times: number[], windowMs: number): number {
+  let most = 0;
+  let first = 0;
+  for (let last = 0; last < times.length; last++) {
+    while (times[last] - times[first] >= windowMs) {
+      first += 1;
+    }
+    most = Math.max(most, last - first + 1);
+  }
+  return most;
+}
+
+async function main(): Promise<number> {
+  const parsed = parseOptions();
+  if (!parsed) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+  const options: SimOptions = parsed;
+
+  const print = console.log.bind(console);
+  let errorsLogged = 0;
+  const logError = console.error.bind(console);
+  console.error = (...args: unknown[]) => {
+    errorsLogged += 1;
+    if (options.verbose) {
+      logError(...args);
+    }
+  };
+  if (!options.verbose) {
+    console.log = () => {};
+    console.warn = () => {};
+  }
+
+  Math.random = seededRandom(options.seed);
+  const clock = createVirtualClock(VIRTUAL_START);
+
+  // Every store the functions open is an in-memory one behind the fault
+  // injection; `rawStores` is the same data without it, for the final checks
+  const faults: FaultStats = { writes: 0, writeFailures: 0, ambiguousFailures: 0 };
+  const rawStores = new Map<string, QueueStorage>();
+  setStorageBackend((name) => {
+    let raw = rawStores.get(name);
+    if (!raw) {
+      raw = createMemoryStorage();
+      rawStores.set(name, raw);
+    }
+    return withFaults(raw, options, faults);
+  });
+
+  // After the environment is set up - these read it when they load
+  const { registerTaskHandler } = await import("../netlify/functions/lib/handlers.mts");
+  const { handleWorkloadEvent } = await import("../netlify/functions/lib/worker.mts");
+  const { DEFAULT_QUEUE, openQueue, triggerProcessing } = await import(
+    "../netlify/functions/lib/queues.mts"
+  );
+  const { parseTaskRequest } = await import("../netlify/functions/lib/task-request.mts");
+  const { envLimiterSettings } = await import("../netlify/functions/lib/limiter.mts");
+  const { default: reapLeases } = await import("../netlify/functions/reap-leases.mts");
+  const { default: scheduler } = await import("../netlify/functions/scheduler.mts");
+
+  const delivered: Record<string, number> = {};
+  const workloads = createLocalWorkloadClient(
+    (eventName, data) => {
+      delivered[eventName] = (delivered[eventName] ?? 0) + 1;
+      return handleWorkloadEvent(eventName, data);
+    },
+    { concurrency: options.workers }
+  );
+  setWorkloadClient(workloads);
+
+  const runs: Run[] = [];
+  let running = 0;
+  let mostRunning = 0;
+  registerTaskHandler(
+    SIM_TASK_TYPE,
+    async (data, { task, signal }) => {
+      const { index } = data as { index: number };
+      const run: Run = {
+        taskId: task.id,
+        index,
+        claimedAt: task.startedAt ?? Date.now(),
+        startedAt: Date.now(),
+        endedAt: null,
+        succeeded: false,
+      };
+      runs.push(run);
+      running += 1;
+      mostRunning = Math.max(mostRunning, running);
+      try {
+        await sleep(options.taskMs * (0.5 + Math.random()), signal);
+        if (Math.random() < options.taskFailureRate) {
+          throw new Error("Sim task failure");
+        }
+        run.succeeded = true;
+        return { index };
+      } finally {
+        running -= 1;
+        run.endedAt = Date.now();
+      }
+    },
+    {
+      description: "Simulator task (scripts/simulate.mts)",
+      schema: {
+        type: "object",
+        required: ["index"],
+        properties: { index: { type: "integer", minimum: 0 } },
+      },
+    }
+  );
+
+  // Producers: what /api/queue-task does, retried by the client on errors with
+  // the same Idempotency-Key, as a well-behaved client would
+  const queue = openQueue(DEFAULT_QUEUE);
+  const accepted = new Map<number, string>(); // Task index -> ID
+  const rejected: number[] = [];
+  const gaveUp: number[] = [];
+  let nextIndex = 0;
+
+  async function submit(index: number): Promise<void> {
+    const request = parseTaskRequest(
+      { type: SIM_TASK_TYPE, data: { index } },
+      { idempotencyKey: `sim-${options.seed}-${index}` }
+    );
+    if (!("input" in request)) {
+      throw new Error(`Sim task rejected: ${request.error}`);
+    }
+    for (let attempt = 1; attempt <= MAX_SUBMIT_ATTEMPTS; attempt++) {
+      try {
+        const result = await queue.enqueue(request.input);
+        if (!result.task) {
+          rejected.push(index);
+          return;
+        }
+        accepted.set(index, result.task.id);
+        try {
+          await triggerProcessing(DEFAULT_QUEUE);
+        } catch (error) {
+          console.error("Failed to trigger async workload:", error);
+        }
+        return;
+      } catch {
+        await sleep(SUBMIT_RETRY_MS * 2 ** (attempt - 1));
+      }
+    }
+    gaveUp.push(index);
+  }
+
+  let producersRunning = options.producers;
+  for (let producer = 0; producer < options.producers; producer++) {
+    void (async () => {
+      while (nextIndex < options.tasks) {
+        await submit(nextIndex++);
+        await sleep(Math.random() * 2 * options.spacingMs);
+      }
+      producersRunning -= 1;
+    })();
+  }
+
+  // The scheduled functions, on their schedules
+  for (const scheduled of [reapLeases, scheduler]) {
+    setInterval(() => {
+      scheduled().catch((error: unknown) => console.error("Scheduled function failed:", error));
+    }, SCHEDULED_INTERVAL);
+  }
+
+  // Done when nothing is left to run: producers finished, no workload events
+  // in flight, nothing waiting in the queue - going by the task records as
+  // well as the indexes, since a task a failed write left out of its index
+  // waits there until reap-leases repairs it
+  async function workLeft(): Promise<boolean> {
+    const { stats } = await openQueue(DEFAULT_QUEUE, rawStores.get("queue-state")).summary();
+    if (
+      stats.queuedCount + stats.processingCount + stats.retryingCount + stats.scheduledCount >
+      0
+    ) {
+      return true;
+    }
+    const rawState = rawStores.get("queue-state")!;
+    for (const key of await rawState.list("tasks/")) {
+      const status = (await rawState.get<Task>(key))?.value.status;
+      if (status === "queued" || status === "processing") {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  let finished = false;
+  setInterval(() => {
+    if (producersRunning > 0 || workloads.pending() > 0) {
+      return;
+    }
+    workLeft()
+      .then((left) => {
+        finished = !left;
+      })
+      .catch(() => {});
+  }, COMPLETION_CHECK_INTERVAL);
+
+  const settled = await clock.run(
+    () => finished,
+    VIRTUAL_START + options.maxMinutes * 60000
+  );
+
+  // The checks read storage directly, past the fault injection
+  const audit = openQueue(DEFAULT_QUEUE, rawStores.get("queue-state"));
+  const lost: number[] = [];
+  const stuck: Task[] = [];
+  const outcomes: Record<string, number> = {};
+  for (const [index, taskId] of accepted) {
+    const task = await audit.get(taskId);
+    if (!task) {
+      lost.push(index);
+      continue;
+    }
+    outcomes[task.status] = (outcomes[task.status] ?? 0) + 1;
+    if (task.status === "queued" || task.status === "processing") {
+      stuck.push(task);
+    }
+  }
+
+  // A stuck task missing from its index won't be picked up by anything: the
+  // status and index writes didn't both land
+  const rawState = rawStores.get("queue-state")!;
+  const processingIndex = (await rawState.get<string[]>("index/processing"))?.value ?? [];
+  let unindexed = 0;
+  for (const task of stuck) {
+    const indexed =
+      task.status === "processing"
+        ? processingIndex.includes(task.id)
+        : (await audit.positionOf(task.id)) !== null;
+    if (!indexed) {
+      unindexed += 1;
+    }
+  }
+
+  // More than one task for the same index - the idempotency key should stop that
+  const tasksByIndex = new Map<number, string[]>();
+  for (const key of await rawState.list("tasks/")) {
+    const entry = await rawState.get<Task>(key);
+    const index = (entry?.value.data as { index?: number } | undefined)?.index;
+    if (entry?.value.type === SIM_TASK_TYPE && typeof index === "number") {
+      tasksByIndex.set(index, [...(tasksByIndex.get(index) ?? []), entry.value.id]);
+    }
+  }
+  const duplicateTasks = [...tasksByIndex].filter(([, ids]) => ids.length > 1);
+  // Created by a write the producer saw fail, and never retried into
+  const unacknowledged = [...tasksByIndex.keys()].filter((index) => !accepted.has(index));
+
+  // Runs of one task at the same time, or after it had already succeeded
+  const runsByTask = new Map<string, Run[]>();
+  for (const run of runs) {
+    runsByTask.set(run.taskId, [...(runsByTask.get(run.taskId) ?? []), run]);
+  }
+  let overlappingRuns = 0;
+  let rerunsAfterSuccess = 0;
+  for (const taskRuns of runsByTask.values()) {
+    taskRuns.forEach((run, i) => {
+      const earlier = taskRuns.slice(0, i);
+      if (earlier.some((other) => other.endedAt === null || other.endedAt > run.startedAt)) {
+        overlappingRuns += 1;
+      } else if (earlier.some((other) => other.succeeded)) {
+        rerunsAfterSuccess += 1;
+      }
+    });
+  }
+
+  const limits = envLimiterSettings();
+  const windowLimit = limits.slidingWindow;
+  const busiest = windowLimit
+    ? busiestWindow(
+        runs.map((run) => run.claimedAt).sort((a, b) => a - b),
+        windowLimit.windowMs
+      )
+    : null;
+  const windowViolation = windowLimit !== null && busiest! > windowLimit.limit;
+  const concurrencyViolation =
+    limits.maxConcurrency !== null && mostRunning > limits.maxConcurrency;
+
+  const problems =
+    lost.length +
+    stuck.length +
+    duplicateTasks.length +
+    overlappingRuns +
+    (windowViolation ? 1 : 0) +
+    (concurrencyViolation ? 1 : 0) +
+    (settled ? 0 : 1);
+
+  const minutes = ((clock.now() - VIRTUAL_START) / 60000).toFixed(1);
+  const lines = [
+    `Simulated ${minutes} min of queue time (seed ${options.seed})${
+      settled ? "" : ` - stopped at --max-minutes ${options.maxMinutes} with work left`
+    }`,
+    "",
+    `Tasks        ${options.tasks} submitted, ${accepted.size} accepted, ${rejected.length} rejected, ${gaveUp.length} given up by the producer`,
+    `Outcomes     ${
+      Object.entries(outcomes)
+        .map(([status, count]) => `${count} ${status}`)
+        .join(", ") || "none"
+    }`,
+    `Runs         ${runs.length} handler runs, ${runs.filter((run) => run.succeeded).length} succeeded`,
+    `Events       ${
+      Object.entries(delivered)
+        .map(([eventName, count]) => `${count} ${eventName}`)
+        .join(", ") || "none"
+    } delivered`,
+    `Storage      ${faults.writes} writes, ${faults.writeFailures} failed, ${faults.ambiguousFailures} failed after writing`,
+    `Errors       ${errorsLogged} logged by the functions${options.verbose ? "" : " (--verbose shows them)"}`,
+    "",
+    `Lost tasks                   ${lost.length}${lost.length ? ` (indexes ${lost.slice(0, 10).join(", ")})` : ""}`,
+    `Stuck (queued/processing)    ${stuck.length}${stuck.length ? `, ${unindexed} missing from their index` : ""}`,
+    `Duplicate tasks              ${duplicateTasks.length}${
+      duplicateTasks.length ? ` (indexes ${duplicateTasks.slice(0, 10).map(([index]) => index).join(", ")})` : ""
+    }`,
+    `Unacknowledged tasks         ${unacknowledged.length} (created, but the producer never heard back)`,
+    `Overlapping runs             ${overlappingRuns}`,
+    `Re-runs after success        ${rerunsAfterSuccess} (at-least-once: the success wasn't recorded)`,
+    windowLimit
+      ? `Sliding window               busiest ${windowLimit.windowMs} ms had ${busiest} starts, limit ${windowLimit.limit}${
+          windowViolation ? " - VIOLATED" : ""
+        }`
+      : "Sliding window               off",
+    limits.maxConcurrency !== null
+      ? `Concurrency                  peak ${mostRunning} running, limit ${limits.maxConcurrency}${
+          concurrencyViolation ? " - VIOLATED" : ""
+        }`
+      : `Concurrency                  peak ${mostRunning} running, no limit`,
+    "",
+    problems > 0 ? "FAILED" : "OK",
+  ];
+  print(lines.join("\n"));
+  return problems > 0 ? 1 : 0;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (error) => {
+    process.stderr.write(`${error instanceof Error ? error.stack : String(error)}\n`);
+    process.exit(2);
+  }
+);
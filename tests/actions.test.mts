@@ -0,0 +1,144 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, test } from "node:test";
+import { createQueue, type Queue } from "../netlify/functions/lib/queue.mts";
+import { createMemoryStorage } from "../netlify/functions/lib/storage.mts";
+
+let queue: Queue;
+
+beforeEach(() => {
+  queue = createQueue(createMemoryStorage());
+});
+
+async function enqueued(data?: unknown): Promise<string> {
+  const { task } = await queue.enqueue({ type: "test", data });
+  assert.ok(task);
+  return task.id;
+}
+
+describe("cancel", () => {
+  test("a queued task is cancelled on the spot and can't be claimed", async () => {
+    const taskId = await enqueued();
+
+    const { task } = await queue.cancel(taskId);
+
+    assert.equal(task?.status, "cancelled");
+    assert.ok(task?.cancelledAt);
+    assert.deepEqual(await queue.claim("worker-1"), { task: null, reason: "empty" });
+    const again = await queue.cancel(taskId);
+    assert.ok(again.task === null && again.reason === "wrong-status");
+    assert.equal(again.current.status, "cancelled");
+  });
+
+  test("a processing task is flagged, then cancelled when its worker stops", async () => {
+    const taskId = await enqueued();
+    await queue.claim("worker-1");
+
+    const { task: flagged } = await queue.cancel(taskId);
+    assert.equal(flagged?.status, "processing");
+    assert.ok(flagged?.cancelRequestedAt);
+
+    assert.equal(await queue.acknowledgeCancel(taskId, "worker-2"), null);
+    const cancelled = await queue.acknowledgeCancel(taskId, "worker-1");
+    assert.equal(cancelled?.status, "cancelled");
+    const { stats } = await queue.summary();
+    assert.equal(stats.processingCount, 0);
+    assert.equal(stats.cancelledCount, 1);
+  });
+
+  test("an unknown task isn't found", async () => {
+    assert.deepEqual(await queue.cancel("task-nope"), { task: null, reason: "not-found" });
+  });
+});
+
+describe("move", () => {
+  test("to the front or back of its lane", async () => {
+    const first = await enqueued("first");
+    const last = await enqueued("last");
+
+    assert.ok((await queue.move(last, "front")).task);
+    assert.equal(await queue.positionOf(last), 1);
+    assert.ok((await queue.move(last, "back")).task);
+    assert.equal(await queue.positionOf(first), 1);
+  });
+
+  test("into another lane, which changes its priority", async () => {
+    await enqueued("normal");
+    const taskId = await enqueued("low");
+
+    const { task } = await queue.move(taskId, "front", "high");
+
+    assert.equal(task?.priority, "high");
+    assert.equal((await queue.claim("worker-1")).task?.id, taskId);
+  });
+
+  test("only a queued task moves", async () => {
+    const taskId = await enqueued();
+    await queue.claim("worker-1");
+
+    const result = await queue.move(taskId, "front");
+
+    assert.ok(result.task === null && result.reason === "wrong-status");
+    assert.equal(result.current.status, "processing");
+  });
+});
+
+describe("requeue", () => {
+  test("a completed task runs again with fresh attempts", async () => {
+    const taskId = await enqueued();
+    await queue.claim("worker-1");
+    await queue.complete(taskId, "worker-1", { ok: true });
+
+    const { task } = await queue.requeue(taskId);
+
+    assert.equal(task?.status, "queued");
+    assert.equal(task?.attempts, 0);
+    assert.equal(task?.result, undefined);
+    assert.equal(task?.completedAt, undefined);
+    assert.equal((await queue.summary()).stats.completedCount, 0);
+    assert.equal((await queue.claim("worker-1")).task?.id, taskId);
+  });
+
+  test("a cancelled task goes back in the queue", async () => {
+    const taskId = await enqueued();
+    await queue.cancel(taskId);
+
+    assert.equal((await queue.requeue(taskId)).task?.status, "queued");
+    assert.equal(await queue.positionOf(taskId), 1);
+  });
+
+  test("a queued or processing task isn't requeued", async () => {
+    const queued = await enqueued();
+    const processing = await enqueued();
+    await queue.move(processing, "front");
+    await queue.claim("worker-1");
+
+    for (const taskId of [queued, processing]) {
+      const result = await queue.requeue(taskId);
+      assert.ok(result.task === null && result.reason === "wrong-status");
+    }
+  });
+});
+
+describe("control", () => {
+  test("pausing stops claims until resumed", async () => {
+    const taskId = await enqueued();
+
+    await queue.setControl({ paused: true });
+    assert.deepEqual(await queue.claim("worker-1"), { task: null, reason: "paused" });
+
+    await queue.setControl({ paused: false });
+    assert.equal((await queue.claim("worker-1")).task?.id, taskId);
+  });
+
+  test("draining refuses new tasks but still runs queued ones", async () => {
+    const taskId = await enqueued();
+
+    assert.deepEqual(await queue.setControl({ draining: true }), {
+      paused: false,
+      draining: true,
+    });
+
+    assert.deepEqual(await queue.enqueue({ type: "test" }), { task: null, reason: "draining" });
+    assert.equal((await queue.claim("worker-1")).task?.id, taskId);
+  });
+});
@@ -0,0 +1,154 @@
+import assert from "node:assert/strict";
+import type { Context } from "@netlify/functions";
+import { afterEach, beforeEach, describe, test } from "node:test";
+import clearQueue from "../netlify/functions/clear-queue.mts";
+import getTask from "../netlify/functions/task.mts";
+import {
+  AUTH_STORE,
+  createApiKey,
+  requireRole,
+  revokeApiKey,
+  SESSION_COOKIE,
+  tenantFor,
+  verifyApiKey,
+  type Principal,
+} from "../netlify/functions/lib/auth.mts";
+import { DEFAULT_QUEUE, openQueue } from "../netlify/functions/lib/queues.mts";
+import {
+  createMemoryStorage,
+  setStorageBackend,
+  type QueueStorage,
+} from "../netlify/functions/lib/storage.mts";
+
+let keys: QueueStorage;
+let queueState: QueueStorage;
+
+beforeEach(() => {
+  keys = createMemoryStorage();
+  queueState = createMemoryStorage();
+  setStorageBackend((name) => (name === AUTH_STORE ? keys : queueState));
+});
+
+afterEach(() => {
+  setStorageBackend(null);
+  delete process.env.QUEUE_ADMIN_KEY;
+});
+
+function request(headers: Record<string, string> = {}, path = "/api/queue-status"): Request {
+  return new Request(`http://localhost${path}`, { headers });
+}
+
+describe("API keys", () => {
+  test("a created key verifies until it's revoked", async () => {
+    const { apiKey, key } = await createApiKey({ name: "ci", role: "operator" });
+
+    assert.deepEqual(await verifyApiKey(key), {
+      keyId: apiKey.id,
+      name: "ci",
+      role: "operator",
+      tenant: null,
+    });
+    // Same ID, another secret
+    assert.equal(await verifyApiKey(`${key}x`), null);
+
+    assert.equal(await revokeApiKey(apiKey.id), true);
+    assert.equal(await verifyApiKey(key), null);
+    assert.equal(await revokeApiKey(apiKey.id), false);
+  });
+
+  test("only a hash of the secret is stored", async () => {
+    const { key } = await createApiKey({ name: "ci", role: "submitter" });
+    const secret = key.split("_").slice(2).join("_");
+
+    const [stored] = await keys.list("keys/");
+    assert.doesNotMatch(JSON.stringify((await keys.get(stored))?.value), new RegExp(secret));
+  });
+
+  test("QUEUE_ADMIN_KEY is an admin key", async () => {
+    process.env.QUEUE_ADMIN_KEY = "bootstrap-admin-key";
+
+    assert.equal((await verifyApiKey("bootstrap-admin-key"))?.role, "admin");
+    assert.equal(await verifyApiKey("bootstrap-admin-kex"), null);
+  });
+});
+
+describe("requireRole", () => {
+  test("no key or an unknown one is a 401", async () => {
+    const missing = await requireRole(request(), "submitter");
+    assert.ok(missing instanceof Response);
+    assert.equal(missing.status, 401);
+    assert.equal(missing.headers.get("WWW-Authenticate"), 'Bearer realm="queue"');
+
+    const unknown = await requireRole(request({ "X-API-Key": "qk_nope" }), "submitter");
+    assert.ok(unknown instanceof Response);
+    assert.equal(unknown.status, 401);
+  });
+
+  test("a role below the one needed is a 403; one above is fine", async () => {
+    const { key } = await createApiKey({ name: "ops", role: "operator" });
+    const bearer = request({ Authorization: `Bearer ${key}` });
+
+    const forbidden = await requireRole(bearer, "admin");
+    assert.ok(forbidden instanceof Response);
+    assert.equal(forbidden.status, 403);
+    assert.equal(((await requireRole(bearer, "submitter")) as Principal).role, "operator");
+  });
+
+  test("the key can come as X-API-Key or the session cookie", async () => {
+    const { key } = await createApiKey({ name: "ops", role: "operator" });
+
+    const ways: Record<string, string>[] = [
+      { "X-API-Key": key },
+      { Cookie: `theme=dark; ${SESSION_COOKIE}=${encodeURIComponent(key)}` },
+    ];
+    for (const headers of ways) {
+      assert.ok(!((await requireRole(request(headers), "operator")) instanceof Response));
+    }
+  });
+
+  test("only an admin can clear a queue", async () => {
+    const { key: operator } = await createApiKey({ name: "ops", role: "operator" });
+    const { key: admin } = await createApiKey({ name: "root", role: "admin" });
+    await openQueue(DEFAULT_QUEUE).enqueue({ type: "test" });
+    const clear = (key: string) =>
+      clearQueue(
+        new Request("http://localhost/api/clear-queue", {
+          method: "POST",
+          headers: { Authorization: `Bearer ${key}` },
+        }),
+        { params: {} } as unknown as Context
+      );
+
+    assert.equal((await clear(operator)).status, 403);
+    assert.equal((await openQueue(DEFAULT_QUEUE).summary()).stats.totalTasks, 1);
+    assert.equal((await clear(admin)).status, 200);
+    assert.equal((await openQueue(DEFAULT_QUEUE).summary()).stats.totalTasks, 0);
+  });
+});
+
+describe("tenant scoping", () => {
+  test("a tenant-bound key's tenant wins over X-Tenant-Id", async () => {
+    const { key } = await createApiKey({ name: "acme", role: "submitter", tenant: "acme" });
+    const req = request({ Authorization: `Bearer ${key}`, "X-Tenant-Id": "globex" });
+
+    assert.equal(tenantFor((await requireRole(req, "submitter")) as Principal, req), "acme");
+    const unbound: Principal = { keyId: "env", name: "env", role: "admin", tenant: null };
+    assert.equal(tenantFor(unbound, req), "globex");
+  });
+
+  test("a submitter only sees its own tenant's tasks", async () => {
+    const { key: acme } = await createApiKey({ name: "acme", role: "submitter", tenant: "acme" });
+    const { key: operator } = await createApiKey({ name: "ops", role: "operator" });
+    const { task } = await openQueue(DEFAULT_QUEUE).enqueue({ type: "test", tenant: "globex" });
+    assert.ok(task);
+    const fetchTask = (key: string) =>
+      getTask(request({ Authorization: `Bearer ${key}` }, `/api/task/${task.id}`), {
+        params: { id: task.id },
+      } as unknown as Context);
+
+    assert.equal((await fetchTask(acme)).status, 404);
+    const seen = await fetchTask(operator);
+    assert.equal(seen.status, 200);
+    assert.equal((await seen.json()).tenant, "globex");
+  });
+});
@@ -0,0 +1,120 @@
+import assert from "node:assert/strict";
+import type { Context } from "@netlify/functions";
+import { afterEach, beforeEach, test } from "node:test";
+import queueTasksBatch from "../netlify/functions/queue-tasks-batch.mts";
+import { requestFingerprint } from "../netlify/functions/lib/idempotency.mts";
+import { createQueue, type EnqueueInput } from "../netlify/functions/lib/queue.mts";
+import { DEFAULT_QUEUE, openQueue } from "../netlify/functions/lib/queues.mts";
+import {
+  createMemoryStorage,
+  setStorageBackend,
+  type QueueStorage,
+} from "../netlify/functions/lib/storage.mts";
+import {
+  setWorkloadClient,
+  type WorkloadEventOptions,
+} from "../netlify/functions/lib/workloads.mts";
+
+const ADMIN_KEY = "batch-test-admin-key";
+
+let storage: QueueStorage;
+
+beforeEach(() => {
+  storage = createMemoryStorage();
+});
+
+afterEach(() => {
+  setStorageBackend(null);
+  setWorkloadClient(null);
+  delete process.env.QUEUE_ADMIN_KEY;
+});
+
+// `storage`, but the `failAt`th write to a key starting with `prefix` throws
+function failingWrite(prefix: string, failAt: number): QueueStorage {
+  let writes = 0;
+  return {
+    ...storage,
+    async set(key, value, condition) {
+      if (key.startsWith(prefix) && ++writes === failAt) {
+        throw new Error(`Write to ${key} failed`);
+      }
+      return storage.set(key, value, condition);
+    },
+  };
+}
+
+function batch(count: number): EnqueueInput[] {
+  return Array.from({ length: count }, (_, n) => ({
+    type: "test",
+    data: { n },
+    callback: { url: "https://example.com/hook", secret: "s3cret" },
+    idempotency: { key: `order-${n}`, fingerprint: requestFingerprint({ n }) },
+  }));
+}
+
+async function leftovers(): Promise<string[]> {
+  const keys = await Promise.all(
+    ["tasks/", "callback-secrets/", "idempotency/"].map((prefix) => storage.list(prefix))
+  );
+  return keys.flat();
+}
+
+test("a task write failing mid-batch leaves none of the batch behind", async () => {
+  const queue = createQueue(failingWrite("tasks/", 3));
+
+  await assert.rejects(queue.enqueueBatch(batch(5)), /Write to tasks\/.* failed/);
+
+  assert.deepEqual(await leftovers(), []);
+  assert.equal((await queue.summary()).stats.totalTasks, 0);
+});
+
+test("an index write failing removes the batch's tasks, secrets and keys", async () => {
+  const queue = createQueue(failingWrite("index/queue/", 1));
+
+  await assert.rejects(queue.enqueueBatch(batch(5)));
+
+  assert.deepEqual(await leftovers(), []);
+  // The same keys work once storage does
+  const retried = await createQueue(storage).enqueueBatch(batch(5));
+  assert.ok(retried.every((result) => result.task && !result.duplicate));
+});
+
+test("POST /api/queue-tasks/batch answers per task and sends one event", async () => {
+  process.env.QUEUE_ADMIN_KEY = ADMIN_KEY;
+  setStorageBackend(() => storage);
+  const sent: WorkloadEventOptions[] = [];
+  setWorkloadClient({
+    async send(eventName, options) {
+      assert.equal(eventName, "process-task");
+      sent.push(options);
+    },
+  });
+
+  const response = await queueTasksBatch(
+    new Request("http://localhost/api/queue-tasks/batch", {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${ADMIN_KEY}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        tasks: [{ data: { n: 1 } }, { type: "no-such-type" }, "not a task", {}],
+      }),
+    }),
+    { params: {} } as unknown as Context
+  );
+
+  assert.equal(response.status, 200);
+  const body = await response.json();
+  assert.equal(body.success, false);
+  assert.equal(body.queued, 2);
+  assert.equal(body.failed, 2);
+  assert.deepEqual(
+    body.results.map((result: { success: boolean; statusCode?: number }) =>
+      result.success ? "queued" : result.statusCode
+    ),
+    ["queued", 400, 400, "queued"]
+  );
+  assert.equal((await openQueue(DEFAULT_QUEUE, storage).status()).queued.length, 2);
+  assert.equal(sent.length, 1);
+});
@@ -0,0 +1,172 @@
+import assert from "node:assert/strict";
+import { createServer, type IncomingHttpHeaders, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, test } from "node:test";
+import { deliverCallback, verifyCallback } from "../netlify/functions/lib/callbacks.mts";
+import { createQueue, type Queue } from "../netlify/functions/lib/queue.mts";
+import { DEFAULT_QUEUE, openQueue } from "../netlify/functions/lib/queues.mts";
+import { createMemoryStorage, setStorageBackend } from "../netlify/functions/lib/storage.mts";
+import { parseTaskRequest } from "../netlify/functions/lib/task-request.mts";
+import type { Task } from "../netlify/functions/lib/types.mts";
+import { handleWorkloadEvent } from "../netlify/functions/lib/worker.mts";
+import {
+  createLocalWorkloadClient,
+  setWorkloadClient,
+} from "../netlify/functions/lib/workloads.mts";
+
+const SECRET = "callback-test-secret";
+
+// Stand-in receiver: records each request and answers with `status`
+let server: Server;
+let url: string;
+let status = 200;
+const received: { headers: IncomingHttpHeaders; body: string }[] = [];
+
+before(async () => {
+  // The stand-in is on loopback, which callbacks are otherwise refused
+  process.env.OUTBOUND_ALLOWED_HOSTS = "127.0.0.1";
+  server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      received.push({ headers: req.headers, body });
+      res.writeHead(status, status >= 300 && status < 400 ? { Location: "/moved" } : {}).end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+});
+
+after(() => {
+  server.close();
+  delete process.env.OUTBOUND_ALLOWED_HOSTS;
+});
+
+async function completedTask(queue: Queue, callbackUrl = url): Promise<Task> {
+  await queue.enqueue({ type: "test", callback: { url: callbackUrl, secret: SECRET } });
+  const { task } = await queue.claim("worker-1");
+  assert.ok(task);
+  const completed = await queue.complete(task.id, "worker-1", { answer: 42 });
+  assert.ok(completed);
+  return completed;
+}
+
+test("delivers a signed callback and records the delivery", async () => {
+  status = 200;
+  received.length = 0;
+  const queue = createQueue(createMemoryStorage());
+  const task = await completedTask(queue);
+
+  assert.equal(await deliverCallback(queue, task, 1), null);
+
+  assert.equal(received.length, 1);
+  const { headers, body } = received[0];
+  assert.equal(headers["x-queue-event"], "task.completed");
+  assert.ok(
+    verifyCallback(
+      SECRET,
+      headers["x-queue-timestamp"] as string,
+      body,
+      headers["x-queue-signature"] as string
+    )
+  );
+  assert.deepEqual(JSON.parse(body).task.result, { answer: 42 });
+
+  const [delivery] = (await queue.get(task.id))!.callbackDeliveries!;
+  assert.equal(delivery.delivered, true);
+  assert.equal(delivery.statusCode, 200);
+  assert.equal(delivery.nextAttemptAt, undefined);
+});
+
+test("schedules a retry when the receiver fails", async () => {
+  status = 500;
+  received.length = 0;
+  const queue = createQueue(createMemoryStorage());
+  const task = await completedTask(queue);
+
+  const nextAttemptAt = await deliverCallback(queue, task, 1);
+
+  assert.equal(received.length, 1);
+  assert.ok(nextAttemptAt && nextAttemptAt > Date.now());
+  const [delivery] = (await queue.get(task.id))!.callbackDeliveries!;
+  assert.equal(delivery.delivered, false);
+  assert.equal(delivery.statusCode, 500);
+  assert.equal(delivery.attempt, 1);
+  assert.equal(delivery.nextAttemptAt, nextAttemptAt);
+});
+
+test("delivers the callback of a dependent cancelled because its dependency was dead-lettered", async () => {
+  status = 200;
+  received.length = 0;
+  // The deliver-callback event runs in process, against the same store
+  const storage = createMemoryStorage();
+  setStorageBackend(() => storage);
+  const workloads = createLocalWorkloadClient(handleWorkloadEvent);
+  setWorkloadClient(workloads);
+  try {
+    const queue = openQueue(DEFAULT_QUEUE, storage, { maxAttempts: 1 });
+    const { task: parent } = await queue.enqueue({ type: "test" });
+    assert.ok(parent);
+    const { task: child } = await queue.enqueue({
+      type: "test",
+      dependsOn: [parent.id],
+      callback: { url, secret: SECRET },
+    });
+    assert.ok(child);
+
+    await queue.claim("worker-1");
+    assert.equal((await queue.fail(parent.id, "worker-1", "boom"))?.deadLettered, true);
+    while (workloads.pending() > 0) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+
+    assert.equal(received.length, 1);
+    const { headers, body } = received[0];
+    assert.equal(headers["x-queue-event"], "task.cancelled");
+    assert.equal(JSON.parse(body).task.id, child.id);
+    const [delivery] = (await queue.get(child.id))!.callbackDeliveries!;
+    assert.equal(delivery.delivered, true);
+  } finally {
+    setStorageBackend(null);
+    setWorkloadClient(null);
+  }
+});
+
+test("doesn't follow a redirect", async () => {
+  status = 302;
+  received.length = 0;
+  const queue = createQueue(createMemoryStorage());
+  const task = await completedTask(queue);
+
+  assert.ok(await deliverCallback(queue, task, 1));
+
+  assert.equal(received.length, 1);
+  const [delivery] = (await queue.get(task.id))!.callbackDeliveries!;
+  assert.equal(delivery.delivered, false);
+  assert.equal(delivery.statusCode, 302);
+});
+
+test("refuses a callback to a private address, without retrying", async () => {
+  received.length = 0;
+  const queue = createQueue(createMemoryStorage());
+  const task = await completedTask(queue, "http://169.254.169.254/latest/meta-data");
+
+  assert.equal(await deliverCallback(queue, task, 1), null);
+
+  assert.equal(received.length, 0);
+  const [delivery] = (await queue.get(task.id))!.callbackDeliveries!;
+  assert.equal(delivery.delivered, false);
+  assert.match(delivery.error!, /private or loopback address \(169\.254\.169\.254\)/);
+});
+
+test("rejects a loopback callbackUrl at enqueue unless its host is allowed", () => {
+  const request = { callbackUrl: "http://localhost:8080/hook" };
+
+  process.env.OUTBOUND_ALLOWED_HOSTS = "";
+  assert.deepEqual(parseTaskRequest(request), {
+    error: "callbackUrl must not point at localhost",
+  });
+  process.env.OUTBOUND_ALLOWED_HOSTS = "127.0.0.1, localhost";
+  assert.ok("input" in parseTaskRequest(request));
+  process.env.OUTBOUND_ALLOWED_HOSTS = "127.0.0.1";
+});
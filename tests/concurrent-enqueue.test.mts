@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createQueue } from "../netlify/functions/lib/queue.mts";
+import { createMemoryStorage, type QueueStorage } from "../netlify/functions/lib/storage.mts";
+
+// Every storage call yields for a random few milliseconds, so concurrent
+// read-modify-writes interleave the way they do against Blobs
+function withLatency(storage: QueueStorage): QueueStorage {
+  const pause = () =>
+    new Promise((resolve) => setTimeout(resolve, Math.random() * 5));
+  return {
+    async get(key) {
+      await pause();
+      return storage.get(key);
+    },
+    async set(key, value, condition) {
+      await pause();
+      return storage.set(key, value, condition);
+    },
+    async delete(key) {
+      await pause();
+      return storage.delete(key);
+    },
+    async list(prefix) {
+      await pause();
+      return storage.list(prefix);
+    },
+  };
+}
+
+test("concurrent enqueues don't lose tasks", async () => {
+  const storage = withLatency(createMemoryStorage());
+
+  // One queue per request, as each function invocation opens its own
+  const results = await Promise.all(
+    Array.from({ length: 50 }, (_, index) =>
+      createQueue(storage).enqueue({ type: "test", data: { index } })
+    )
+  );
+
+  const ids = results.map((result) => {
+    assert.ok(result.task, "every enqueue is accepted");
+    return result.task.id;
+  });
+  assert.equal(new Set(ids).size, 50);
+
+  const { stats } = await createQueue(storage).summary();
+  assert.equal(stats.queuedCount, 50);
+  assert.equal(stats.totalTasks, 50);
+});
+
+test("concurrent claims hand out each task once", async () => {
+  const storage = withLatency(createMemoryStorage());
+  const queue = createQueue(storage, { limiter: { slidingWindow: null } });
+  await queue.enqueueBatch(
+    Array.from({ length: 20 }, (_, index) => ({ type: "test", data: { index } }))
+  );
+
+  const claims = await Promise.all(
+    Array.from({ length: 30 }, (_, index) =>
+      createQueue(storage, { limiter: { slidingWindow: null } }).claim(`worker-${index}`)
+    )
+  );
+
+  const claimed = claims.flatMap((claim) => (claim.task ? [claim.task.id] : []));
+  assert.equal(claimed.length, 20);
+  assert.equal(new Set(claimed).size, 20);
+
+  const { stats } = await queue.summary();
+  assert.equal(stats.queuedCount, 0);
+  assert.equal(stats.processingCount, 20);
+});
@@ -0,0 +1,113 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, test } from "node:test";
+import { registerTaskHandler } from "../netlify/functions/lib/handlers.mts";
+import type { LimiterSettings } from "../netlify/functions/lib/limiter.mts";
+import { createQueue, type Queue } from "../netlify/functions/lib/queue.mts";
+import { DEFAULT_QUEUE, openQueue } from "../netlify/functions/lib/queues.mts";
+import {
+  createMemoryStorage,
+  setStorageBackend,
+  type QueueStorage,
+} from "../netlify/functions/lib/storage.mts";
+import { handleWorkloadEvent } from "../netlify/functions/lib/worker.mts";
+import {
+  setWorkloadClient,
+  type WorkloadEventOptions,
+} from "../netlify/functions/lib/workloads.mts";
+
+const CONCURRENCY_3: Partial<LimiterSettings> = {
+  slidingWindow: null,
+  tokenBucket: null,
+  maxConcurrency: 3,
+};
+const ONE_PER_MINUTE: Partial<LimiterSettings> = {
+  slidingWindow: { limit: 1, windowMs: 60000 },
+  tokenBucket: null,
+  maxConcurrency: null,
+};
+
+let storage: QueueStorage;
+
+beforeEach(() => {
+  storage = createMemoryStorage();
+});
+
+afterEach(() => {
+  setStorageBackend(null);
+  setWorkloadClient(null);
+});
+
+async function queueWith(limiter: Partial<LimiterSettings>, tasks: number): Promise<Queue> {
+  const queue = createQueue(storage, { limiter });
+  await queue.enqueueBatch(Array.from({ length: tasks }, () => ({ type: "test" })));
+  return queue;
+}
+
+test("startCapacity counts the queued tasks the limiter would let start", async () => {
+  const queue = await queueWith(CONCURRENCY_3, 5);
+
+  assert.deepEqual(await queue.startCapacity(), { workers: 3, wakeAt: null });
+
+  await queue.setControl({ paused: true });
+  assert.deepEqual(await queue.startCapacity(), { workers: 0, wakeAt: null });
+});
+
+test("startCapacity says when a full window frees up", async () => {
+  const queue = await queueWith(ONE_PER_MINUTE, 2);
+  const { task } = await queue.claim("worker-1");
+  assert.ok(task);
+
+  const capacity = await queue.startCapacity();
+
+  assert.equal(capacity.workers, 0);
+  assert.equal(capacity.wakeAt, task.startedAt! + 60000);
+});
+
+test("reserveDispatch books a worker per startable task, less those on their way", async () => {
+  const queue = await queueWith(CONCURRENCY_3, 5);
+
+  assert.equal((await queue.reserveDispatch(2)).length, 2);
+  const more = await queue.reserveDispatch(25);
+  assert.equal(more.length, 1);
+  assert.deepEqual(await queue.reserveDispatch(25), []);
+
+  // One has started - its place is free to book again
+  await queue.dispatchArrived(more[0].id);
+  assert.equal((await queue.reserveDispatch(25)).length, 1);
+});
+
+test("reserveDispatch books one wake-up while the limiter is full", async () => {
+  const queue = await queueWith(ONE_PER_MINUTE, 2);
+  const { task } = await queue.claim("worker-1");
+  assert.ok(task);
+
+  const [wakeUp] = await queue.reserveDispatch(25);
+
+  assert.equal(wakeUp.at, task.startedAt! + 60000);
+  assert.deepEqual(await queue.reserveDispatch(25), []);
+});
+
+test("a worker the limiter holds back schedules the next one for when it frees", async () => {
+  const sent: { eventName: string; options: WorkloadEventOptions }[] = [];
+  setStorageBackend(() => storage);
+  setWorkloadClient({
+    async send(eventName, options) {
+      sent.push({ eventName, options });
+    },
+  });
+  registerTaskHandler("test", async () => ({ ok: true }));
+  const queue = openQueue(DEFAULT_QUEUE, storage);
+  await queue.setLimiterSettings(ONE_PER_MINUTE);
+  await queue.enqueueBatch([{ type: "test" }, { type: "test" }]);
+
+  await handleWorkloadEvent("process-task", { queue: DEFAULT_QUEUE });
+
+  const { completed, queued } = await queue.status();
+  assert.equal(completed.length, 1);
+  assert.equal(queued.length, 1);
+  assert.equal(sent.length, 1);
+  const [{ eventName, options }] = sent;
+  assert.equal(eventName, "process-task");
+  assert.equal(options.delayUntil, completed[0].startedAt! + 60000);
+  assert.equal(typeof (options.data as { dispatchId?: unknown }).dispatchId, "string");
+});
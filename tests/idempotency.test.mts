@@ -0,0 +1,141 @@
+import assert from "node:assert/strict";
+import type { Context } from "@netlify/functions";
+import { afterEach, beforeEach, test } from "node:test";
+import queueTask from "../netlify/functions/queue-task.mts";
+import { requestFingerprint } from "../netlify/functions/lib/idempotency.mts";
+import { createQueue } from "../netlify/functions/lib/queue.mts";
+import {
+  createMemoryStorage,
+  setStorageBackend,
+  type QueueStorage,
+} from "../netlify/functions/lib/storage.mts";
+import { setWorkloadClient } from "../netlify/functions/lib/workloads.mts";
+
+const ADMIN_KEY = "idempotency-test-admin-key";
+
+let storage: QueueStorage;
+
+beforeEach(() => {
+  storage = createMemoryStorage();
+});
+
+afterEach(() => {
+  setStorageBackend(null);
+  setWorkloadClient(null);
+  delete process.env.QUEUE_ADMIN_KEY;
+});
+
+function enqueueWithKey(key: string, data: unknown) {
+  return { type: "test", data, idempotency: { key, fingerprint: requestFingerprint(data) } };
+}
+
+test("a repeat with the same key and payload gets the original task", async () => {
+  const queue = createQueue(storage);
+
+  const first = await queue.enqueue(enqueueWithKey("order-1", { n: 1 }));
+  const second = await queue.enqueue(enqueueWithKey("order-1", { n: 1 }));
+
+  assert.ok(first.task && second.task);
+  assert.equal(second.task.id, first.task.id);
+  assert.equal(second.duplicate, true);
+  assert.equal((await queue.summary()).stats.totalTasks, 1);
+});
+
+test("the same key with another payload is a conflict", async () => {
+  const queue = createQueue(storage);
+  const { task } = await queue.enqueue(enqueueWithKey("order-1", { n: 1 }));
+  assert.ok(task);
+
+  assert.deepEqual(await queue.enqueue(enqueueWithKey("order-1", { n: 2 })), {
+    task: null,
+    reason: "idempotency-conflict",
+    taskId: task.id,
+  });
+});
+
+test("a key can be reused once its record expires", async () => {
+  const queue = createQueue(storage, { idempotencyTtlMs: 1 });
+  const first = await queue.enqueue(enqueueWithKey("order-1", { n: 1 }));
+  await new Promise((resolve) => setTimeout(resolve, 5));
+
+  const second = await queue.enqueue(enqueueWithKey("order-1", { n: 2 }));
+
+  assert.ok(first.task && second.task);
+  assert.notEqual(second.task.id, first.task.id);
+  assert.equal(second.duplicate, undefined);
+  // Left for pruneIdempotencyRecords() once that one has expired too
+  await new Promise((resolve) => setTimeout(resolve, 5));
+  assert.equal(await queue.pruneIdempotencyRecords(), 1);
+  assert.deepEqual(await storage.list("idempotency/"), []);
+});
+
+test("the record is reserved before its task is written", async () => {
+  const writes: string[] = [];
+  const queue = createQueue({
+    ...storage,
+    set(key, value, condition) {
+      writes.push(key);
+      return storage.set(key, value, condition);
+    },
+  });
+
+  const { task } = await queue.enqueue(enqueueWithKey("order-1", { n: 1 }));
+  assert.ok(task);
+
+  const record = writes.findIndex((key) => key.startsWith("idempotency/"));
+  assert.ok(record !== -1);
+  assert.ok(record < writes.indexOf(`tasks/${task.id}`));
+});
+
+test("racing requests with one key create one task", async () => {
+  const results = await Promise.all(
+    Array.from({ length: 10 }, () =>
+      createQueue(storage).enqueue(enqueueWithKey("order-1", { n: 1 }))
+    )
+  );
+
+  const ids = new Set(results.map((result) => result.task?.id));
+  assert.equal(ids.size, 1);
+  assert.equal(results.filter((result) => result.task && !result.duplicate).length, 1);
+  assert.equal((await createQueue(storage).summary()).stats.totalTasks, 1);
+});
+
+test("fingerprints ignore object key order", () => {
+  assert.equal(
+    requestFingerprint({ a: 1, b: { c: [1, 2], d: null } }),
+    requestFingerprint({ b: { d: null, c: [1, 2] }, a: 1 })
+  );
+  assert.notEqual(requestFingerprint({ a: 1 }), requestFingerprint({ a: 2 }));
+});
+
+test("POST /api/queue-task replays a repeat and answers 409 to a conflicting one", async () => {
+  process.env.QUEUE_ADMIN_KEY = ADMIN_KEY;
+  setStorageBackend(() => storage);
+  setWorkloadClient({ send: async () => {} });
+  const post = (data: unknown) =>
+    queueTask(
+      new Request("http://localhost/api/queue-task", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${ADMIN_KEY}`,
+          "Content-Type": "application/json",
+          "Idempotency-Key": "order-1",
+        },
+        body: JSON.stringify({ data }),
+      }),
+      { params: {} } as unknown as Context
+    );
+
+  const first = await post({ n: 1 });
+  assert.equal(first.status, 200);
+  const { taskId } = await first.json();
+
+  const replay = await post({ n: 1 });
+  assert.equal(replay.status, 200);
+  assert.equal(replay.headers.get("Idempotent-Replayed"), "true");
+  assert.equal((await replay.json()).taskId, taskId);
+
+  const conflict = await post({ n: 2 });
+  assert.equal(conflict.status, 409);
+  assert.equal((await conflict.json()).taskId, taskId);
+});
@@ -0,0 +1,183 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  acquire,
+  emptyLimiterState,
+  extend,
+  limiterStatus,
+  refund,
+  release,
+  releaseUnless,
+  resolveLimiterSettings,
+  validateLimiterSettings,
+  type LimiterSettings,
+} from "../netlify/functions/lib/limiter.mts";
+import { createQueue } from "../netlify/functions/lib/queue.mts";
+import { createMemoryStorage } from "../netlify/functions/lib/storage.mts";
+
+const NONE: LimiterSettings = { slidingWindow: null, tokenBucket: null, maxConcurrency: null };
+
+describe("sliding window", () => {
+  const settings = { ...NONE, slidingWindow: { limit: 2, windowMs: 1000 } };
+
+  test("allows `limit` starts per window, then says when the next is allowed", () => {
+    const state = emptyLimiterState();
+    assert.equal(acquire(settings, state, "a", 0, 60000).allowed, true);
+    assert.equal(acquire(settings, state, "b", 10, 60000).allowed, true);
+
+    assert.deepEqual(acquire(settings, state, "c", 20, 60000), {
+      allowed: false,
+      retryAt: 1000,
+    });
+    // The first start has aged out
+    assert.equal(acquire(settings, state, "c", 1000, 60000).allowed, true);
+  });
+
+  test("reports what's used and left", () => {
+    const state = emptyLimiterState();
+    acquire(settings, state, "a", 0, 60000);
+
+    const [policy] = limiterStatus(settings, state, 500).policies;
+    assert.deepEqual(policy, {
+      type: "sliding-window",
+      limit: 2,
+      windowSeconds: 1,
+      used: 1,
+      remaining: 1,
+      resetAt: null,
+    });
+  });
+});
+
+describe("token bucket", () => {
+  const settings = { ...NONE, tokenBucket: { capacity: 2, refillPerSecond: 1 } };
+
+  test("starts full, allows a burst of `capacity`, then refills over time", () => {
+    const state = emptyLimiterState();
+    assert.equal(acquire(settings, state, "a", 0, 60000).allowed, true);
+    assert.equal(acquire(settings, state, "b", 0, 60000).allowed, true);
+
+    assert.deepEqual(acquire(settings, state, "c", 500, 60000), {
+      allowed: false,
+      retryAt: 1000,
+    });
+    assert.equal(acquire(settings, state, "c", 1000, 60000).allowed, true);
+    // Never refills past capacity
+    assert.equal(limiterStatus(settings, state, 60000).remaining, 2);
+  });
+
+  test("refund gives the token back", () => {
+    const state = emptyLimiterState();
+    acquire(settings, state, "a", 0, 60000);
+    acquire(settings, state, "b", 0, 60000);
+
+    refund(settings, state, "b", 0);
+
+    assert.equal(limiterStatus(settings, state, 0).remaining, 1);
+    assert.deepEqual(state.starts, [0]);
+  });
+});
+
+describe("concurrency slots", () => {
+  const settings = { ...NONE, maxConcurrency: 1 };
+
+  test("a slot is held until released", () => {
+    const state = emptyLimiterState();
+    assert.equal(acquire(settings, state, "a", 0, 1000).allowed, true);
+    // Only a running task finishing frees one, so no retry time
+    assert.deepEqual(acquire(settings, state, "b", 10, 1010), {
+      allowed: false,
+      retryAt: null,
+    });
+
+    assert.equal(release(state, "a"), true);
+    assert.equal(release(state, "a"), false);
+    assert.equal(acquire(settings, state, "b", 20, 1020).allowed, true);
+  });
+
+  test("a slot lapses when its lease would have, unless extended", () => {
+    const state = emptyLimiterState();
+    acquire(settings, state, "a", 0, 1000);
+
+    assert.equal(extend(state, "a", 2000), true);
+    assert.equal(acquire(settings, state, "b", 1500, 2500).allowed, false);
+    assert.equal(acquire(settings, state, "b", 2000, 3000).allowed, true);
+    assert.equal(extend(state, "a", 4000), false);
+  });
+
+  test("releaseUnless drops rejected and lapsed slots, and old string slots", () => {
+    const state = emptyLimiterState();
+    state.active = [
+      { holder: "live", expiresAt: 2000 },
+      { holder: "lapsed", expiresAt: 500 },
+      { holder: "orphan", expiresAt: 2000 },
+      "legacy",
+    ];
+
+    const dropped = releaseUnless(
+      state,
+      (slot) => typeof slot !== "string" && slot.holder !== "orphan",
+      1000
+    );
+
+    assert.deepEqual(dropped.sort(), ["lapsed", "legacy", "orphan"]);
+    assert.deepEqual(state.active, [{ holder: "live", expiresAt: 2000 }]);
+  });
+});
+
+describe("settings", () => {
+  test("every enabled policy has to allow a start", () => {
+    const settings: LimiterSettings = {
+      slidingWindow: { limit: 5, windowMs: 1000 },
+      tokenBucket: { capacity: 1, refillPerSecond: 1 },
+      maxConcurrency: 3,
+    };
+    const state = emptyLimiterState();
+    acquire(settings, state, "a", 0, 60000);
+
+    const info = limiterStatus(settings, state, 0);
+    assert.equal(info.remaining, 0);
+    assert.equal(info.resetAt, 1000);
+    assert.deepEqual(
+      info.policies.map((policy) => policy.remaining),
+      [4, 0, 2]
+    );
+  });
+
+  test("later layers win, and null switches a policy off", () => {
+    const base: LimiterSettings = {
+      slidingWindow: { limit: 250, windowMs: 60000 },
+      tokenBucket: null,
+      maxConcurrency: 10,
+    };
+
+    assert.deepEqual(
+      resolveLimiterSettings(base, { maxConcurrency: 5 }, null, { slidingWindow: null }),
+      { slidingWindow: null, tokenBucket: null, maxConcurrency: 5 }
+    );
+  });
+
+  test("validation names the first bad setting", () => {
+    assert.equal(validateLimiterSettings({ maxConcurrency: null }), null);
+    assert.equal(
+      validateLimiterSettings({ slidingWindow: { limit: 0, windowMs: 1000 } }),
+      "slidingWindow needs a positive limit and windowMs"
+    );
+    assert.equal(validateLimiterSettings({ burst: 3 }), "Unknown setting: burst");
+    assert.equal(validateLimiterSettings([]), "Settings must be an object");
+  });
+});
+
+test("claim is rate-limited once the window is used up", async () => {
+  const queue = createQueue(createMemoryStorage(), {
+    limiter: { slidingWindow: { limit: 1, windowMs: 60000 }, tokenBucket: null },
+  });
+  await queue.enqueueBatch([{ type: "test" }, { type: "test" }]);
+  assert.ok((await queue.claim("worker-1")).task);
+
+  const refused = await queue.claim("worker-2");
+
+  assert.equal(refused.task, null);
+  assert.ok(refused.reason === "rate-limited" && refused.retryAt! > Date.now());
+  assert.equal((await queue.summary()).stats.queuedCount, 1);
+});
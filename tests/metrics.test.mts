@@ -0,0 +1,132 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import type { LimiterSettings } from "../netlify/functions/lib/limiter.mts";
+import {
+  buildMetrics,
+  emptyMetricsBucket,
+  LATENCY_BOUNDS_MS,
+  mergeMetricsBuckets,
+  METRICS_BUCKET_MS,
+  observe,
+  prometheusText,
+  quantile,
+  type Histogram,
+} from "../netlify/functions/lib/metrics.mts";
+import { createQueue } from "../netlify/functions/lib/queue.mts";
+import { createMemoryStorage } from "../netlify/functions/lib/storage.mts";
+
+const SIXTY_PER_MINUTE: LimiterSettings = {
+  slidingWindow: { limit: 60, windowMs: 60000 },
+  tokenBucket: null,
+  maxConcurrency: null,
+};
+
+function histogramOf(values: number[]): Histogram {
+  const histogram = emptyMetricsBucket(0).waitMs;
+  for (const value of values) {
+    observe(histogram, value);
+  }
+  return histogram;
+}
+
+// 90 fast ones (0-10ms bucket) and 10 slow ones (250-500ms bucket)
+const MIXED = [...new Array(90).fill(5), ...new Array(10).fill(400)];
+
+describe("percentiles", () => {
+  test("are estimated within the histogram bucket they fall in", () => {
+    const histogram = histogramOf(MIXED);
+
+    assert.equal(histogram.count, 100);
+    assert.equal(histogram.sum, 90 * 5 + 10 * 400);
+    assert.equal(quantile(histogram, 0.5), 6);
+    assert.equal(quantile(histogram, 0.95), 375);
+    assert.equal(quantile(histogram, 0.99), 475);
+  });
+
+  test("are null with nothing observed, and capped past the last bound", () => {
+    assert.equal(quantile(histogramOf([]), 0.5), null);
+    assert.equal(
+      quantile(histogramOf([2 * 3600000]), 0.99),
+      LATENCY_BOUNDS_MS[LATENCY_BOUNDS_MS.length - 1]
+    );
+  });
+
+  test("shards of a minute merge into one bucket, oldest minute first", () => {
+    const later = emptyMetricsBucket(METRICS_BUCKET_MS);
+    const shardA = emptyMetricsBucket(0);
+    const shardB = emptyMetricsBucket(0);
+    shardA.counts.completed = 2;
+    shardB.counts.completed = 3;
+    observe(shardA.runMs, 5);
+    observe(shardB.runMs, 400);
+
+    const merged = mergeMetricsBuckets([later, shardA, shardB]);
+
+    assert.deepEqual(
+      merged.map((bucket) => bucket.minute),
+      [0, METRICS_BUCKET_MS]
+    );
+    assert.equal(merged[0].counts.completed, 5);
+    assert.equal(merged[0].runMs.count, 2);
+  });
+});
+
+describe("reports", () => {
+  async function sampleMetrics() {
+    const bucket = emptyMetricsBucket(0);
+    bucket.counts.started = 30;
+    bucket.waitMs = histogramOf(MIXED);
+    const summary = await createQueue(createMemoryStorage()).summary();
+    return buildMetrics(
+      'say "hi"',
+      [bucket],
+      { from: 0, to: 2 * METRICS_BUCKET_MS },
+      summary,
+      SIXTY_PER_MINUTE
+    );
+  }
+
+  test("rates and utilization are averaged over the window", async () => {
+    const metrics = await sampleMetrics();
+
+    assert.equal(metrics.windowMinutes, 2);
+    assert.equal(metrics.perMinute.started, 15);
+    assert.equal(metrics.rateLimit.capacityPerMinute, 60);
+    assert.equal(metrics.rateLimit.utilization, 0.25);
+    assert.equal(metrics.rateLimit.timeline[0].utilization, 0.5);
+    assert.equal(metrics.waitTime.p95Ms, 375);
+    assert.equal(metrics.runTime.p50Ms, null);
+  });
+
+  test("the Prometheus text has seconds, NaN for no data and escaped labels", async () => {
+    const text = prometheusText([await sampleMetrics()]);
+    const lines = text.split("\n");
+
+    assert.ok(text.endsWith("\n"));
+    assert.ok(lines.includes("# TYPE queue_wait_seconds summary"));
+    assert.ok(lines.includes('queue_wait_seconds{queue="say \\"hi\\"",quantile="0.95"} 0.375'));
+    assert.ok(lines.includes('queue_wait_seconds_count{queue="say \\"hi\\""} 100'));
+    assert.ok(lines.includes('queue_run_seconds{queue="say \\"hi\\"",quantile="0.5"} NaN'));
+  });
+});
+
+test("the queue records each lifecycle step in the current minute", async () => {
+  const queue = createQueue(createMemoryStorage());
+  await queue.enqueueBatch([{ type: "test" }, { type: "test" }]);
+  const { task } = await queue.claim("worker-1");
+  assert.ok(task);
+  await queue.complete(task.id, "worker-1");
+
+  const buckets = await queue.metrics(Date.now() - METRICS_BUCKET_MS);
+
+  const totals = mergeMetricsBuckets(buckets).reduce(
+    (sum, bucket) => ({
+      enqueued: sum.enqueued + bucket.counts.enqueued,
+      started: sum.started + bucket.counts.started,
+      completed: sum.completed + bucket.counts.completed,
+      runs: sum.runs + bucket.runMs.count,
+    }),
+    { enqueued: 0, started: 0, completed: 0, runs: 0 }
+  );
+  assert.deepEqual(totals, { enqueued: 2, started: 1, completed: 1, runs: 1 });
+});
@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import { afterEach, test } from "node:test";
+import { getTaskHandler } from "../netlify/functions/lib/handlers.mts";
+import {
+  checkOutboundUrl,
+  isPublicAddress,
+  outboundUrlError,
+} from "../netlify/functions/lib/outbound.mts";
+import { parseTaskRequest } from "../netlify/functions/lib/task-request.mts";
+import type { Task } from "../netlify/functions/lib/types.mts";
+
+afterEach(() => {
+  delete process.env.OUTBOUND_ALLOWED_HOSTS;
+});
+
+test("loopback, private, link-local and reserved addresses aren't public", () => {
+  for (const address of [
+    "127.0.0.1",
+    "10.20.30.40",
+    "172.31.255.255",
+    "192.168.1.1",
+    "169.254.169.254",
+    "100.64.0.1",
+    "0.0.0.0",
+    "::1",
+    "::",
+    "fd00::1",
+    "fe80::1",
+    "::ffff:127.0.0.1",
+    "::ffff:a00:1",
+  ]) {
+    assert.equal(isPublicAddress(address), false, address);
+  }
+  for (const address of ["93.184.216.34", "172.32.0.1", "2606:4700::1111", "::ffff:808:808"]) {
+    assert.equal(isPublicAddress(address), true, address);
+  }
+});
+
+test("a URL is refused on its host, however the address is written", () => {
+  for (const url of [
+    "http://localhost:3000/hook",
+    "http://api.localhost/hook",
+    "http://LOCALHOST./hook",
+    "http://127.1/hook",
+    "http://2130706433/hook",
+    "http://0x7f000001/hook",
+    "http://[::1]:8080/hook",
+    "http://[::ffff:127.0.0.1]/hook",
+    "http://169.254.169.254/latest/meta-data",
+  ]) {
+    assert.ok(outboundUrlError(url), url);
+  }
+  assert.equal(outboundUrlError("https://example.com/hook"), null);
+  assert.equal(outboundUrlError("ftp://example.com/"), "must be an http(s) URL");
+});
+
+test("OUTBOUND_ALLOWED_HOSTS lets chosen hosts through", async () => {
+  process.env.OUTBOUND_ALLOWED_HOSTS = " 127.0.0.1 ,Hooks.Internal,::1";
+
+  assert.equal(outboundUrlError("http://127.0.0.1:9000/hook"), null);
+  assert.equal(outboundUrlError("http://[::1]/hook"), null);
+  // Not looked up - an allowed name is trusted whatever it resolves to
+  assert.equal(await checkOutboundUrl("http://hooks.internal/hook"), null);
+  assert.ok(outboundUrlError("http://10.0.0.1/hook"));
+});
+
+test("checkOutboundUrl refuses literal addresses without a lookup", async () => {
+  assert.match(
+    (await checkOutboundUrl("http://10.0.0.1/hook"))!,
+    /private or loopback address \(10\.0\.0\.1\)/
+  );
+  assert.equal(await checkOutboundUrl("http://93.184.216.34/hook"), null);
+});
+
+test("a webhook task is refused a private data.url, at enqueue and when it runs", async () => {
+  const data = { url: "http://192.168.0.10/admin" };
+
+  const request = parseTaskRequest({ type: "webhook", data });
+  assert.ok("error" in request);
+  assert.deepEqual(request.errors, [
+    {
+      path: "/data/url",
+      message: "must not point at a private or loopback address (192.168.0.10)",
+    },
+  ]);
+
+  const webhook = getTaskHandler("webhook")!;
+  await assert.rejects(
+    webhook(data, { task: {} as Task, signal: new AbortController().signal }),
+    /data\.url must not point at a private or loopback address/
+  );
+});
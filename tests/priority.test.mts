@@ -0,0 +1,120 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, mock, test } from "node:test";
+import {
+  DEFAULT_DRAIN_SETTINGS,
+  envDrainSettings,
+  pickLane,
+  type DrainSettings,
+  type Lanes,
+} from "../netlify/functions/lib/priority.mts";
+import { createQueue } from "../netlify/functions/lib/queue.mts";
+import { createMemoryStorage } from "../netlify/functions/lib/storage.mts";
+
+const NOW = 1_000_000;
+
+// One task in each lane, queued `ago` ms before NOW
+function lanes(ago: Partial<Record<keyof Lanes, number>>): Lanes {
+  const lane = (priority: keyof Lanes) =>
+    ago[priority] === undefined ? [] : [{ id: priority, queuedAt: NOW - ago[priority]! }];
+  return { high: lane("high"), normal: lane("normal"), low: lane("low") };
+}
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe("pickLane", () => {
+  test("strict takes the highest lane with work in it", () => {
+    assert.equal(
+      pickLane(lanes({ normal: 0, low: 0 }), DEFAULT_DRAIN_SETTINGS, NOW),
+      "normal"
+    );
+    assert.equal(pickLane(lanes({}), DEFAULT_DRAIN_SETTINGS, NOW), null);
+  });
+
+  test("a starving lane goes first, the longest-waiting one before others", () => {
+    const settings: DrainSettings = { ...DEFAULT_DRAIN_SETTINGS, starvationMs: 1000 };
+
+    assert.equal(pickLane(lanes({ high: 0, low: 1000 }), settings, NOW), "low");
+    assert.equal(pickLane(lanes({ high: 0, normal: 1500, low: 2000 }), settings, NOW), "low");
+    assert.equal(pickLane(lanes({ high: 0, low: 999 }), settings, NOW), "high");
+  });
+
+  test("weighted picks lanes in proportion to their weights", () => {
+    const settings: DrainSettings = { ...DEFAULT_DRAIN_SETTINGS, mode: "weighted" };
+    const waiting = lanes({ high: 0, normal: 0, low: 0 });
+    const pickAt = (roll: number) => {
+      mock.method(Math, "random", () => roll);
+      return pickLane(waiting, settings, NOW);
+    };
+
+    // Weights 6, 3 and 1 out of 10
+    assert.equal(pickAt(0.59), "high");
+    assert.equal(pickAt(0.6), "normal");
+    assert.equal(pickAt(0.89), "normal");
+    assert.equal(pickAt(0.9), "low");
+    // Only lanes with work in them share the roll
+    mock.method(Math, "random", () => 0.9);
+    assert.equal(pickLane(lanes({ normal: 0, low: 0 }), settings, NOW), "low");
+  });
+
+  test("the environment can change the mode, weights and starvation time", () => {
+    const names = ["QUEUE_DRAIN_MODE", "QUEUE_LANE_WEIGHTS", "QUEUE_STARVATION_MS"];
+    const saved = names.map((name) => process.env[name]);
+    try {
+      process.env.QUEUE_DRAIN_MODE = "weighted";
+      process.env.QUEUE_LANE_WEIGHTS = "5,0,1";
+      process.env.QUEUE_STARVATION_MS = "30000";
+      assert.deepEqual(envDrainSettings(), {
+        mode: "weighted",
+        weights: { high: 5, normal: 0, low: 1 },
+        starvationMs: 30000,
+      });
+
+      // Anything unusable falls back to the defaults
+      process.env.QUEUE_DRAIN_MODE = "random";
+      process.env.QUEUE_LANE_WEIGHTS = "1,2";
+      process.env.QUEUE_STARVATION_MS = "soon";
+      assert.deepEqual(envDrainSettings(), DEFAULT_DRAIN_SETTINGS);
+    } finally {
+      names.forEach((name, index) => {
+        if (saved[index] === undefined) {
+          delete process.env[name];
+        } else {
+          process.env[name] = saved[index];
+        }
+      });
+    }
+  });
+});
+
+describe("claim order", () => {
+  test("higher lanes go first, each FIFO", async () => {
+    const queue = createQueue(createMemoryStorage(), { drain: { mode: "strict" } });
+    await queue.enqueueBatch([
+      { type: "test", priority: "low", data: "low" },
+      { type: "test", data: "normal-1" },
+      { type: "test", priority: "high", data: "high" },
+      { type: "test", data: "normal-2" },
+    ]);
+
+    const order: unknown[] = [];
+    for (let i = 0; i < 4; i++) {
+      order.push((await queue.claim("worker-1")).task?.data);
+    }
+
+    assert.deepEqual(order, ["high", "normal-1", "normal-2", "low"]);
+  });
+
+  test("a low-priority task that has waited too long goes ahead of newer urgent ones", async () => {
+    const queue = createQueue(createMemoryStorage(), {
+      drain: { mode: "strict", starvationMs: 20 },
+    });
+    await queue.enqueue({ type: "test", priority: "low", data: "low" });
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    await queue.enqueue({ type: "test", priority: "high", data: "high" });
+
+    assert.equal((await queue.claim("worker-1")).task?.data, "low");
+    assert.equal((await queue.claim("worker-1")).task?.data, "high");
+  });
+});
@@ -0,0 +1,345 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, test } from "node:test";
+import { createQueue, type Queue } from "../netlify/functions/lib/queue.mts";
+import { createMemoryStorage, type QueueStorage } from "../netlify/functions/lib/storage.mts";
+import type { Task } from "../netlify/functions/lib/types.mts";
+import { workflowLevels } from "../netlify/functions/lib/workflows.mts";
+
+describe("queue", () => {
+  let storage: QueueStorage;
+  let queue: Queue;
+
+  beforeEach(() => {
+    storage = createMemoryStorage();
+    // No backoff, so a failed task is due again on the next claim
+    queue = createQueue(storage, { maxAttempts: 2, retryBaseMs: 0 });
+  });
+
+  test("enqueue queues tasks in order", async () => {
+    const first = await queue.enqueue({ type: "test", data: { n: 1 } });
+    const second = await queue.enqueue({ type: "test", data: { n: 2 } });
+
+    assert.ok(first.task && second.task);
+    assert.equal(first.task.status, "queued");
+    assert.equal(first.position, 1);
+    assert.equal(second.position, 2);
+    assert.deepEqual((await queue.get(first.task.id))?.data, { n: 1 });
+  });
+
+  test("claim leases the oldest task to the worker", async () => {
+    const { task: queued } = await queue.enqueue({ type: "test" });
+    await queue.enqueue({ type: "test" });
+
+    const claim = await queue.claim("worker-1");
+
+    assert.ok(claim.task);
+    assert.equal(claim.task.id, queued?.id);
+    assert.equal(claim.task.status, "processing");
+    assert.equal(claim.task.workerId, "worker-1");
+    assert.equal(claim.task.attempts, 1);
+    assert.ok(claim.task.leaseExpiresAt! > Date.now());
+  });
+
+  test("claim on an empty queue says so", async () => {
+    assert.deepEqual(await queue.claim("worker-1"), { task: null, reason: "empty" });
+  });
+
+  test("complete records the result, for the lease holder only", async () => {
+    await queue.enqueue({ type: "test" });
+    const { task } = await queue.claim("worker-1");
+    assert.ok(task);
+
+    assert.equal(await queue.complete(task.id, "worker-2", "stolen"), null);
+    const completed = await queue.complete(task.id, "worker-1", { ok: true });
+
+    assert.equal(completed?.status, "completed");
+    assert.deepEqual(completed?.result, { ok: true });
+    const { stats } = await queue.summary();
+    assert.equal(stats.processingCount, 0);
+    assert.equal(stats.completedCount, 1);
+  });
+
+  test("fail retries, then dead-letters once attempts run out", async () => {
+    await queue.enqueue({ type: "test" });
+    const first = await queue.claim("worker-1");
+    assert.ok(first.task);
+
+    const retry = await queue.fail(first.task.id, "worker-1", "boom");
+    assert.equal(retry?.deadLettered, false);
+    assert.equal((await queue.summary()).stats.retryingCount, 1);
+
+    const second = await queue.claim("worker-2");
+    assert.equal(second.task?.id, first.task.id);
+    assert.equal(second.task?.attempts, 2);
+
+    const dead = await queue.fail(first.task.id, "worker-2", "boom again");
+    assert.equal(dead?.deadLettered, true);
+    assert.equal(dead?.task.status, "failed");
+    assert.equal(dead?.task.error, "boom again");
+    assert.deepEqual(
+      (await queue.deadLetter()).map((task) => task.id),
+      [first.task.id]
+    );
+  });
+
+  test("retryDeadLetter only requeues tasks that are still failed", async () => {
+    await queue.enqueue({ type: "test" });
+    const { task } = await queue.claim("worker-1");
+    assert.ok(task);
+    await queue.fail(task.id, "worker-1", "boom");
+    await queue.claim("worker-1");
+    await queue.fail(task.id, "worker-1", "boom");
+    const requeued = await queue.requeue(task.id);
+    assert.equal(requeued.task?.status, "queued");
+    // As if the retry had read the dead-letter index before the requeue took it off
+    await storage.set("index/dead-letter", [task.id]);
+
+    assert.deepEqual(await queue.retryDeadLetter(), []);
+    assert.equal((await queue.summary()).stats.queuedCount, 1);
+  });
+
+  test("status lists tasks by state", async () => {
+    await queue.enqueueBatch([{ type: "test" }, { type: "test" }, { type: "test" }]);
+    const { task } = await queue.claim("worker-1");
+    assert.ok(task);
+    await queue.complete(task.id, "worker-1");
+    await queue.claim("worker-1");
+
+    const status = await queue.status();
+
+    assert.equal(status.queued.length, 1);
+    assert.equal(status.processing.length, 1);
+    assert.deepEqual(
+      status.completed.map((task) => task.id),
+      [task.id]
+    );
+    assert.equal(status.stats.totalTasks, 3);
+  });
+
+  test("clear removes every task", async () => {
+    const { task } = await queue.enqueue({ type: "test" });
+    assert.ok(task);
+    await queue.claim("worker-1");
+    await queue.enqueue({ type: "test" });
+
+    await queue.clear();
+
+    assert.equal(await queue.get(task.id), null);
+    assert.equal((await queue.summary()).stats.totalTasks, 0);
+    assert.deepEqual(await queue.claim("worker-1"), { task: null, reason: "empty" });
+  });
+
+  test("reclaimExpired finds expired leases outside the processing index", async () => {
+    queue = createQueue(storage, { maxAttempts: 2, retryBaseMs: 0, leaseMs: 1 });
+    await queue.enqueue({ type: "test" });
+    const { task } = await queue.claim("worker-1");
+    assert.ok(task);
+    // As if the processing index write had been lost
+    await storage.set("index/processing", []);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    const { requeued } = await queue.reclaimExpired();
+
+    assert.deepEqual(
+      requeued.map((result) => result.task.id),
+      [task.id]
+    );
+    assert.equal((await queue.get(task.id))?.reclaims, 1);
+  });
+
+  test("a concurrency slot lapses with its task's lease", async () => {
+    queue = createQueue(storage, { leaseMs: 1, limiter: { maxConcurrency: 1 } });
+    await queue.enqueueBatch([{ type: "test" }, { type: "test" }]);
+    assert.ok((await queue.claim("worker-1")).task);
+    // worker-1 never finishes - once its lease runs out, so does its slot
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    assert.ok((await queue.claim("worker-2")).task);
+  });
+
+  test("repairIndexes puts back a task that's missing from its index", async () => {
+    const { task } = await queue.enqueue({ type: "test" });
+    assert.ok(task);
+    // As if the lane write had failed after the task was created
+    await storage.set("index/queue/normal", []);
+
+    // Noted the first time, in case it's mid-change; repaired the second
+    assert.deepEqual(await queue.repairIndexes(), []);
+    assert.deepEqual(await queue.repairIndexes(), [task.id]);
+    assert.equal((await queue.claim("worker-1")).task?.id, task.id);
+  });
+
+  test("requeue won't run a dependent whose dependency failed", async () => {
+    queue = createQueue(storage, { maxAttempts: 1 });
+    const { task: parent } = await queue.enqueue({ type: "test" });
+    assert.ok(parent);
+    const { task: child } = await queue.enqueue({ type: "test", dependsOn: [parent.id] });
+    assert.ok(child);
+    await queue.claim("worker-1");
+    await queue.fail(parent.id, "worker-1", "boom");
+    assert.equal((await queue.get(child.id))?.status, "cancelled");
+
+    assert.deepEqual(await queue.requeue(child.id), {
+      task: null,
+      reason: "dependency-failed",
+      taskId: parent.id,
+    });
+
+    // Once the dependency is back in the queue, the dependent waits for it again
+    await queue.retryDeadLetter([parent.id]);
+    const requeued = await queue.requeue(child.id);
+    assert.deepEqual(requeued.task?.waitingOn, [parent.id]);
+    assert.equal((await queue.claim("worker-1")).task?.id, parent.id);
+    assert.deepEqual(await queue.claim("worker-2"), { task: null, reason: "empty" });
+  });
+});
+
+describe("dependencies and workflows", () => {
+  let storage: QueueStorage;
+  let queue: Queue;
+
+  beforeEach(() => {
+    storage = createMemoryStorage();
+    queue = createQueue(storage, { maxAttempts: 1 });
+  });
+
+  // A parent and a child that depends on it
+  async function parentAndChild() {
+    const { task: parent } = await queue.enqueue({ type: "test" });
+    assert.ok(parent);
+    const { task: child } = await queue.enqueue({ type: "test", dependsOn: [parent.id] });
+    assert.ok(child);
+    return { parent, child };
+  }
+
+  test("a dependent is held back until its dependency completes", async () => {
+    const { parent, child } = await parentAndChild();
+    assert.deepEqual(child.waitingOn, [parent.id]);
+
+    assert.equal((await queue.claim("worker-1")).task?.id, parent.id);
+    assert.deepEqual(await queue.claim("worker-2"), { task: null, reason: "empty" });
+    await queue.complete(parent.id, "worker-1");
+
+    const { task } = await queue.claim("worker-2");
+    assert.equal(task?.id, child.id);
+    assert.equal(task?.waitingOn, undefined);
+  });
+
+  test("dead-lettering a dependency cancels its dependents, and theirs", async () => {
+    const { parent, child } = await parentAndChild();
+    const { task: grandchild } = await queue.enqueue({ type: "test", dependsOn: [child.id] });
+    assert.ok(grandchild);
+
+    await queue.claim("worker-1");
+    await queue.fail(parent.id, "worker-1", "boom");
+
+    const cancelledChild = await queue.get(child.id);
+    assert.equal(cancelledChild?.status, "cancelled");
+    assert.equal(cancelledChild?.error, `Dependency ${parent.id} was dead-lettered`);
+    const cancelledGrandchild = await queue.get(grandchild.id);
+    assert.equal(cancelledGrandchild?.status, "cancelled");
+    assert.equal(cancelledGrandchild?.error, `Dependency ${child.id} was cancelled`);
+    assert.equal((await queue.summary()).stats.blockedCount, 0);
+  });
+
+  test("cancelling a dependency cancels its dependents", async () => {
+    const { parent, child } = await parentAndChild();
+
+    await queue.cancel(parent.id);
+
+    const cancelled = await queue.get(child.id);
+    assert.equal(cancelled?.status, "cancelled");
+    assert.equal(cancelled?.error, `Dependency ${parent.id} was cancelled`);
+  });
+
+  test("enqueue rejects an unknown or failed dependency", async () => {
+    assert.deepEqual(await queue.enqueue({ type: "test", dependsOn: ["task-nope"] }), {
+      task: null,
+      reason: "unknown-dependency",
+      taskId: "task-nope",
+    });
+
+    const { task: parent } = await queue.enqueue({ type: "test" });
+    assert.ok(parent);
+    await queue.cancel(parent.id);
+    assert.deepEqual(await queue.enqueue({ type: "test", dependsOn: [parent.id] }), {
+      task: null,
+      reason: "dependency-failed",
+      taskId: parent.id,
+    });
+  });
+
+  test("settleBlockedTasks releases dependents a completion left behind", async () => {
+    const { parent, child } = await parentAndChild();
+    await queue.claim("worker-1");
+    // As if the worker died after marking the parent completed, before
+    // releasing its dependents
+    const entry = await storage.get<Task>(`tasks/${parent.id}`);
+    await storage.set(`tasks/${parent.id}`, { ...entry!.value, status: "completed" });
+    assert.deepEqual(await queue.claim("worker-2"), { task: null, reason: "empty" });
+
+    assert.equal(await queue.settleBlockedTasks(), 1);
+    assert.equal((await queue.claim("worker-2")).task?.id, child.id);
+  });
+
+  test("a workflow runs its steps in dependency order", async () => {
+    const step = (key: string, dependsOn: string[] = []) => ({
+      key,
+      dependsOn,
+      input: { type: "test" },
+    });
+    const result = await queue.enqueueWorkflow({
+      name: "report",
+      steps: [step("report", ["orders", "refunds"]), step("orders"), step("refunds")],
+    });
+    assert.ok(result.workflow);
+    const { id, tasks } = result.workflow;
+    assert.equal(result.workflow.status, "pending");
+    const taskId = (key: string) => tasks.find((task) => task.key === key)!.taskId;
+
+    const started: string[] = [];
+    for (;;) {
+      const { task } = await queue.claim("worker-1");
+      if (!task) {
+        break;
+      }
+      started.push(task.id);
+      await queue.complete(task.id, "worker-1");
+    }
+
+    assert.deepEqual(started, [taskId("orders"), taskId("refunds"), taskId("report")]);
+    const finished = await queue.workflow(id);
+    assert.equal(finished?.status, "completed");
+    assert.equal(finished?.counts.completed, 3);
+  });
+
+  test("a workflow's dependencies must form a DAG of its own keys", async () => {
+    assert.deepEqual(
+      workflowLevels([
+        { key: "a", dependsOn: ["b"] },
+        { key: "b", dependsOn: ["a"] },
+      ]),
+      { error: 'Tasks "a", "b" depend on each other in a cycle' }
+    );
+    assert.deepEqual(workflowLevels([{ key: "a", dependsOn: ["missing"] }]), {
+      error: `Task "a" depends on "missing", which isn't in the workflow`,
+    });
+    assert.deepEqual(workflowLevels([{ key: "a", dependsOn: ["a"] }]), {
+      error: 'Task "a" depends on itself',
+    });
+    assert.deepEqual(
+      workflowLevels([
+        { key: "c", dependsOn: ["a", "b"] },
+        { key: "a", dependsOn: [] },
+        { key: "b", dependsOn: ["a"] },
+      ]),
+      { levels: [["a"], ["b"], ["c"]] }
+    );
+    await assert.rejects(
+      queue.enqueueWorkflow({
+        steps: [{ key: "a", dependsOn: ["a"], input: { type: "test" } }],
+      }),
+      /Invalid workflow/
+    );
+  });
+});
@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import type { Context } from "@netlify/functions";
+import { beforeEach, test } from "node:test";
+import {
+  DEFAULT_QUEUE,
+  isQueueName,
+  listQueues,
+  openQueue,
+  queueNameFrom,
+  registerQueue,
+} from "../netlify/functions/lib/queues.mts";
+import { createMemoryStorage, type QueueStorage } from "../netlify/functions/lib/storage.mts";
+
+let storage: QueueStorage;
+
+beforeEach(() => {
+  storage = createMemoryStorage();
+});
+
+test("named queues keep their own tasks", async () => {
+  const emails = openQueue("emails", storage);
+  const reports = openQueue("reports", storage);
+  const { task } = await emails.enqueue({ type: "test" });
+  assert.ok(task);
+
+  assert.equal(await reports.get(task.id), null);
+  assert.deepEqual(await reports.claim("worker-1"), { task: null, reason: "empty" });
+  assert.equal((await openQueue(DEFAULT_QUEUE, storage).summary()).stats.totalTasks, 0);
+  assert.equal((await emails.claim("worker-1")).task?.id, task.id);
+  // Everything the named queue wrote is under its prefix
+  assert.ok((await storage.list("")).every((key) => key.startsWith("queues/emails/")));
+});
+
+test("named queues have their own limits", async () => {
+  const emails = openQueue("emails", storage);
+  const reports = openQueue("reports", storage);
+  await emails.setLimiterSettings({ maxConcurrency: 1 });
+  await emails.enqueueBatch([{ type: "test" }, { type: "test" }]);
+  await reports.enqueueBatch([{ type: "test" }, { type: "test" }]);
+
+  assert.ok((await emails.claim("worker-1")).task);
+  assert.equal((await emails.claim("worker-2")).task, null);
+  assert.ok((await reports.claim("worker-3")).task);
+  assert.ok((await reports.claim("worker-4")).task);
+  assert.equal((await reports.limiterSettings()).maxConcurrency, null);
+});
+
+test("registered queues are listed default first, then by name", async () => {
+  await Promise.all(
+    ["reports", "emails", "emails", "default"].map((name) => registerQueue(name, storage))
+  );
+
+  assert.deepEqual(await listQueues(storage), ["default", "emails", "reports"]);
+});
+
+test("queue names come from the path, then the query, then the body", () => {
+  const req = new Request("http://localhost/api/queue-task?queue=from-query");
+  const context = { params: { queue: "from-path" } } as unknown as Context;
+
+  assert.equal(queueNameFrom(req, context, { queue: "from-body" }), "from-path");
+  assert.equal(queueNameFrom(req, undefined, { queue: "from-body" }), "from-query");
+  assert.equal(
+    queueNameFrom(new Request("http://localhost/api/queue-task"), undefined, { queue: "b" }),
+    "b"
+  );
+  assert.equal(queueNameFrom(new Request("http://localhost/api/queue-task")), DEFAULT_QUEUE);
+  assert.equal(
+    queueNameFrom(new Request("http://localhost/api/queue-task?queue=Not%20Valid")),
+    null
+  );
+  assert.equal(isQueueName("a".repeat(64)), false);
+  assert.equal(isQueueName("_private"), false);
+});
@@ -0,0 +1,170 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, test } from "node:test";
+import archive from "../netlify/functions/archive.mts";
+import {
+  ARCHIVE_STORE,
+  archiveTasks,
+  parseArchiveDate,
+  readArchive,
+} from "../netlify/functions/lib/archive.mts";
+import { createQueue, type Queue, type QueueOptions } from "../netlify/functions/lib/queue.mts";
+import {
+  createMemoryStorage,
+  setStorageBackend,
+  type QueueStorage,
+} from "../netlify/functions/lib/storage.mts";
+import type { Task } from "../netlify/functions/lib/types.mts";
+
+const ADMIN_KEY = "retention-test-admin-key";
+
+let storage: QueueStorage;
+
+beforeEach(() => {
+  storage = createMemoryStorage();
+});
+
+afterEach(() => {
+  setStorageBackend(null);
+  delete process.env.QUEUE_ADMIN_KEY;
+});
+
+// A queue with `count` completed tasks, oldest first
+async function withCompleted(
+  count: number,
+  retention: QueueOptions["retention"]
+): Promise<{ queue: Queue; ids: string[] }> {
+  const queue = createQueue(storage, { retention });
+  const ids: string[] = [];
+  for (let i = 0; i < count; i++) {
+    await queue.enqueue({ type: "test", data: { n: i } });
+    const { task } = await queue.claim("worker-1");
+    assert.ok(task);
+    await queue.complete(task.id, "worker-1");
+    ids.push(task.id);
+  }
+  return { queue, ids };
+}
+
+describe("pruneFinished", () => {
+  test("archives and deletes the oldest tasks beyond maxCount", async () => {
+    const { queue, ids } = await withCompleted(3, { maxCount: 1 });
+    const archived: Task[] = [];
+
+    const pruned = await queue.pruneFinished(async (tasks) => {
+      archived.push(...tasks);
+    });
+
+    assert.deepEqual(
+      pruned.map((task) => task.id),
+      ids.slice(0, 2)
+    );
+    assert.deepEqual(archived, pruned);
+    assert.equal(await queue.get(ids[0]), null);
+    assert.ok(await queue.get(ids[2]));
+    assert.equal((await queue.summary()).stats.completedCount, 1);
+  });
+
+  test("archives tasks older than maxAgeMs, and nothing newer", async () => {
+    const { queue: fresh } = await withCompleted(2, { maxAgeMs: 60000 });
+    assert.deepEqual(await fresh.pruneFinished(async () => {}), []);
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const aged = createQueue(storage, { retention: { maxAgeMs: 1 } });
+    assert.equal((await aged.pruneFinished(async () => {})).length, 2);
+  });
+
+  test("dead-lettered tasks go by their own limits", async () => {
+    const options = { maxAttempts: 1, retention: { maxAgeMs: 1, deadLetterMaxAgeMs: 60000 } };
+    const queue = createQueue(storage, options);
+    const { task } = await queue.enqueue({ type: "test" });
+    assert.ok(task);
+    await queue.claim("worker-1");
+    await queue.fail(task.id, "worker-1", "Broken");
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    assert.deepEqual(await queue.pruneFinished(async () => {}), []);
+
+    const archived: Task[] = [];
+    const aged = createQueue(storage, { retention: { deadLetterMaxAgeMs: 1 } });
+    await aged.pruneFinished(async (tasks) => {
+      archived.push(...tasks);
+    });
+    assert.deepEqual(
+      archived.map((archivedTask) => [archivedTask.id, archivedTask.status]),
+      [[task.id, "failed"]]
+    );
+    assert.deepEqual(await aged.deadLetter(), []);
+    assert.equal(await aged.get(task.id), null);
+  });
+
+  test("a failed archive leaves the tasks where they were", async () => {
+    const { queue, ids } = await withCompleted(2, { maxCount: 0 });
+
+    await assert.rejects(
+      queue.pruneFinished(async () => {
+        throw new Error("Archive store unavailable");
+      }),
+      /Archive store unavailable/
+    );
+
+    assert.equal((await queue.summary()).stats.completedCount, 2);
+    assert.deepEqual(
+      (await queue.status()).completed.map((task) => task.id).sort(),
+      [...ids].sort()
+    );
+  });
+});
+
+describe("archive", () => {
+  async function finishedOn(dates: string[]): Promise<Task[]> {
+    const { queue, ids } = await withCompleted(dates.length, {});
+    const tasks = await Promise.all(ids.map((id) => queue.get(id)));
+    return tasks.map((task, i) => ({ ...task!, completedAt: parseArchiveDate(dates[i])! + 1 }));
+  }
+
+  test("tasks are written as NDJSON under the day they finished", async () => {
+    const archiveStorage = createMemoryStorage();
+    const tasks = await finishedOn(["2026-03-01", "2026-03-02", "2026-03-01"]);
+
+    const keys = await archiveTasks("default", tasks, archiveStorage);
+
+    assert.deepEqual(
+      keys.map((key) => key.split("/").slice(0, 2).join("/")),
+      ["default/2026-03-01", "default/2026-03-02"]
+    );
+    const chunks: string[] = [];
+    for await (const chunk of readArchive("default", ["2026-03-01"], archiveStorage)) {
+      chunks.push(chunk);
+    }
+    assert.deepEqual(
+      chunks.join("").trimEnd().split("\n").map((line) => JSON.parse(line).id),
+      [tasks[0].id, tasks[2].id]
+    );
+  });
+
+  test("GET /api/archive streams the date range", async () => {
+    const archiveStorage = createMemoryStorage();
+    setStorageBackend((name) => (name === ARCHIVE_STORE ? archiveStorage : storage));
+    process.env.QUEUE_ADMIN_KEY = ADMIN_KEY;
+    const tasks = await finishedOn(["2026-03-01", "2026-03-02", "2026-03-04"]);
+    await archiveTasks("default", tasks, archiveStorage);
+    const download = (query: string) =>
+      archive(
+        new Request(`http://localhost/api/archive?${query}`, {
+          headers: { Authorization: `Bearer ${ADMIN_KEY}` },
+        })
+      );
+
+    const response = await download("from=2026-03-01&to=2026-03-03");
+
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get("Content-Type"), "application/x-ndjson");
+    const lines = (await response.text()).trimEnd().split("\n");
+    assert.deepEqual(
+      lines.map((line) => JSON.parse(line).id),
+      [tasks[0].id, tasks[1].id]
+    );
+    assert.equal((await download("from=2026-03-02&to=2026-03-01")).status, 400);
+    assert.equal((await download("from=2026-02-30")).status, 400);
+  });
+});
@@ -0,0 +1,84 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, test } from "node:test";
+import scheduler from "../netlify/functions/scheduler.mts";
+import { createQueue, type Queue } from "../netlify/functions/lib/queue.mts";
+import { DEFAULT_QUEUE, openQueue } from "../netlify/functions/lib/queues.mts";
+import {
+  createMemoryStorage,
+  setStorageBackend,
+  type QueueStorage,
+} from "../netlify/functions/lib/storage.mts";
+import {
+  setWorkloadClient,
+  type WorkloadEventOptions,
+} from "../netlify/functions/lib/workloads.mts";
+
+let storage: QueueStorage;
+let queue: Queue;
+
+beforeEach(() => {
+  storage = createMemoryStorage();
+  queue = createQueue(storage);
+});
+
+afterEach(() => {
+  setStorageBackend(null);
+  setWorkloadClient(null);
+});
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+test("a task with a runAt waits until it's due", async () => {
+  const runAt = Date.now() + 30;
+  const result = await queue.enqueue({ type: "test", runAt });
+  assert.ok(result.task);
+  const { task, position } = result;
+
+  assert.equal(task.runAt, runAt);
+  assert.equal(position, null);
+  assert.equal(await queue.nextDueAt(), runAt);
+  assert.deepEqual(await queue.claim("worker-1"), { task: null, reason: "empty" });
+  assert.equal(await queue.promoteDueTasks(), 0);
+
+  await sleep(40);
+  assert.equal(await queue.promoteDueTasks(), 1);
+  const { task: claimed } = await queue.claim("worker-1");
+  assert.equal(claimed?.id, task.id);
+  assert.equal(await queue.nextDueAt(), null);
+});
+
+test("a runAt in the past queues the task straight away", async () => {
+  const result = await queue.enqueue({ type: "test", runAt: Date.now() - 1000 });
+
+  assert.ok(result.task);
+  assert.equal(result.task.runAt, undefined);
+  assert.equal(result.position, 1);
+});
+
+test("the scheduler promotes due tasks and wakes a worker for them", async () => {
+  const sent: WorkloadEventOptions[] = [];
+  setStorageBackend(() => storage);
+  setWorkloadClient({
+    async send(eventName, options) {
+      assert.equal(eventName, "process-task");
+      sent.push(options);
+    },
+  });
+  const defaultQueue = openQueue(DEFAULT_QUEUE, storage);
+  const { task: due } = await defaultQueue.enqueue({ type: "test", runAt: Date.now() + 10 });
+  const later = Date.now() + 30000;
+  await defaultQueue.enqueue({ type: "test", runAt: later });
+  await sleep(20);
+
+  await scheduler();
+
+  assert.deepEqual(
+    (await defaultQueue.status()).queued.map((task) => task.id),
+    [due?.id]
+  );
+  // One worker for the task that's due, and a wake-up for the one still to come
+  assert.deepEqual(
+    sent.map((options) => options.delayUntil),
+    [undefined, later]
+  );
+});
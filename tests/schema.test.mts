@@ -0,0 +1,108 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { registerTaskHandler } from "../netlify/functions/lib/handlers.mts";
+import { validateSchema, type JsonSchema } from "../netlify/functions/lib/schema.mts";
+import { parseTaskRequest } from "../netlify/functions/lib/task-request.mts";
+
+const ORDER: JsonSchema = {
+  type: "object",
+  required: ["id", "items"],
+  properties: {
+    id: { type: "integer", minimum: 1 },
+    email: { type: "string", format: "email" },
+    status: { enum: ["new", "paid"] },
+    placedAt: { type: "string", format: "date-time" },
+    items: {
+      type: "array",
+      minItems: 1,
+      items: {
+        type: "object",
+        properties: { sku: { type: "string", pattern: "^[A-Z]{3}-\\d+$" } },
+        additionalProperties: false,
+      },
+    },
+    note: { type: ["string", "null"], maxLength: 5 },
+  },
+};
+
+describe("validateSchema", () => {
+  test("accepts a value that meets every keyword", () => {
+    assert.deepEqual(
+      validateSchema(ORDER, {
+        id: 7,
+        email: "ops@example.com",
+        status: "paid",
+        placedAt: "2026-03-01T12:00:00Z",
+        items: [{ sku: "ABC-1" }],
+        note: null,
+        extra: "allowed - additionalProperties defaults to true",
+      }),
+      []
+    );
+  });
+
+  test("lists every error with a JSON Pointer to it", () => {
+    const errors = validateSchema(
+      ORDER,
+      {
+        id: 1.5,
+        email: "nobody",
+        status: "lost",
+        placedAt: "2026-03-01",
+        items: [{ sku: "abc" }, { sku: "ABC-2", colour: "red" }],
+        note: "far too long",
+      },
+      "/data"
+    );
+
+    assert.deepEqual(errors, [
+      { path: "/data/id", message: "must be integer" },
+      { path: "/data/email", message: "must be an email address" },
+      { path: "/data/status", message: 'must be one of: "new", "paid"' },
+      { path: "/data/placedAt", message: "must be an RFC 3339 date-time" },
+      { path: "/data/items/0/sku", message: "must match ^[A-Z]{3}-\\d+$" },
+      { path: "/data/items/1/colour", message: "is not allowed" },
+      { path: "/data/note", message: "must be at most 5 characters" },
+    ]);
+  });
+
+  test("reports missing required properties and a wrong type once", () => {
+    assert.deepEqual(validateSchema(ORDER, { items: [] }), [
+      { path: "/id", message: "is required" },
+      { path: "/items", message: "must have at least 1 items" },
+    ]);
+    assert.deepEqual(validateSchema(ORDER, [1, 2]), [{ path: "", message: "must be object" }]);
+  });
+
+  test("escapes / and ~ in property names", () => {
+    const schema: JsonSchema = { type: "object", additionalProperties: { type: "number" } };
+
+    assert.deepEqual(validateSchema(schema, { "a/b~c": "x" }), [
+      { path: "/a~1b~0c", message: "must be number" },
+    ]);
+  });
+});
+
+describe("enqueue requests", () => {
+  test("data is checked against the task type's schema", () => {
+    const result = parseTaskRequest({ type: "webhook", data: { url: "ftp://example.com" } });
+
+    assert.ok("error" in result);
+    assert.deepEqual(result.errors, [{ path: "/data/url", message: "must match ^https?://" }]);
+  });
+
+  test("an oversized payload is refused before it's validated", () => {
+    registerTaskHandler("tiny", async () => null, {
+      schema: { type: "object", properties: { text: { type: "number" } } },
+      maxPayloadBytes: 16,
+    });
+
+    const result = parseTaskRequest({ type: "tiny", data: { text: "more than sixteen bytes" } });
+
+    assert.ok("error" in result);
+    assert.deepEqual(result.errors, [
+      { path: "/data", message: "must be at most 16 bytes as JSON (is 34)" },
+    ]);
+    assert.ok("input" in parseTaskRequest({ type: "tiny", data: { text: 1 } }));
+  });
+});
@@ -0,0 +1,140 @@
+import assert from "node:assert/strict";
+import type { Context } from "@netlify/functions";
+import { afterEach, beforeEach, test } from "node:test";
+import taskEvents from "../netlify/functions/task-events.mts";
+import { AUTH_STORE, createApiKey } from "../netlify/functions/lib/auth.mts";
+import { createQueue, type Queue } from "../netlify/functions/lib/queue.mts";
+import { DEFAULT_QUEUE, openQueue } from "../netlify/functions/lib/queues.mts";
+import {
+  createMemoryStorage,
+  setStorageBackend,
+  type QueueStorage,
+} from "../netlify/functions/lib/storage.mts";
+
+let storage: QueueStorage;
+let queue: Queue;
+
+beforeEach(() => {
+  storage = createMemoryStorage();
+  // No backoff, so a failed task is due again on the next claim
+  queue = createQueue(storage, { maxAttempts: 2, retryBaseMs: 0 });
+});
+
+afterEach(() => {
+  setStorageBackend(null);
+});
+
+async function eventTypes(taskId: string): Promise<string[]> {
+  return (await queue.taskEvents(taskId)).map((event) => event.type);
+}
+
+test("a task's log follows it from enqueue to completion, oldest first", async () => {
+  const { task } = await queue.enqueue({ type: "test" });
+  assert.ok(task);
+  await queue.claim("worker-1");
+  await queue.fail(task.id, "worker-1", "Upstream timed out");
+  await queue.claim("worker-2");
+  await queue.complete(task.id, "worker-2");
+
+  const events = await queue.taskEvents(task.id);
+
+  assert.deepEqual(
+    events.map((event) => event.type),
+    ["enqueued", "claimed", "failed", "retried", "claimed", "completed"]
+  );
+  assert.deepEqual(
+    events.map((event) => event.workerId),
+    [undefined, "worker-1", "worker-1", undefined, "worker-2", "worker-2"]
+  );
+  const failed = events[2];
+  assert.equal(failed.attempt, 1);
+  assert.equal(failed.reason, "Upstream timed out");
+  assert.ok(failed.retryAt);
+  assert.ok(events.every((event, i) => i === 0 || event.at >= events[i - 1].at));
+});
+
+test("a dead-lettered attempt has no retryAt", async () => {
+  const { task } = await queue.enqueue({ type: "test" });
+  assert.ok(task);
+  for (const workerId of ["worker-1", "worker-2"]) {
+    await queue.claim(workerId);
+    await queue.fail(task.id, workerId, "Broken");
+  }
+
+  const events = await queue.taskEvents(task.id);
+
+  assert.equal(events[events.length - 1].type, "failed");
+  assert.equal(events[events.length - 1].retryAt, undefined);
+});
+
+test("refused claims are logged once against the task next in line", async () => {
+  const limited = createQueue(storage, {
+    limiter: { slidingWindow: { limit: 1, windowMs: 60000 }, tokenBucket: null },
+  });
+  await limited.enqueueBatch([{ type: "test" }, { type: "test" }]);
+  await limited.claim("worker-1");
+
+  await limited.claim("worker-2");
+  await limited.claim("worker-3");
+
+  const [next] = (await limited.status()).queued;
+  const events = await limited.taskEvents(next.id);
+  assert.deepEqual(
+    events.map((event) => event.type),
+    ["enqueued", "rate-limited"]
+  );
+  assert.equal(events[1].workerId, "worker-2");
+  assert.ok(events[1].retryAt! > Date.now());
+});
+
+test("cancelling a running task logs the request, then the stop", async () => {
+  const { task } = await queue.enqueue({ type: "test" });
+  assert.ok(task);
+  await queue.claim("worker-1");
+
+  await queue.cancel(task.id);
+  await queue.acknowledgeCancel(task.id, "worker-1");
+
+  assert.deepEqual(await eventTypes(task.id), [
+    "enqueued",
+    "claimed",
+    "cancel-requested",
+    "cancelled",
+  ]);
+  assert.deepEqual(await queue.taskEvents("task-nope"), []);
+});
+
+test("GET /api/task/:id/events is scoped to the key's tenant", async () => {
+  const keys = createMemoryStorage();
+  setStorageBackend((name) => (name === AUTH_STORE ? keys : storage));
+  const { key: acme } = await createApiKey(
+    { name: "acme", role: "submitter", tenant: "acme" },
+    keys
+  );
+  const { key: globex } = await createApiKey(
+    { name: "globex", role: "submitter", tenant: "globex" },
+    keys
+  );
+  const { task } = await openQueue(DEFAULT_QUEUE, storage).enqueue({
+    type: "test",
+    tenant: "acme",
+  });
+  assert.ok(task);
+  const fetchEvents = (key: string) =>
+    taskEvents(
+      new Request(`http://localhost/api/task/${task.id}/events`, {
+        headers: { Authorization: `Bearer ${key}` },
+      }),
+      { params: { id: task.id } } as unknown as Context
+    );
+
+  assert.equal((await fetchEvents(globex)).status, 404);
+  const response = await fetchEvents(acme);
+  assert.equal(response.status, 200);
+  const log = await response.json();
+  assert.equal(log.taskId, task.id);
+  assert.deepEqual(
+    log.events.map((event: { type: string }) => event.type),
+    ["enqueued"]
+  );
+});
@@ -0,0 +1,194 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { createQueue } from "../netlify/functions/lib/queue.mts";
+import { createMemoryStorage } from "../netlify/functions/lib/storage.mts";
+import {
+  emptyTenantState,
+  pickTenant,
+  refundTenant,
+  resolveTenantSettings,
+  serveTenant,
+  startAllowedAt,
+  validateTenantSettings,
+  type TenantSettings,
+  type TenantState,
+} from "../netlify/functions/lib/tenants.mts";
+
+const ROUND_ROBIN: TenantSettings = {
+  mode: "round-robin",
+  weight: 1,
+  maxQueued: null,
+  maxStarted: null,
+  tenants: {},
+};
+// Weighted, everyone weight 1
+const EVEN_WEIGHTS: TenantSettings = { ...ROUND_ROBIN, mode: "weighted" };
+const WEIGHTED: TenantSettings = {
+  ...ROUND_ROBIN,
+  mode: "weighted",
+  tenants: { acme: { weight: 3 } },
+};
+
+// Picks and serves `count` times from `waiting`; the tenants in pick order
+function serve(
+  settings: TenantSettings,
+  state: TenantState,
+  waiting: string[],
+  count: number
+): string[] {
+  const served: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const tenant = pickTenant(waiting, settings, state)!;
+    assert.equal(serveTenant(settings, state, tenant, waiting, 0), true);
+    served.push(tenant);
+  }
+  return served;
+}
+
+describe("fairness", () => {
+  test("round-robin takes the waiting tenants in turn", () => {
+    const state = emptyTenantState();
+
+    assert.deepEqual(serve(ROUND_ROBIN, state, ["globex", "acme", "initech"], 4), [
+      "acme",
+      "globex",
+      "initech",
+      "acme",
+    ]);
+    // A tenant that stops waiting is skipped
+    assert.deepEqual(serve(ROUND_ROBIN, state, ["acme", "initech"], 2), ["initech", "acme"]);
+  });
+
+  test("weighted gives each tenant starts in proportion to its weight", () => {
+    const served = serve(WEIGHTED, emptyTenantState(), ["acme", "globex"], 8);
+
+    assert.equal(served.filter((tenant) => tenant === "acme").length, 6);
+    assert.equal(served.filter((tenant) => tenant === "globex").length, 2);
+  });
+
+  test("an idle tenant doesn't bank starts for when it comes back", () => {
+    const state = emptyTenantState();
+    serve(WEIGHTED, state, ["acme", "globex"], 4);
+    // globex has nothing waiting for a while
+    serve(WEIGHTED, state, ["acme"], 30);
+
+    const served = serve(WEIGHTED, state, ["acme", "globex"], 8);
+
+    assert.equal(served.filter((tenant) => tenant === "globex").length, 2);
+  });
+
+  test("a tenant that has never been served starts level with the others", () => {
+    const state = emptyTenantState();
+    serve(EVEN_WEIGHTS, state, ["acme"], 10);
+
+    const served = serve(EVEN_WEIGHTS, state, ["acme", "globex"], 4);
+
+    assert.equal(served.filter((tenant) => tenant === "globex").length, 2);
+  });
+});
+
+describe("quotas", () => {
+  const settings: TenantSettings = {
+    ...ROUND_ROBIN,
+    maxStarted: { limit: 2, windowMs: 1000 },
+    tenants: { acme: { maxStarted: null } },
+  };
+
+  test("maxStarted holds a tenant back until a start ages out", () => {
+    const state = emptyTenantState();
+    assert.equal(serveTenant(settings, state, "globex", ["globex"], 0), true);
+    assert.equal(serveTenant(settings, state, "globex", ["globex"], 100), true);
+
+    assert.equal(startAllowedAt(settings, state, "globex", 200), 1000);
+    assert.equal(serveTenant(settings, state, "globex", ["globex"], 200), false);
+    assert.equal(startAllowedAt(settings, state, "globex", 1000), null);
+    // Overridden for acme
+    assert.equal(startAllowedAt(settings, state, "acme", 200), null);
+  });
+
+  test("refundTenant gives a start back", () => {
+    const state = emptyTenantState();
+    serveTenant(settings, state, "globex", ["globex"], 0);
+    serveTenant(settings, state, "globex", ["globex"], 100);
+
+    refundTenant(state, "globex", 100);
+
+    assert.equal(startAllowedAt(settings, state, "globex", 200), null);
+  });
+
+  test("settings merge per tenant, and bad ones are named", () => {
+    const resolved = resolveTenantSettings(
+      WEIGHTED,
+      { maxQueued: 10, tenants: { acme: { maxQueued: null } } },
+      null
+    );
+    assert.deepEqual(resolved.tenants.acme, { weight: 3, maxQueued: null });
+    assert.equal(resolved.maxQueued, 10);
+
+    assert.equal(validateTenantSettings({ mode: "weighted" }), null);
+    assert.equal(
+      validateTenantSettings({ mode: "lottery" }),
+      "mode must be round-robin or weighted"
+    );
+    assert.equal(
+      validateTenantSettings({ tenants: { acme: { weight: 0 } } }),
+      "tenants.acme.weight must be a positive number"
+    );
+    assert.equal(
+      validateTenantSettings({ tenants: { "no spaces": {} } }),
+      "Invalid tenant ID: no spaces"
+    );
+  });
+});
+
+describe("claim order", () => {
+  test("tenants take turns, each in its own FIFO order", async () => {
+    const queue = createQueue(createMemoryStorage(), { tenants: ROUND_ROBIN });
+    const enqueued = await queue.enqueueBatch([
+      { type: "test", tenant: "acme", data: 1 },
+      { type: "test", tenant: "acme", data: 2 },
+      { type: "test", tenant: "acme", data: 3 },
+      { type: "test", tenant: "globex", data: 1 },
+    ]);
+    assert.ok(enqueued.every((result) => result.task));
+
+    const claimed: string[] = [];
+    for (let i = 0; i < 4; i++) {
+      const { task } = await queue.claim("worker-1");
+      claimed.push(`${task?.tenant}:${task?.data}`);
+    }
+
+    assert.deepEqual(claimed, ["acme:1", "globex:1", "acme:2", "acme:3"]);
+  });
+
+  test("maxQueued refuses a tenant's enqueue past its quota", async () => {
+    const queue = createQueue(createMemoryStorage(), {
+      tenants: { ...ROUND_ROBIN, maxQueued: 1 },
+    });
+    assert.ok((await queue.enqueue({ type: "test", tenant: "acme" })).task);
+
+    const refused = await queue.enqueue({ type: "test", tenant: "acme" });
+
+    assert.equal(refused.task, null);
+    assert.ok(!refused.task && refused.reason === "quota-exceeded");
+    // Other tenants have their own quota
+    assert.ok((await queue.enqueue({ type: "test", tenant: "globex" })).task);
+  });
+
+  test("claim skips a tenant out of start quota", async () => {
+    const queue = createQueue(createMemoryStorage(), {
+      tenants: { ...ROUND_ROBIN, maxStarted: { limit: 1, windowMs: 60000 } },
+    });
+    await queue.enqueueBatch([
+      { type: "test", tenant: "acme" },
+      { type: "test", tenant: "acme" },
+      { type: "test", tenant: "globex" },
+    ]);
+
+    assert.equal((await queue.claim("worker-1")).task?.tenant, "acme");
+    assert.equal((await queue.claim("worker-2")).task?.tenant, "globex");
+    const refused = await queue.claim("worker-3");
+    assert.ok(refused.task === null && refused.reason === "rate-limited");
+    assert.ok(refused.retryAt! > Date.now());
+  });
+});